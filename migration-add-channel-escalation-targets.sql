@@ -0,0 +1,45 @@
+-- Migration: Add Channel-Specific Escalation Targets
+-- Date: 2026-10-19
+-- Purpose: Let escalation targets belong to a single channel so channels can page their own
+-- team instead of (or as well as) the workspace targets
+
+ALTER TABLE escalation_targets
+  ADD COLUMN IF NOT EXISTS channel_id TEXT;
+
+COMMENT ON COLUMN escalation_targets.channel_id IS 'Channel the target applies to (NULL = workspace-wide target)';
+
+-- The same user/group/channel can now be a target both workspace-wide and for a channel,
+-- so the old uniqueness rule (without channel_id) is replaced
+DO $$
+DECLARE
+  idx record;
+BEGIN
+  FOR idx IN
+    SELECT i.relname AS name
+    FROM pg_index x
+    JOIN pg_class i ON i.oid = x.indexrelid
+    JOIN pg_class t ON t.oid = x.indrelid
+    WHERE t.relname = 'escalation_targets'
+      AND x.indisunique
+      AND NOT x.indisprimary
+      AND (
+        SELECT array_agg(a.attname::text ORDER BY a.attname::text)
+        FROM pg_attribute a
+        WHERE a.attrelid = t.oid AND a.attnum = ANY(x.indkey)
+      ) = ARRAY['escalation_level', 'target_id', 'target_type', 'workspace_id']
+  LOOP
+    EXECUTE format('DROP INDEX IF EXISTS %I', idx.name);
+  END LOOP;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS escalation_targets_scope_key
+  ON escalation_targets(workspace_id, channel_id, target_type, target_id, escalation_level);
+
+CREATE INDEX IF NOT EXISTS escalation_targets_channel_id_escalation_level_idx
+  ON escalation_targets(channel_id, escalation_level);
+
+-- Verification query
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'escalation_targets'
+AND column_name = 'channel_id';
@@ -0,0 +1,35 @@
+-- Migration: Add Detection Feedback
+-- Date: 2026-10-19
+-- Purpose: Learn from answered vs dismissed questions to tune per-channel question detection
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS detection_score DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS detection_features TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS feedback_recorded_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS detection_feedback (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  channel_id TEXT NOT NULL,
+  feature TEXT NOT NULL,
+  answered_count INTEGER NOT NULL DEFAULT 0,
+  dismissed_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- One row per channel and feature; outcomes increment it
+CREATE UNIQUE INDEX IF NOT EXISTS detection_feedback_channel_id_feature_key
+  ON detection_feedback(channel_id, feature);
+
+-- Index for the per-workspace false-positive report
+CREATE INDEX IF NOT EXISTS idx_detection_feedback_workspace_id
+  ON detection_feedback(workspace_id);
+
+COMMENT ON COLUMN questions.detection_features IS 'Signals, phrases and endings the question was detected by';
+COMMENT ON COLUMN questions.feedback_recorded_at IS 'When the answered/dismissed outcome was counted (NULL = not yet)';
+COMMENT ON TABLE detection_feedback IS 'Answered vs dismissed counts per channel and detection feature, used to auto-tune detection';
+
+-- Verification query
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'detection_feedback';
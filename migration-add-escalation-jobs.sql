@@ -0,0 +1,39 @@
+-- Migration: Add Escalation Job Queue
+-- Date: 2026-10-19
+-- Purpose: Replace the 30-second scan of every open question with a schedule of when each one next
+-- needs checking. Workers claim due rows with SELECT ... FOR UPDATE SKIP LOCKED.
+
+CREATE TABLE IF NOT EXISTS escalation_jobs (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  question_id TEXT NOT NULL,
+  workspace_id TEXT NOT NULL,
+  run_at TIMESTAMP NOT NULL,
+  locked_at TIMESTAMP,
+  locked_by TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS escalation_jobs_question_id_key
+  ON escalation_jobs(question_id);
+
+CREATE INDEX IF NOT EXISTS escalation_jobs_run_at_idx
+  ON escalation_jobs(run_at);
+
+COMMENT ON TABLE escalation_jobs IS 'When the escalation engine should next check each open question';
+COMMENT ON COLUMN escalation_jobs.run_at IS 'Next check time (UTC)';
+COMMENT ON COLUMN escalation_jobs.locked_by IS 'Worker currently running the job; stale locks are retaken after 5 minutes';
+
+-- Schedule a check for every question that is already open
+INSERT INTO escalation_jobs (question_id, workspace_id, run_at)
+SELECT id::text, workspace_id::text, NOW() AT TIME ZONE 'UTC'
+FROM questions
+WHERE status IN ('unanswered', 'snoozed')
+  AND escalation_level < 99
+ON CONFLICT (question_id) DO NOTHING;
+
+-- Verification query
+SELECT COUNT(*) AS open_question_jobs
+FROM escalation_jobs;
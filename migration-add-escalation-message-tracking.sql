@@ -0,0 +1,21 @@
+-- Migration: Add Escalation Message Tracking
+-- Date: 2026-10-19
+-- Purpose: Remember the Slack messages each escalation posted so they can be edited in place -
+-- collapsed when the question escalates further, and marked resolved when it is answered or dismissed
+
+ALTER TABLE escalation_events
+  ADD COLUMN IF NOT EXISTS message_channel_id TEXT,
+  ADD COLUMN IF NOT EXISTS message_ts TEXT,
+  ADD COLUMN IF NOT EXISTS dm_channel_id TEXT,
+  ADD COLUMN IF NOT EXISTS dm_message_ts TEXT;
+
+COMMENT ON COLUMN escalation_events.message_channel_id IS 'Channel of the bot post (thread reply or escalation channel alert)';
+COMMENT ON COLUMN escalation_events.message_ts IS 'Slack ts of the bot post, for chat.update';
+COMMENT ON COLUMN escalation_events.dm_channel_id IS 'DM channel of the message sent to a user target';
+COMMENT ON COLUMN escalation_events.dm_message_ts IS 'Slack ts of the DM, for chat.update';
+
+-- Verification query
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'escalation_events'
+AND column_name IN ('message_channel_id', 'message_ts', 'dm_channel_id', 'dm_message_ts');
@@ -0,0 +1,14 @@
+-- Migration: Add Expert Suggestion Tracking
+-- Date: 2026-10-19
+-- Purpose: Record when matched experts were DMed about a question (suggestion phase before level 1)
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS suggestions_sent_at TIMESTAMP;
+
+COMMENT ON COLUMN questions.suggestions_sent_at IS 'When suggested experts were DMed (NULL = suggestion phase not run yet)';
+
+-- Verification query
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'questions'
+AND column_name = 'suggestions_sent_at';
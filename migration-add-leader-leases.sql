@@ -0,0 +1,20 @@
+-- Migration: Add Leader Leases
+-- Date: 2026-10-19
+-- Purpose: Let several replicas run side by side. Each periodic job (escalation engine, data
+-- cleanup) runs only on the instance holding its lease row; leases expire if not renewed.
+
+CREATE TABLE IF NOT EXISTS leader_leases (
+  name TEXT PRIMARY KEY,
+  holder TEXT NOT NULL,
+  acquired_at TIMESTAMP NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE leader_leases IS 'Which instance runs each periodic job';
+COMMENT ON COLUMN leader_leases.holder IS 'Instance id (hostname:pid:random) of the current leader';
+COMMENT ON COLUMN leader_leases.expires_at IS 'Lease lapses at this time (UTC) unless renewed; another instance may then take over';
+
+-- Verification query
+SELECT name, holder, acquired_at, expires_at
+FROM leader_leases;
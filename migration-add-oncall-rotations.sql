@@ -0,0 +1,44 @@
+-- Migration: Add On-Call Rotations
+-- Date: 2026-10-19
+-- Purpose: Store on-call rotations and their overrides so a 'rotation' escalation target
+-- can resolve to whoever is on call when the escalation fires
+
+CREATE TABLE IF NOT EXISTS oncall_rotations (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  workspace_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  rotation_type TEXT NOT NULL DEFAULT 'weekly',
+  member_ids TEXT[] NOT NULL DEFAULT '{}',
+  start_date TEXT NOT NULL,
+  handoff_time TEXT NOT NULL DEFAULT '09:00',
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS oncall_rotations_workspace_id_name_key
+  ON oncall_rotations(workspace_id, name);
+
+CREATE TABLE IF NOT EXISTS oncall_overrides (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  rotation_id TEXT NOT NULL REFERENCES oncall_rotations(id) ON DELETE CASCADE,
+  slack_user_id TEXT NOT NULL,
+  starts_at TIMESTAMP NOT NULL,
+  ends_at TIMESTAMP NOT NULL,
+  reason TEXT,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS oncall_overrides_rotation_id_ends_at_idx
+  ON oncall_overrides(rotation_id, ends_at);
+
+COMMENT ON COLUMN oncall_rotations.member_ids IS 'Slack user IDs in rotation order';
+COMMENT ON COLUMN oncall_rotations.start_date IS 'YYYY-MM-DD of the first member''s first shift, in the rotation timezone';
+COMMENT ON COLUMN oncall_rotations.handoff_time IS 'HH:MM when shifts change, in the rotation timezone';
+COMMENT ON TABLE oncall_overrides IS 'Temporary cover: slack_user_id is on call instead of the scheduled member between starts_at and ends_at';
+
+-- Verification query
+SELECT table_name
+FROM information_schema.tables
+WHERE table_name IN ('oncall_rotations', 'oncall_overrides');
@@ -0,0 +1,21 @@
+-- Migration: Add Question Claims
+-- Date: 2026-10-19
+-- Purpose: Let a responder claim a question, pausing escalation until the claim expires
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS claimed_by_id TEXT,
+  ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS claim_expires_at TIMESTAMP;
+
+-- Index for listing active claims and finding expired ones
+CREATE INDEX IF NOT EXISTS idx_questions_claimed_by_id_claim_expires_at
+  ON questions(claimed_by_id, claim_expires_at);
+
+COMMENT ON COLUMN questions.claimed_by_id IS 'User who said they would take the question (NULL = unclaimed)';
+COMMENT ON COLUMN questions.claim_expires_at IS 'Escalation resumes after this time if the question is still unanswered';
+
+-- Verification query
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'questions'
+AND column_name IN ('claimed_by_id', 'claimed_at', 'claim_expires_at');
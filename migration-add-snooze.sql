@@ -0,0 +1,25 @@
+-- Migration: Add Snooze Tracking
+-- Date: 2026-10-19
+-- Purpose: Let snoozed questions wake up automatically and restart their escalation clock
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS escalation_started_at TIMESTAMP;
+
+-- Index for finding snoozes that are due to wake
+CREATE INDEX IF NOT EXISTS idx_questions_status_snoozed_until
+  ON questions(status, snoozed_until);
+
+COMMENT ON COLUMN questions.snoozed_until IS 'When a snoozed question returns to unanswered';
+COMMENT ON COLUMN questions.escalation_started_at IS 'Start of the escalation clock (NULL = asked_at); reset when a snooze ends';
+
+-- Wake questions snoozed before this migration (they had no wake time)
+UPDATE questions
+SET status = 'unanswered', escalation_level = 0, escalation_started_at = NOW()
+WHERE status = 'snoozed' AND snoozed_until IS NULL;
+
+-- Verification query
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'questions'
+AND column_name IN ('snoozed_until', 'escalation_started_at');
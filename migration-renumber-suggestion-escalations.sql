@@ -0,0 +1,14 @@
+-- Migration: Renumber Expert Suggestion Escalations
+-- Date: 2026-10-19
+-- Purpose: Give expert suggestion rows their own escalation level (-1) instead of sharing 0 with "not escalated"
+
+UPDATE escalations
+SET escalation_level = -1
+WHERE escalation_level = 0
+AND action_taken IN ('dm_suggestions', 'dm_suggestions_failed');
+
+-- Verification query (should return 0)
+SELECT COUNT(*)
+FROM escalations
+WHERE escalation_level = 0
+AND action_taken IN ('dm_suggestions', 'dm_suggestions_failed');
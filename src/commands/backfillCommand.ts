@@ -0,0 +1,110 @@
+/**
+ * Backfill Command Handler
+ * /qr-backfill #channel 7d - scans a channel's history for questions posted while the bot wasn't watching
+ */
+import boltPkg from '@slack/bolt';
+import type { App } from '@slack/bolt';
+import { ensureWorkspace, ensureChannel } from '../utils/db.js';
+import { isWorkspaceAdmin, sendPermissionDenied } from '../utils/permissions.js';
+import { getWorkspaceConfig } from '../services/configService.js';
+import { getEffectiveChannelConfig, getWorkspaceConfigDefaults } from '../services/channelConfigService.js';
+import { getWorkspaceMetadata } from '../services/workspaceMetadataService.js';
+import {
+  backfillChannel,
+  formatBackfillPeriod,
+  formatBackfillProgress,
+  parseBackfillArgs,
+} from '../services/backfillService.js';
+
+// Channels with a backfill in progress (workspaceId:channelId), so two runs don't race each other
+const runningBackfills = new Set<string>();
+
+export function registerBackfillCommand(app: App) {
+  app.command('/qr-backfill', async ({ command, ack, client, respond, logger }) => {
+    await ack();
+
+    const isAdmin = await isWorkspaceAdmin(client, command.user_id);
+    if (!isAdmin) {
+      await sendPermissionDenied(client, command.channel_id, command.user_id);
+      return;
+    }
+
+    const request = parseBackfillArgs(command.text || '', command.channel_id);
+    if ('error' in request) {
+      await respond({ response_type: 'ephemeral', text: `❌ ${request.error}` });
+      return;
+    }
+
+    let runKey: string | null = null;
+    try {
+      const workspace = await ensureWorkspace(command.team_id);
+
+      const channelInfo = await client.conversations.info({ channel: request.channelId });
+      const channel = await ensureChannel(workspace.id, request.channelId, channelInfo.channel?.name);
+      if (!channel.isMonitored) {
+        await respond({
+          response_type: 'ephemeral',
+          text: `❌ <#${request.channelId}> isn't monitored for questions, so there's nothing to backfill.`,
+        });
+        return;
+      }
+
+      runKey = `${workspace.id}:${request.channelId}`;
+      if (runningBackfills.has(runKey)) {
+        runKey = null;
+        await respond({
+          response_type: 'ephemeral',
+          text: `⏳ A backfill of <#${request.channelId}> is already running.`,
+        });
+        return;
+      }
+      runningBackfills.add(runKey);
+
+      const config = await getWorkspaceConfig(workspace.id);
+      const effectiveConfig = await getEffectiveChannelConfig(channel.id, getWorkspaceConfigDefaults(config));
+      const { botUserId } = await getWorkspaceMetadata(client, command.team_id);
+
+      await respond({
+        response_type: 'ephemeral',
+        text: `⏳ *Backfilling <#${request.channelId}>* (last ${formatBackfillPeriod(request.hours)})...`,
+      });
+
+      const progress = await backfillChannel(
+        client,
+        {
+          workspaceId: workspace.id,
+          channel,
+          hours: request.hours,
+          botUserId,
+          answerDetectionMode: effectiveConfig.answerDetectionMode,
+        },
+        (current) =>
+          respond({
+            response_type: 'ephemeral',
+            replace_original: true,
+            text: formatBackfillProgress(request.channelId, request.hours, current, false),
+          }).then(() => undefined)
+      );
+
+      await respond({
+        response_type: 'ephemeral',
+        replace_original: true,
+        text: formatBackfillProgress(request.channelId, request.hours, progress, true),
+      });
+
+      console.log(`📥 Backfilled ${command.text || command.channel_id} for ${command.user_id}:`, progress);
+    } catch (error: any) {
+      logger.error('Error running backfill:', error);
+
+      const slackError = error?.data?.error;
+      const text = slackError === 'not_in_channel' || slackError === 'channel_not_found'
+        ? `❌ I can't read <#${request.channelId}>. Invite me with \`/invite @Question Router\` and try again.`
+        : `❌ Backfill failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      await respond({ response_type: 'ephemeral', replace_original: true, text });
+    } finally {
+      if (runKey) {
+        runningBackfills.delete(runKey);
+      }
+    }
+  });
+}
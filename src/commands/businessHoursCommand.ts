@@ -0,0 +1,306 @@
+/**
+ * Business Hours Command Handler
+ * Lets admins set the working-time calendar escalation clocks count against
+ * /qr-hours edits the workspace calendar, /qr-hours channel overrides it for the current channel
+ */
+import boltPkg from '@slack/bolt';
+import type { App } from '@slack/bolt';
+import { ensureWorkspace, ensureChannel } from '../utils/db.js';
+import { isWorkspaceAdmin, sendPermissionDenied } from '../utils/permissions.js';
+import { getWorkspaceConfig, updateWorkspaceSettings } from '../services/configService.js';
+import { getChannelConfigBySlackId, updateChannelSettings } from '../services/channelConfigService.js';
+import {
+  DEFAULT_BUSINESS_HOURS,
+  describeBusinessHours,
+  isValidTimezone,
+  parseHolidays,
+  validateBusinessHours,
+  type BusinessHours,
+} from '../services/businessHoursService.js';
+
+type HoursMode = 'always' | 'business' | 'inherit';
+
+const DAY_OPTIONS = [
+  { value: '1', label: 'Monday' },
+  { value: '2', label: 'Tuesday' },
+  { value: '3', label: 'Wednesday' },
+  { value: '4', label: 'Thursday' },
+  { value: '5', label: 'Friday' },
+  { value: '6', label: 'Saturday' },
+  { value: '0', label: 'Sunday' },
+].map((d) => ({
+  text: { type: 'plain_text' as const, text: d.label },
+  value: d.value,
+}));
+
+function getModeOption(mode: HoursMode, workspaceHours?: BusinessHours | null) {
+  const labels: Record<HoursMode, string> = {
+    always: 'Always on (24/7)',
+    business: 'Business hours only',
+    inherit: `Use workspace hours (${describeBusinessHours(workspaceHours ?? null)})`.slice(0, 75),
+  };
+  return {
+    text: { type: 'plain_text' as const, text: labels[mode] },
+    value: mode,
+  };
+}
+
+export function registerBusinessHoursCommand(app: App) {
+  app.command('/qr-hours', async ({ command, ack, client, logger }) => {
+    await ack();
+
+    try {
+      const isAdmin = await isWorkspaceAdmin(client, command.user_id);
+      if (!isAdmin) {
+        await sendPermissionDenied(client, command.channel_id, command.user_id);
+        return;
+      }
+
+      const isChannel = (command.text || '').trim().toLowerCase() === 'channel';
+      const workspace = await ensureWorkspace(command.team_id);
+      const config = await getWorkspaceConfig(workspace.id);
+      const workspaceHours = config.settings.businessHours ?? null;
+
+      let current: BusinessHours | null = workspaceHours;
+      let mode: HoursMode = workspaceHours?.enabled ? 'business' : 'always';
+
+      if (isChannel) {
+        const channelConfig = await getChannelConfigBySlackId(workspace.id, command.channel_id);
+        const channelHours = channelConfig?.settings.businessHours;
+        current = channelHours ?? workspaceHours;
+        mode = !channelHours ? 'inherit' : channelHours.enabled ? 'business' : 'always';
+      }
+
+      // New calendars start in the admin's own timezone
+      let timezone = current?.timezone;
+      if (!timezone) {
+        const userInfo = await client.users.info({ user: command.user_id });
+        timezone = userInfo.user?.tz && isValidTimezone(userInfo.user.tz)
+          ? userInfo.user.tz
+          : DEFAULT_BUSINESS_HOURS.timezone;
+      }
+      const hours: BusinessHours = { ...DEFAULT_BUSINESS_HOURS, ...current, timezone };
+
+      const modeOptions: HoursMode[] = isChannel ? ['inherit', 'always', 'business'] : ['always', 'business'];
+      const selectedDays = DAY_OPTIONS.filter((o) => hours.workDays.includes(parseInt(o.value, 10)));
+
+      await client.views.open({
+        trigger_id: command.trigger_id,
+        view: {
+          type: 'modal',
+          callback_id: 'business_hours_modal',
+          title: {
+            type: 'plain_text',
+            text: 'Business Hours',
+          },
+          submit: {
+            type: 'plain_text',
+            text: 'Save',
+          },
+          close: {
+            type: 'plain_text',
+            text: 'Cancel',
+          },
+          private_metadata: JSON.stringify({
+            workspaceId: workspace.id,
+            channelId: command.channel_id,
+            isChannel,
+          }),
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: isChannel
+                  ? `Working hours for <#${command.channel_id}>. Escalation timings only count working time, and escalations due outside it wait for the next working window.`
+                  : 'Working hours for the workspace. Escalation timings only count working time, and escalations due outside it wait for the next working window.',
+              },
+            },
+            {
+              type: 'divider',
+            },
+            {
+              type: 'input',
+              block_id: 'hours_mode',
+              label: {
+                type: 'plain_text',
+                text: 'Escalation Clock',
+              },
+              element: {
+                type: 'static_select',
+                action_id: 'mode_select',
+                initial_option: getModeOption(mode, workspaceHours),
+                options: modeOptions.map((m) => getModeOption(m, workspaceHours)),
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'timezone',
+              label: {
+                type: 'plain_text',
+                text: 'Timezone',
+              },
+              element: {
+                type: 'plain_text_input',
+                action_id: 'timezone_input',
+                initial_value: hours.timezone,
+                placeholder: {
+                  type: 'plain_text',
+                  text: 'e.g. America/New_York',
+                },
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'work_days',
+              optional: true,
+              label: {
+                type: 'plain_text',
+                text: 'Working Days',
+              },
+              element: {
+                type: 'checkboxes',
+                action_id: 'days_select',
+                options: DAY_OPTIONS,
+                ...(selectedDays.length > 0 && { initial_options: selectedDays }),
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'start_time',
+              label: {
+                type: 'plain_text',
+                text: 'Day Starts',
+              },
+              element: {
+                type: 'timepicker',
+                action_id: 'start_time_input',
+                initial_time: hours.startTime,
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'end_time',
+              label: {
+                type: 'plain_text',
+                text: 'Day Ends',
+              },
+              element: {
+                type: 'timepicker',
+                action_id: 'end_time_input',
+                initial_time: hours.endTime,
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'holidays',
+              optional: true,
+              label: {
+                type: 'plain_text',
+                text: 'Holidays',
+              },
+              element: {
+                type: 'plain_text_input',
+                action_id: 'holidays_input',
+                multiline: true,
+                initial_value: hours.holidays.join('\n'),
+                placeholder: {
+                  type: 'plain_text',
+                  text: 'One date per line, e.g. 2026-12-25',
+                },
+              },
+            },
+          ],
+        },
+      });
+    } catch (error) {
+      logger.error('Error opening business hours modal:', error);
+      try {
+        await client.chat.postEphemeral({
+          channel: command.channel_id,
+          user: command.user_id,
+          text: `❌ Error opening business hours: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      } catch (ephemeralError) {
+        logger.error('Could not send ephemeral error message:', ephemeralError);
+      }
+    }
+  });
+
+  app.view('business_hours_modal', async ({ ack, view, body, client, logger }) => {
+    const metadata = JSON.parse(view.private_metadata);
+    const { workspaceId, channelId, isChannel } = metadata;
+    const values = view.state.values;
+
+    const mode = (values.hours_mode.mode_select.selected_option?.value || 'always') as HoursMode;
+    const { holidays, error: holidayError } = parseHolidays(values.holidays.holidays_input.value || '');
+
+    const hours: BusinessHours = {
+      enabled: mode === 'business',
+      timezone: (values.timezone.timezone_input.value || '').trim(),
+      workDays: (values.work_days.days_select.selected_options || []).map((o) => parseInt(o.value, 10)),
+      startTime: values.start_time.start_time_input.selected_time || DEFAULT_BUSINESS_HOURS.startTime,
+      endTime: values.end_time.end_time_input.selected_time || DEFAULT_BUSINESS_HOURS.endTime,
+      holidays: holidays || [],
+    };
+
+    // Inherited calendars aren't saved, so only check what will be stored
+    const validationError = mode === 'inherit' ? null : validateBusinessHours(hours);
+    if (holidayError || validationError) {
+      const errors: Record<string, string> = {};
+      if (holidayError) errors.holidays = holidayError;
+      if (validationError?.includes('timezone')) errors.timezone = validationError;
+      else if (validationError?.includes('day')) errors.work_days = validationError;
+      else if (validationError) errors.end_time = validationError;
+
+      await ack({
+        response_action: 'errors',
+        errors,
+      });
+      return;
+    }
+
+    await ack();
+
+    try {
+      const isAdmin = await isWorkspaceAdmin(client, body.user.id);
+      if (!isAdmin) {
+        throw new Error('Only workspace admins can change business hours');
+      }
+
+      let summary: string;
+      if (isChannel) {
+        const channel = await ensureChannel(workspaceId, channelId);
+        // Channel settings are merged on save, so inheriting has to remove the override explicitly
+        await updateChannelSettings(channel.id, {
+          businessHours: mode === 'inherit' ? undefined : hours,
+        });
+        summary = mode === 'inherit'
+          ? `<#${channelId}> now uses the workspace hours`
+          : `<#${channelId}>: ${describeBusinessHours(hours)}`;
+      } else {
+        await updateWorkspaceSettings(workspaceId, { businessHours: hours });
+        summary = `Workspace: ${describeBusinessHours(hours)}`;
+      }
+
+      await client.chat.postEphemeral({
+        channel: channelId || body.user.id,
+        user: body.user.id,
+        text: `✅ Business hours updated\n\n${summary}`,
+      });
+
+      console.log(`✅ Business hours updated (${isChannel ? `channel ${channelId}` : 'workspace'}) by ${body.user.id}: ${summary}`);
+    } catch (error) {
+      logger.error('Error saving business hours:', error);
+      try {
+        await client.chat.postEphemeral({
+          channel: channelId || body.user.id,
+          user: body.user.id,
+          text: `❌ Failed to save business hours: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      } catch (ephemeralError) {
+        logger.error('Could not send ephemeral error message:', ephemeralError);
+      }
+    }
+  });
+}
@@ -4,7 +4,7 @@
  */
 import boltPkg from '@slack/bolt';
 import type { App } from '@slack/bolt';
-import { ensureWorkspace, prisma } from '../utils/db.js';
+import { ensureWorkspace, ensureChannel, prisma } from '../utils/db.js';
 import { isWorkspaceAdmin, sendPermissionDenied } from '../utils/permissions.js';
 import {
   getChannelConfigBySlackId,
@@ -13,11 +13,20 @@ import {
   getChannelsWithCustomSettings,
   hasCustomSettings,
   type ChannelSettings,
+  type CustomTargetMode,
 } from '../services/channelConfigService.js';
 import { getWorkspaceConfig, type AnswerDetectionMode } from '../services/configService.js';
+import {
+  formatLadderDelay,
+  formatLadderText,
+  getWorkspaceLadder,
+  parseLadderText,
+} from '../services/escalationLadderService.js';
+import { describeBusinessHours } from '../services/businessHoursService.js';
+import { buildTargetsListBlocks } from './targetsCommand.js';
 
 export function registerChannelConfigCommand(app: App) {
-  app.command('/qr-channel-config', async ({ command, ack, client, logger }) => {
+  app.command('/qr-channel-config', async ({ command, ack, client, context, logger }) => {
     await ack();
 
     try {
@@ -28,14 +37,32 @@ export function registerChannelConfigCommand(app: App) {
         return;
       }
 
-      const teamInfo = await client.team.info();
-      const teamId = teamInfo.team?.id;
+      const teamId = context.teamId;
 
       if (!teamId) {
         throw new Error('Could not get team information');
       }
 
       const workspace = await ensureWorkspace(teamId);
+
+      // "/qr-channel-config targets" manages this channel's own escalation targets
+      if ((command.text || '').trim().toLowerCase() === 'targets') {
+        const channel = await ensureChannel(workspace.id, command.channel_id);
+        const blocks = await buildTargetsListBlocks(workspace.id, {
+          id: channel.id,
+          slackChannelId: channel.slackChannelId,
+          settings: (channel.settings as ChannelSettings | null) || {},
+        });
+
+        await client.chat.postEphemeral({
+          channel: command.channel_id,
+          user: command.user_id,
+          blocks,
+          text: 'Channel Escalation Targets',
+        });
+        return;
+      }
+
       const workspaceConfig = await getWorkspaceConfig(workspace.id);
 
       // Get channel info
@@ -180,6 +207,50 @@ export function registerChannelConfigCommand(app: App) {
                 initial_value: settings.finalEscalationMinutes?.toString() || '',
               },
             },
+            {
+              type: 'input',
+              block_id: 'escalation_ladder',
+              optional: true,
+              label: {
+                type: 'plain_text',
+                text: 'Escalation Ladder (minutes per level)',
+              },
+              element: {
+                type: 'plain_text_input',
+                action_id: 'ladder_input',
+                placeholder: {
+                  type: 'plain_text',
+                  text: `Workspace ladder: ${formatLadderText(getWorkspaceLadder(workspaceConfig))}`,
+                },
+                initial_value: settings.escalationLadder ? formatLadderText(settings.escalationLadder) : '',
+              },
+              hint: {
+                type: 'plain_text',
+                text: 'e.g. 10, 30, 120, 480 for four levels. Replaces the three timings above when set.',
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'grace_period',
+              optional: true,
+              label: {
+                type: 'plain_text',
+                text: 'Grace Period (minutes)',
+              },
+              element: {
+                type: 'plain_text_input',
+                action_id: 'grace_period_input',
+                placeholder: {
+                  type: 'plain_text',
+                  text: `Workspace default: ${workspaceConfig.gracePeriodMinutes}`,
+                },
+                initial_value: settings.gracePeriodMinutes?.toString() || '',
+              },
+              hint: {
+                type: 'plain_text',
+                text: 'Defer escalation while the thread or question was active this recently (0 = never defer)',
+              },
+            },
             {
               type: 'input',
               block_id: 'answer_mode',
@@ -217,6 +288,31 @@ export function registerChannelConfigCommand(app: App) {
                 ],
               },
             },
+            {
+              type: 'input',
+              block_id: 'custom_targets',
+              optional: true,
+              label: {
+                type: 'plain_text',
+                text: 'Escalation Targets',
+              },
+              element: {
+                type: 'static_select',
+                action_id: 'targets_mode_select',
+                initial_option: {
+                  text: { type: 'plain_text', text: getTargetsModeLabel(getTargetsMode(settings)) },
+                  value: getTargetsMode(settings),
+                },
+                options: (['workspace', 'override', 'extend'] as const).map((mode) => ({
+                  text: { type: 'plain_text' as const, text: getTargetsModeLabel(mode) },
+                  value: mode,
+                })),
+              },
+              hint: {
+                type: 'plain_text',
+                text: 'Add this channel\'s own targets with /qr-channel-config targets',
+              },
+            },
             {
               type: 'divider',
             },
@@ -263,9 +359,17 @@ export function registerChannelConfigCommand(app: App) {
         view.state.values.second_escalation.second_escalation_input.value?.trim();
       const finalEscalation =
         view.state.values.final_escalation.final_escalation_input.value?.trim();
+      const gracePeriod =
+        view.state.values.grace_period.grace_period_input.value?.trim();
+      const ladderText =
+        view.state.values.escalation_ladder.ladder_input.value?.trim();
       const answerMode = view.state.values.answer_mode.mode_select.selected_option?.value as
         | AnswerDetectionMode
         | undefined;
+      const targetsMode = view.state.values.custom_targets.targets_mode_select.selected_option?.value as
+        | CustomTargetMode
+        | 'workspace'
+        | undefined;
 
       // Build settings object
       const settings: Partial<ChannelSettings> = {};
@@ -298,10 +402,31 @@ export function registerChannelConfigCommand(app: App) {
         settings.finalEscalationMinutes = minutes;
       }
 
+      if (ladderText) {
+        const { ladder, error } = parseLadderText(ladderText);
+        if (!ladder) {
+          throw new Error(`Escalation ladder: ${error}`);
+        }
+        settings.escalationLadder = ladder;
+      }
+
+      if (gracePeriod) {
+        const minutes = parseInt(gracePeriod);
+        if (isNaN(minutes) || minutes < 0) {
+          throw new Error('Grace period must be zero or a positive number');
+        }
+        settings.gracePeriodMinutes = minutes;
+      }
+
       if (answerMode) {
         settings.answerDetectionMode = answerMode;
       }
 
+      if (targetsMode && targetsMode !== 'workspace') {
+        settings.useCustomTargets = true;
+        settings.customTargetMode = targetsMode;
+      }
+
       // Get the channel from the database
       const channel = await prisma.channel.findFirst({
         where: {
@@ -314,10 +439,27 @@ export function registerChannelConfigCommand(app: App) {
         throw new Error('Channel not found in database');
       }
 
+      const currentSettings = (channel.settings as ChannelSettings | null) || {};
+
+      // Channel settings are merged on save, so emptied fields have to be removed explicitly
+      if (!ladderText && currentSettings.escalationLadder) {
+        settings.escalationLadder = undefined;
+      }
+      if (!settings.useCustomTargets && currentSettings.useCustomTargets) {
+        settings.useCustomTargets = undefined;
+        settings.customTargetMode = undefined;
+      }
+
       // If all settings are empty/default, clear the channel config
-      if (Object.keys(settings).length === 0 || (Object.keys(settings).length === 1 && settings.escalationEnabled === true)) {
+      const setKeys = Object.keys(settings).filter((key) => settings[key as keyof ChannelSettings] !== undefined);
+      if (setKeys.length === 0 || (setKeys.length === 1 && settings.escalationEnabled === true)) {
         await clearChannelSettings(channel.id);
 
+        // Business hours are set from /qr-hours channel, not this modal, so keep them
+        if (currentSettings.businessHours) {
+          await updateChannelSettings(channel.id, { businessHours: currentSettings.businessHours });
+        }
+
         await client.chat.postEphemeral({
           channel: channelId,
           user: body.user.id,
@@ -355,12 +497,11 @@ export function registerChannelConfigCommand(app: App) {
   });
 
   // List channels with custom settings
-  app.command('/qr-channels', async ({ command, ack, client, logger }) => {
+  app.command('/qr-channels', async ({ command, ack, client, context, logger }) => {
     await ack();
 
     try {
-      const teamInfo = await client.team.info();
-      const teamId = teamInfo.team?.id;
+      const teamId = context.teamId;
 
       if (!teamId) {
         throw new Error('Could not get team information');
@@ -412,6 +553,21 @@ function getModeLabel(mode: AnswerDetectionMode): string {
   }
 }
 
+function getTargetsMode(settings: ChannelSettings): CustomTargetMode | 'workspace' {
+  return settings.useCustomTargets ? settings.customTargetMode || 'override' : 'workspace';
+}
+
+function getTargetsModeLabel(mode: CustomTargetMode | 'workspace'): string {
+  switch (mode) {
+    case 'override':
+      return 'Channel targets replace workspace targets';
+    case 'extend':
+      return 'Channel targets add to workspace targets';
+    default:
+      return 'Workspace targets only (default)';
+  }
+}
+
 function formatSettings(settings: ChannelSettings): string {
   const parts: string[] = [];
 
@@ -431,9 +587,25 @@ function formatSettings(settings: ChannelSettings): string {
     parts.push(`• Final: ${settings.finalEscalationMinutes} min`);
   }
 
+  if (settings.escalationLadder) {
+    parts.push(`• Ladder: ${settings.escalationLadder.map((l) => formatLadderDelay(l.afterMinutes)).join(' → ')}`);
+  }
+
+  if (settings.gracePeriodMinutes !== undefined) {
+    parts.push(`• Grace period: ${settings.gracePeriodMinutes} min`);
+  }
+
+  if (settings.businessHours) {
+    parts.push(`• Hours: ${describeBusinessHours(settings.businessHours)}`);
+  }
+
   if (settings.answerDetectionMode) {
     parts.push(`• Mode: ${settings.answerDetectionMode}`);
   }
 
+  if (settings.useCustomTargets) {
+    parts.push(`• Targets: ${settings.customTargetMode === 'extend' ? 'channel + workspace' : 'channel overrides workspace'}`);
+  }
+
   return parts.join('\n');
 }
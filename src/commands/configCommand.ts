@@ -8,13 +8,43 @@ import { ensureWorkspace, prisma } from '../utils/db.js';
 import {
   getWorkspaceConfig,
   getAnswerDetectionModeDescription,
+  updateWorkspaceSettings,
   type AnswerDetectionMode,
 } from '../services/configService.js';
+import { CLAIM, QUESTION_DETECTION, SNOOZE } from '../utils/constants.js';
+import {
+  DETECTION_PROPAGATION_NOTE,
+  invalidateQuestionModel,
+  normalizeDetectionThreshold,
+  type QuestionClassifierName,
+} from '../services/questionClassifierService.js';
+import { syncLadderWithLegacyTimings } from '../services/escalationLadderService.js';
 import { isWorkspaceAdmin, sendPermissionDenied } from '../utils/permissions.js';
 
+const DM_SUGGESTIONS_OPTION = {
+  text: {
+    type: 'plain_text' as const,
+    text: 'DM suggested experts before escalating',
+  },
+  value: 'enabled',
+};
+
+const DETECTION_AUTO_TUNE_OPTION = {
+  text: {
+    type: 'plain_text' as const,
+    text: 'Tune channels from dismissed questions',
+  },
+  value: 'enabled',
+};
+
+const CLASSIFIER_OPTIONS: { text: { type: 'plain_text'; text: string }; value: QuestionClassifierName }[] = [
+  { text: { type: 'plain_text', text: 'Rules - question marks, openers, help phrases' }, value: 'rules' },
+  { text: { type: 'plain_text', text: 'Learned - trained on answered vs dismissed' }, value: 'statistical' },
+];
+
 export function registerConfigCommand(app: App) {
   // Command handler - opens modal
-  app.command('/qr-config', async ({ command, ack, client, logger }) => {
+  app.command('/qr-config', async ({ command, ack, client, context, logger }) => {
     await ack();
 
     try {
@@ -25,13 +55,9 @@ export function registerConfigCommand(app: App) {
         return;
       }
 
-      // Parallelize all API calls to be faster than 3 second trigger_id expiry
-      const [teamInfo, userGroupsResponse] = await Promise.all([
-        client.team.info(),
-        client.usergroups.list(),
-      ]);
+      const userGroupsResponse = await client.usergroups.list();
 
-      const teamId = teamInfo.team?.id;
+      const teamId = context.teamId;
       if (!teamId) {
         throw new Error('Could not get team information');
       }
@@ -107,6 +133,66 @@ export function registerConfigCommand(app: App) {
                 text: 'Time before posting to escalation channel',
               },
             },
+            {
+              type: 'input',
+              block_id: 'grace_period',
+              label: {
+                type: 'plain_text',
+                text: 'Grace Period (minutes)',
+              },
+              element: {
+                type: 'number_input',
+                action_id: 'grace_period_input',
+                is_decimal_allowed: false,
+                initial_value: config.gracePeriodMinutes.toString(),
+                min_value: '0',
+                max_value: '1440',
+              },
+              hint: {
+                type: 'plain_text',
+                text: 'Escalation waits until the thread and question have been quiet this long (0 = never wait)',
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'default_snooze',
+              label: {
+                type: 'plain_text',
+                text: 'Default Snooze (minutes)',
+              },
+              element: {
+                type: 'number_input',
+                action_id: 'default_snooze_input',
+                is_decimal_allowed: false,
+                initial_value: (config.settings.defaultSnoozeMinutes ?? SNOOZE.DEFAULT_MINUTES).toString(),
+                min_value: '1',
+                max_value: SNOOZE.MAX_MINUTES.toString(),
+              },
+              hint: {
+                type: 'plain_text',
+                text: 'How long a 🔕 reaction pauses escalation before the question comes back',
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'claim_timeout',
+              label: {
+                type: 'plain_text',
+                text: 'Claim Timeout (minutes)',
+              },
+              element: {
+                type: 'number_input',
+                action_id: 'claim_timeout_input',
+                is_decimal_allowed: false,
+                initial_value: (config.settings.claimTimeoutMinutes ?? CLAIM.DEFAULT_TIMEOUT_MINUTES).toString(),
+                min_value: '1',
+                max_value: CLAIM.MAX_TIMEOUT_MINUTES.toString(),
+              },
+              hint: {
+                type: 'plain_text',
+                text: "How long \"I'll take it\" holds escalation before it resumes",
+              },
+            },
             {
               type: 'divider',
             },
@@ -261,6 +347,103 @@ export function registerConfigCommand(app: App) {
             {
               type: 'divider',
             },
+            {
+              type: 'header',
+              text: {
+                type: 'plain_text',
+                text: '💡 Expert Suggestions',
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'dm_suggestions',
+              optional: true,
+              label: {
+                type: 'plain_text',
+                text: 'Suggestion DMs',
+              },
+              element: {
+                type: 'checkboxes',
+                action_id: 'dm_suggestions_toggle',
+                ...(config.dmSuggestionsEnabled && { initial_options: [DM_SUGGESTIONS_OPTION] }),
+                options: [DM_SUGGESTIONS_OPTION],
+              },
+              hint: {
+                type: 'plain_text',
+                text: `Sent after the ${config.gracePeriodMinutes} minute grace period, before the first escalation`,
+              },
+            },
+            {
+              type: 'divider',
+            },
+            {
+              type: 'header',
+              text: {
+                type: 'plain_text',
+                text: '🔍 Question Detection',
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'question_classifier',
+              label: {
+                type: 'plain_text',
+                text: 'Classifier',
+              },
+              element: {
+                type: 'static_select',
+                action_id: 'question_classifier_select',
+                initial_option:
+                  CLASSIFIER_OPTIONS.find((o) => o.value === config.settings.questionClassifier) || CLASSIFIER_OPTIONS[0],
+                options: CLASSIFIER_OPTIONS,
+              },
+              hint: {
+                type: 'plain_text',
+                text: `Learned uses the rules until it has seen ${QUESTION_DETECTION.MODEL_MIN_SAMPLES_PER_CLASS} answered and ${QUESTION_DETECTION.MODEL_MIN_SAMPLES_PER_CLASS} dismissed questions`,
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'detection_threshold',
+              label: {
+                type: 'plain_text',
+                text: 'Detection Threshold (%)',
+              },
+              element: {
+                type: 'number_input',
+                action_id: 'detection_threshold_input',
+                is_decimal_allowed: false,
+                initial_value: Math.round(normalizeDetectionThreshold(config.settings.detectionThreshold) * 100).toString(),
+                min_value: Math.round(QUESTION_DETECTION.MIN_THRESHOLD * 100).toString(),
+                max_value: Math.round(QUESTION_DETECTION.MAX_THRESHOLD * 100).toString(),
+              },
+              hint: {
+                type: 'plain_text',
+                text: 'How confident the classifier must be to track a message. Raise it to catch fewer non-questions, lower it to miss fewer questions',
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'detection_auto_tune',
+              optional: true,
+              label: {
+                type: 'plain_text',
+                text: 'Auto-Tuning',
+              },
+              element: {
+                type: 'checkboxes',
+                action_id: 'detection_auto_tune_toggle',
+                ...(config.settings.detectionAutoTune !== false && { initial_options: [DETECTION_AUTO_TUNE_OPTION] }),
+                options: [DETECTION_AUTO_TUNE_OPTION],
+              },
+              hint: {
+                type: 'plain_text',
+                text: 'Daily, raises the threshold and penalises phrases in channels where they are mostly dismissed. See /qr-detection report',
+              },
+            },
+            {
+              type: 'divider',
+            },
             {
               type: 'context',
               elements: [
@@ -307,6 +490,15 @@ export function registerConfigCommand(app: App) {
       const secondEscalation = parseInt(
         view.state.values.second_escalation.second_escalation_input.value || '240'
       );
+      const gracePeriod = parseInt(
+        view.state.values.grace_period.grace_period_input.value || '30'
+      );
+      const defaultSnooze = parseInt(
+        view.state.values.default_snooze.default_snooze_input.value || String(SNOOZE.DEFAULT_MINUTES)
+      );
+      const claimTimeout = parseInt(
+        view.state.values.claim_timeout.claim_timeout_input.value || String(CLAIM.DEFAULT_TIMEOUT_MINUTES)
+      );
       const userGroupValue =
         view.state.values.escalation_user_group.user_group_select.selected_option?.value || null;
       const userGroup = userGroupValue === 'none' ? null : userGroupValue;
@@ -315,6 +507,19 @@ export function registerConfigCommand(app: App) {
       const answerMode =
         (view.state.values.answer_mode.answer_mode_select.selected_option
           ?.value as AnswerDetectionMode) || 'emoji_only';
+      const dmSuggestionsEnabled =
+        (view.state.values.dm_suggestions.dm_suggestions_toggle.selected_options || []).length > 0;
+      const questionClassifier =
+        (view.state.values.question_classifier.question_classifier_select.selected_option
+          ?.value as QuestionClassifierName) || 'rules';
+      const detectionThreshold = normalizeDetectionThreshold(
+        parseInt(
+          view.state.values.detection_threshold.detection_threshold_input.value ||
+            String(QUESTION_DETECTION.DEFAULT_THRESHOLD * 100)
+        ) / 100
+      );
+      const detectionAutoTune =
+        (view.state.values.detection_auto_tune.detection_auto_tune_toggle.selected_options || []).length > 0;
 
       // Update config in database
       await prisma.workspaceConfig.upsert({
@@ -323,20 +528,37 @@ export function registerConfigCommand(app: App) {
           workspaceId: workspace.id,
           firstEscalationMinutes: firstEscalation,
           secondEscalationMinutes: secondEscalation,
+          gracePeriodMinutes: gracePeriod,
           escalationUserGroup: userGroup,
           escalationChannelId: channel,
           answerDetectionMode: answerMode,
+          dmSuggestionsEnabled,
         },
         update: {
           firstEscalationMinutes: firstEscalation,
           secondEscalationMinutes: secondEscalation,
+          gracePeriodMinutes: gracePeriod,
           escalationUserGroup: userGroup,
           escalationChannelId: channel,
           answerDetectionMode: answerMode,
+          dmSuggestionsEnabled,
           updatedAt: new Date(),
         },
       });
 
+      // Keep an explicit escalation ladder in step with the timings edited here
+      await syncLadderWithLegacyTimings(workspace.id, firstEscalation, secondEscalation);
+
+      await updateWorkspaceSettings(workspace.id, {
+        defaultSnoozeMinutes: defaultSnooze,
+        claimTimeoutMinutes: claimTimeout,
+        questionClassifier,
+        detectionThreshold,
+        detectionAutoTune,
+      });
+      // Switching to the learned classifier trains it on current history
+      invalidateQuestionModel(workspace.id);
+
       // Send confirmation message
       await client.chat.postEphemeral({
         channel: body.user.id,
@@ -344,8 +566,14 @@ export function registerConfigCommand(app: App) {
         text: `✅ Configuration updated successfully!\n\n` +
           `*Escalation Timing:*\n` +
           `• First: ${firstEscalation} minutes\n` +
-          `• Second: ${secondEscalation} minutes\n\n` +
-          `*Answer Mode:* ${getModeLabel(answerMode)}`,
+          `• Second: ${secondEscalation} minutes\n` +
+          `• Grace period: ${gracePeriod} minutes\n` +
+          `• Default snooze: ${defaultSnooze} minutes\n` +
+          `• Claim timeout: ${claimTimeout} minutes\n\n` +
+          `*Answer Mode:* ${getModeLabel(answerMode)}\n` +
+          `*Expert Suggestions:* ${dmSuggestionsEnabled ? 'On' : 'Off'}\n` +
+          `*Question Detection:* ${questionClassifier === 'statistical' ? 'Learned' : 'Rules'}, threshold ${Math.round(detectionThreshold * 100)}%, auto-tuning ${detectionAutoTune ? 'on' : 'off'}\n\n` +
+          `${DETECTION_PROPAGATION_NOTE}`,
       });
 
       console.log(
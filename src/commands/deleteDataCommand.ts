@@ -40,7 +40,7 @@ export async function deleteUserData(
   workspaceId: string,
   slackUserId: string,
   method: 'self_service' | 'admin' | 'automated' = 'self_service'
-): Promise<{ success: boolean; questionsAffected: number; error?: string }> {
+): Promise<{ success: boolean; questionsAffected: number; expertiseRemoved?: number; error?: string }> {
   try {
     // Find the user
     const user = await prisma.user.findFirst({
@@ -67,10 +67,20 @@ export async function deleteUserData(
       data: {
         messageText: '[DELETED BY USER REQUEST]',
         extractedKeywords: [],
+        // Detection features are phrases from the message text
+        detectionFeatures: [],
+        detectionScore: null,
         // Keep metadata for statistics: askedAt, answeredAt, status, etc.
       },
     });
 
+    // Expertise is learned from the user's answers, so it goes entirely
+    const expertise = await prisma.userExpertise.deleteMany({
+      where: {
+        userId: user.id,
+      },
+    });
+
     // Anonymize the user record itself
     await prisma.user.update({
       where: { id: user.id },
@@ -87,6 +97,7 @@ export async function deleteUserData(
     return {
       success: true,
       questionsAffected: result.count,
+      expertiseRemoved: expertise.count,
     };
   } catch (error) {
     logger.error('Error deleting user data', {
@@ -113,6 +124,7 @@ export async function exportUserData(
 ): Promise<{
   user: any | null;
   questions: any[];
+  expertise: any[];
   statistics: {
     totalQuestions: number;
     answeredQuestions: number;
@@ -132,6 +144,7 @@ export async function exportUserData(
       return {
         user: null,
         questions: [],
+        expertise: [],
         statistics: {
           totalQuestions: 0,
           answeredQuestions: 0,
@@ -158,6 +171,16 @@ export async function exportUserData(
       },
     });
 
+    // Get the topics this user has been learned to know about
+    const expertise = await prisma.userExpertise.findMany({
+      where: {
+        userId: user.id,
+      },
+      orderBy: {
+        confidenceScore: 'desc',
+      },
+    });
+
     // Calculate statistics
     const answeredQuestions = questions.filter((q) => q.status === 'answered').length;
     const unansweredQuestions = questions.filter((q) => q.status === 'unanswered').length;
@@ -172,6 +195,14 @@ export async function exportUserData(
       escalationLevel: q.escalationLevel,
     }));
 
+    const sanitizedExpertise = expertise.map((e) => ({
+      topic: e.topic,
+      confidenceScore: e.confidenceScore,
+      answerCount: e.answerCount,
+      lastAnsweredAt: e.lastAnsweredAt,
+      source: e.source,
+    }));
+
     const sanitizedUser = {
       displayName: user.displayName,
       realName: user.realName,
@@ -183,11 +214,13 @@ export async function exportUserData(
       workspaceId,
       slackUserId,
       questionsExported: questions.length,
+      expertiseExported: expertise.length,
     });
 
     return {
       user: sanitizedUser,
       questions: sanitizedQuestions,
+      expertise: sanitizedExpertise,
       statistics: {
         totalQuestions: questions.length,
         answeredQuestions,
@@ -204,6 +237,7 @@ export async function exportUserData(
     return {
       user: null,
       questions: [],
+      expertise: [],
       statistics: {
         totalQuestions: 0,
         answeredQuestions: 0,
@@ -261,7 +295,7 @@ export function registerDeleteDataCommand(app: App) {
       }
 
       await respond({
-        text: `✅ *Your data has been deleted*\n\n• ${result.questionsAffected} question(s) anonymized\n• Your profile has been anonymized\n\nIf you have any questions, please contact privacy@yourcompany.com`,
+        text: `✅ *Your data has been deleted*\n\n• ${result.questionsAffected} question(s) anonymized\n• ${result.expertiseRemoved ?? 0} expertise topic(s) removed\n• Your profile has been anonymized\n\nIf you have any questions, please contact privacy@yourcompany.com`,
         response_type: 'ephemeral',
       });
     } catch (error) {
@@ -0,0 +1,505 @@
+/**
+ * Detection Rules Command Handler
+ * Lets admins tune what counts as a question, with a "test this text" preview
+ * /qr-detection edits the workspace rules, /qr-detection channel overrides them for the current channel
+ * /qr-detection report lists the phrases most often dismissed as not questions, and what auto-tuning did
+ */
+import boltPkg from '@slack/bolt';
+import type { App } from '@slack/bolt';
+import { ensureWorkspace, ensureChannel } from '../utils/db.js';
+import { isWorkspaceAdmin, sendPermissionDenied } from '../utils/permissions.js';
+import { getWorkspaceConfig, updateWorkspaceSettings } from '../services/configService.js';
+import { getChannelConfigBySlackId, updateChannelSettings } from '../services/channelConfigService.js';
+import {
+  createRuleBasedClassifier,
+  describeClassification,
+  describeFeedbackFeature,
+  isQuestion,
+} from '../services/questionDetector.js';
+import {
+  DETECTION_PROPAGATION_NOTE,
+  invalidateQuestionDetectors,
+  invalidateQuestionModel,
+  normalizeDetectionThreshold,
+} from '../services/questionClassifierService.js';
+import {
+  DEFAULT_DETECTION_RULES,
+  DETECTION_RULE_LABELS,
+  diffDetectionRules,
+  getEffectiveDetectionRules,
+  getUserRuleBlock,
+  parseRuleLines,
+  toDetectionConfig,
+  type DetectionRuleField,
+  type DetectionRules,
+} from '../services/detectionRulesService.js';
+import {
+  getChannelDetectionTunings,
+  getFalsePositivePatterns,
+  type DetectionTuning,
+} from '../services/detectionFeedbackService.js';
+import { LANGUAGE_PACKS, OPTIONAL_LANGUAGES, type DetectionLanguage } from '../services/languageDetector.js';
+
+interface DetectionScope {
+  workspaceId: string;
+  channelId: string; // Where the command was run
+  isChannel: boolean;
+}
+
+/**
+ * What a scope's rules fall back to: the defaults for the workspace, the workspace's rules for a channel
+ * Also returns the rules currently in force and the workspace's threshold and classifier, for the preview
+ */
+async function loadScopeRules(scope: DetectionScope) {
+  const config = await getWorkspaceConfig(scope.workspaceId);
+  const workspaceRules = getEffectiveDetectionRules(config.settings.detectionRules);
+
+  let current = workspaceRules;
+  if (scope.isChannel) {
+    const channelConfig = await getChannelConfigBySlackId(scope.workspaceId, scope.channelId);
+    current = getEffectiveDetectionRules(config.settings.detectionRules, channelConfig?.settings.detectionRules);
+  }
+
+  return {
+    inherited: scope.isChannel ? workspaceRules : DEFAULT_DETECTION_RULES,
+    current,
+    threshold: normalizeDetectionThreshold(config.settings.detectionThreshold),
+    learned: config.settings.questionClassifier === 'statistical',
+  };
+}
+
+/**
+ * How the rules being edited would score the test text
+ */
+function buildPreviewText(
+  testText: string,
+  rules: Required<DetectionRules>,
+  threshold: number,
+  learned: boolean,
+  userId: string
+): string {
+  if (!testText.trim()) {
+    return '_Type a message above and press 🔄 Test to see whether it would be tracked._';
+  }
+
+  const config = toDetectionConfig(rules);
+  const tracked = isQuestion(testText, config, threshold);
+  const classification = createRuleBasedClassifier(config).classify(testText);
+  const lines = [
+    `${tracked ? '✅ *Tracked as a question*' : '⚪ *Not a question*'} - ${describeClassification(classification)}, threshold ${Math.round(threshold * 100)}%`,
+  ];
+
+  // The lists apply to whoever posts, so show how they'd treat the admin's own messages
+  const blocked = getUserRuleBlock(rules, userId);
+  if (blocked) {
+    lines.push(`🚫 Your own messages wouldn't be tracked: ${blocked}`);
+  }
+  if (learned) {
+    lines.push('_This workspace uses the learned classifier, which may score the message differently._');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The false-positive report: most-dismissed patterns, then each channel's learned tuning
+ */
+function buildFalsePositiveReport(
+  patterns: Awaited<ReturnType<typeof getFalsePositivePatterns>>,
+  tunings: { slackChannelId: string; tuning: DetectionTuning }[],
+  autoTune: boolean
+): string {
+  if (patterns.length === 0) {
+    return '🔎 *Top False-Positive Patterns*\n\nNothing has been dismissed yet. Dismiss tracked messages that aren\'t questions with :no_entry: and they\'ll show up here.';
+  }
+
+  const lines = ['🔎 *Top False-Positive Patterns*', ''];
+  patterns.forEach((pattern, index) => {
+    lines.push(
+      `${index + 1}. ${describeFeedbackFeature(pattern.feature)} - ${pattern.dismissedCount} dismissed, ${pattern.answeredCount} answered (${Math.round(pattern.dismissRate * 100)}% dismissed)`
+    );
+  });
+
+  lines.push('', `*Auto-Tuning:* ${autoTune ? 'On' : 'Off (turn it on in `/qr-config`)'}`);
+  if (autoTune && tunings.length === 0) {
+    lines.push('No channel has enough answered and dismissed questions to be tuned yet.');
+  }
+  for (const { slackChannelId, tuning } of tunings) {
+    const penalties = Object.entries(tuning.phrasePenalties)
+      .map(([feature, penalty]) => `${describeFeedbackFeature(feature)} −${Math.round(penalty * 100)}%`)
+      .join(', ');
+    lines.push(
+      `• <#${slackChannelId}>: ${tuning.threshold !== undefined ? `threshold ${Math.round(tuning.threshold * 100)}%` : 'threshold unchanged'}` +
+        `${penalties ? `, penalties: ${penalties}` : ''} (from ${tuning.samples} questions)`
+    );
+  }
+
+  lines.push('', '💡 *Tip:* Add a pattern to Ignore Patterns with `/qr-detection` to stop it counting as a question at all.');
+  return lines.join('\n');
+}
+
+function ruleLinesInput(field: 'questionWords' | 'helpPatterns' | 'ignorePatterns', rules: Required<DetectionRules>, hint: string) {
+  return {
+    type: 'input',
+    block_id: field,
+    optional: true,
+    label: {
+      type: 'plain_text',
+      text: DETECTION_RULE_LABELS[field],
+    },
+    element: {
+      type: 'plain_text_input',
+      action_id: 'rule_input',
+      multiline: true,
+      ...(rules[field].length > 0 && { initial_value: rules[field].join('\n') }),
+      placeholder: {
+        type: 'plain_text',
+        text: 'One per line',
+      },
+    },
+    hint: {
+      type: 'plain_text',
+      text: hint,
+    },
+  };
+}
+
+function userListInput(field: 'allowUsers' | 'denyUsers', rules: Required<DetectionRules>, hint: string) {
+  return {
+    type: 'input',
+    block_id: field,
+    optional: true,
+    label: {
+      type: 'plain_text',
+      text: DETECTION_RULE_LABELS[field],
+    },
+    element: {
+      type: 'multi_users_select',
+      action_id: 'users_select',
+      ...(rules[field].length > 0 && { initial_users: rules[field] }),
+    },
+    hint: {
+      type: 'plain_text',
+      text: hint,
+    },
+  };
+}
+
+function languageOption(language: DetectionLanguage) {
+  return {
+    text: {
+      type: 'plain_text',
+      text: LANGUAGE_PACKS[language].name,
+    },
+    value: language,
+  };
+}
+
+function languagesInput(rules: Required<DetectionRules>) {
+  return {
+    type: 'input',
+    block_id: 'languages',
+    optional: true,
+    label: {
+      type: 'plain_text',
+      text: DETECTION_RULE_LABELS.languages,
+    },
+    element: {
+      type: 'checkboxes',
+      action_id: 'languages_select',
+      ...(rules.languages.length > 0 && { initial_options: rules.languages.map(languageOption) }),
+      options: OPTIONAL_LANGUAGES.map(languageOption),
+    },
+    hint: {
+      type: 'plain_text',
+      text: 'Messages in these languages are also matched against their question words, question marks like "¿" and "か", and help phrases. English always is',
+    },
+  };
+}
+
+/**
+ * Modal blocks: the rule inputs, then the test text and its preview
+ */
+function buildDetectionModalBlocks(
+  scope: DetectionScope,
+  rules: Required<DetectionRules>,
+  testText: string,
+  preview: string
+): any[] {
+  const inheritFrom = scope.isChannel ? 'the workspace rules' : 'the defaults';
+
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: scope.isChannel
+          ? `Question detection rules for <#${scope.channelId}>. Anything you leave as the workspace has it keeps following the workspace rules.`
+          : 'Question detection rules for the workspace. Channels can override them with `/qr-detection channel`.',
+      },
+    },
+    {
+      type: 'divider',
+    },
+    ruleLinesInput('questionWords', rules, `Messages starting with one of these are questions. Clear to use ${inheritFrom}`),
+    ruleLinesInput('helpPatterns', rules, `Messages containing one of these are questions. Clear to use ${inheritFrom}`),
+    ruleLinesInput('ignorePatterns', rules, 'Removed before scoring, so a rhetorical "right?" or "lol?" doesn\'t count as a question'),
+    {
+      type: 'input',
+      block_id: 'minLength',
+      optional: true,
+      label: {
+        type: 'plain_text',
+        text: DETECTION_RULE_LABELS.minLength,
+      },
+      element: {
+        type: 'number_input',
+        action_id: 'min_length_input',
+        is_decimal_allowed: false,
+        initial_value: rules.minLength.toString(),
+        min_value: '1',
+        max_value: '500',
+      },
+      hint: {
+        type: 'plain_text',
+        text: 'Shorter messages are never questions',
+      },
+    },
+    userListInput('allowUsers', rules, 'When anyone is listed, only their messages are tracked'),
+    userListInput('denyUsers', rules, 'Their messages are never tracked, e.g. bots posting as users or your own support staff'),
+    languagesInput(rules),
+    {
+      type: 'divider',
+    },
+    {
+      type: 'input',
+      block_id: 'test_text',
+      optional: true,
+      label: {
+        type: 'plain_text',
+        text: '🧪 Test This Text',
+      },
+      element: {
+        type: 'plain_text_input',
+        action_id: 'test_text_input',
+        ...(testText && { initial_value: testText }),
+        placeholder: {
+          type: 'plain_text',
+          text: 'e.g. That went well, right?',
+        },
+      },
+      hint: {
+        type: 'plain_text',
+        text: 'Not saved - scored against the rules above as they are now',
+      },
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: preview }],
+    },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: '🔄 Test',
+          },
+          action_id: 'test_detection_rules',
+        },
+      ],
+    },
+  ];
+}
+
+/**
+ * Read the rules from a modal's state; cleared inputs fall back to the inherited value
+ */
+function readDetectionRules(stateValues: any, inherited: Required<DetectionRules>): Required<DetectionRules> {
+  const lines = (field: 'questionWords' | 'helpPatterns' | 'ignorePatterns') => {
+    const phrases = parseRuleLines(stateValues[field]?.rule_input?.value);
+    // Ignore patterns can legitimately be emptied; the phrase lists can't
+    return phrases.length > 0 || field === 'ignorePatterns' ? phrases : inherited[field];
+  };
+  const users = (field: 'allowUsers' | 'denyUsers') => {
+    const selected: string[] = stateValues[field]?.users_select?.selected_users || [];
+    return selected.length > 0 ? selected : inherited[field];
+  };
+  const minLength = parseInt(stateValues.minLength?.min_length_input?.value || '', 10);
+  // Unticking every language is a real choice (English only), so only a missing block inherits
+  const languages: { value: DetectionLanguage }[] | undefined = stateValues.languages?.languages_select?.selected_options;
+
+  return {
+    questionWords: lines('questionWords'),
+    helpPatterns: lines('helpPatterns'),
+    minLength: Number.isFinite(minLength) ? minLength : inherited.minLength,
+    ignorePatterns: lines('ignorePatterns'),
+    allowUsers: users('allowUsers'),
+    denyUsers: users('denyUsers'),
+    languages: languages ? OPTIONAL_LANGUAGES.filter((l) => languages.some((o) => o.value === l)) : inherited.languages,
+  };
+}
+
+export function registerDetectionCommand(app: App) {
+  app.command('/qr-detection', async ({ command, ack, client, logger }) => {
+    await ack();
+
+    try {
+      const isAdmin = await isWorkspaceAdmin(client, command.user_id);
+      if (!isAdmin) {
+        await sendPermissionDenied(client, command.channel_id, command.user_id);
+        return;
+      }
+
+      const workspace = await ensureWorkspace(command.team_id);
+      const subcommand = (command.text || '').trim().toLowerCase();
+
+      if (subcommand === 'report') {
+        const [patterns, tunings, config] = await Promise.all([
+          getFalsePositivePatterns(workspace.id),
+          getChannelDetectionTunings(workspace.id),
+          getWorkspaceConfig(workspace.id),
+        ]);
+        const autoTune = config.settings.detectionAutoTune !== false;
+        await client.chat.postEphemeral({
+          channel: command.channel_id,
+          user: command.user_id,
+          text: buildFalsePositiveReport(patterns, autoTune ? tunings : [], autoTune),
+        });
+        return;
+      }
+
+      const scope: DetectionScope = {
+        workspaceId: workspace.id,
+        channelId: command.channel_id,
+        isChannel: subcommand === 'channel',
+      };
+      const { current, threshold, learned } = await loadScopeRules(scope);
+
+      await client.views.open({
+        trigger_id: command.trigger_id,
+        view: {
+          type: 'modal',
+          callback_id: 'detection_rules_modal',
+          title: {
+            type: 'plain_text',
+            text: 'Question Detection',
+          },
+          submit: {
+            type: 'plain_text',
+            text: 'Save',
+          },
+          close: {
+            type: 'plain_text',
+            text: 'Cancel',
+          },
+          private_metadata: JSON.stringify(scope),
+          blocks: buildDetectionModalBlocks(
+            scope,
+            current,
+            '',
+            buildPreviewText('', current, threshold, learned, command.user_id)
+          ),
+        },
+      });
+    } catch (error) {
+      logger.error('Error opening detection rules modal:', error);
+      try {
+        await client.chat.postEphemeral({
+          channel: command.channel_id,
+          user: command.user_id,
+          text: `❌ Error opening detection rules: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      } catch (ephemeralError) {
+        logger.error('Could not send ephemeral error message:', ephemeralError);
+      }
+    }
+  });
+
+  // Score the test text against the rules as currently typed
+  app.action('test_detection_rules', async ({ ack, body, client, logger }) => {
+    await ack();
+
+    try {
+      const view = (body as any).view;
+      const scope: DetectionScope = JSON.parse(view.private_metadata);
+      const { inherited, threshold, learned } = await loadScopeRules(scope);
+      const rules = readDetectionRules(view.state.values, inherited);
+      const testText = view.state.values.test_text?.test_text_input?.value || '';
+
+      await client.views.update({
+        view_id: view.id,
+        hash: view.hash,
+        view: {
+          type: 'modal',
+          callback_id: 'detection_rules_modal',
+          title: view.title,
+          submit: view.submit,
+          close: view.close,
+          private_metadata: view.private_metadata,
+          blocks: buildDetectionModalBlocks(
+            scope,
+            rules,
+            testText,
+            buildPreviewText(testText, rules, threshold, learned, body.user.id)
+          ),
+        },
+      });
+    } catch (error) {
+      logger.error('Error testing detection rules:', error);
+    }
+  });
+
+  app.view('detection_rules_modal', async ({ ack, view, body, client, logger }) => {
+    await ack();
+
+    const scope: DetectionScope = JSON.parse(view.private_metadata);
+
+    try {
+      const isAdmin = await isWorkspaceAdmin(client, body.user.id);
+      if (!isAdmin) {
+        throw new Error('Only workspace admins can change detection rules');
+      }
+
+      const { inherited } = await loadScopeRules(scope);
+      const rules = readDetectionRules(view.state.values, inherited);
+      // Only what differs from the inherited rules is stored, so later changes there still reach this scope
+      const overrides = diffDetectionRules(rules, inherited);
+      const changed = Object.keys(overrides) as DetectionRuleField[];
+
+      if (scope.isChannel) {
+        const channel = await ensureChannel(scope.workspaceId, scope.channelId);
+        // Channel settings are merged on save, so inheriting has to remove the override explicitly
+        await updateChannelSettings(channel.id, { detectionRules: changed.length > 0 ? overrides : undefined });
+        invalidateQuestionDetectors(scope.workspaceId);
+      } else {
+        await updateWorkspaceSettings(scope.workspaceId, { detectionRules: changed.length > 0 ? overrides : undefined });
+        // The model is trained with the workspace rules, so it's retrained along with the detectors
+        invalidateQuestionModel(scope.workspaceId);
+      }
+
+      const where = scope.isChannel ? `<#${scope.channelId}>` : 'the workspace';
+      const inheritFrom = scope.isChannel ? 'workspace rules' : 'defaults';
+      await client.chat.postEphemeral({
+        channel: scope.channelId || body.user.id,
+        user: body.user.id,
+        text: changed.length > 0
+          ? `✅ Detection rules saved for ${where}\n\nCustomised: ${changed.map((f) => DETECTION_RULE_LABELS[f]).join(', ')}\n\n${DETECTION_PROPAGATION_NOTE}`
+          : `✅ Detection rules saved - ${where} uses the ${inheritFrom}\n\n${DETECTION_PROPAGATION_NOTE}`,
+      });
+
+      console.log(`✅ Detection rules updated (${scope.isChannel ? `channel ${scope.channelId}` : 'workspace'}) by ${body.user.id}: ${changed.join(', ') || 'inherited'}`);
+    } catch (error) {
+      logger.error('Error saving detection rules:', error);
+      try {
+        await client.chat.postEphemeral({
+          channel: scope.channelId || body.user.id,
+          user: body.user.id,
+          text: `❌ Failed to save detection rules: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      } catch (ephemeralError) {
+        logger.error('Could not send ephemeral error message:', ephemeralError);
+      }
+    }
+  });
+}
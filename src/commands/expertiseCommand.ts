@@ -0,0 +1,224 @@
+/**
+ * Expertise Command Handler
+ * Lets users declare topics they're willing to answer (source = 'manual')
+ * Admins can view and edit any user's topics with /qr-expertise @user
+ */
+import boltPkg from '@slack/bolt';
+import type { App } from '@slack/bolt';
+import { ensureWorkspace, ensureUser } from '../utils/db.js';
+import { isWorkspaceAdmin, sendPermissionDenied } from '../utils/permissions.js';
+import {
+  getUserExpertise,
+  normalizeTopics,
+  updateManualExpertise,
+  type ExpertiseTopicData,
+} from '../services/expertiseService.js';
+
+// Slack limits static select menus to 100 options
+const MAX_TOPIC_OPTIONS = 100;
+
+/**
+ * Extract a user ID from slash command text like "<@U123ABC|name>"
+ */
+function parseUserMention(text: string): string | null {
+  const match = text.match(/<@([UW][A-Z0-9]+)(\|[^>]*)?>/);
+  return match ? match[1] : null;
+}
+
+function getTopicLabel(topic: ExpertiseTopicData): string {
+  if (topic.source === 'manual') {
+    return `${topic.topic} (declared)`;
+  }
+  return `${topic.topic} (learned, ${topic.answerCount} answer${topic.answerCount !== 1 ? 's' : ''})`;
+}
+
+export function registerExpertiseCommand(app: App) {
+  app.command('/qr-expertise', async ({ command, ack, client, logger }) => {
+    await ack();
+
+    try {
+      const mentionedUserId = parseUserMention(command.text || '');
+      const targetSlackUserId = mentionedUserId || command.user_id;
+      const isSelf = targetSlackUserId === command.user_id;
+
+      // Only admins can edit someone else's topics
+      if (!isSelf) {
+        const isAdmin = await isWorkspaceAdmin(client, command.user_id);
+        if (!isAdmin) {
+          await sendPermissionDenied(client, command.channel_id, command.user_id);
+          return;
+        }
+      }
+
+      const workspace = await ensureWorkspace(command.team_id);
+      const user = await ensureUser(workspace.id, targetSlackUserId);
+      const topics = (await getUserExpertise(user.id)).slice(0, MAX_TOPIC_OPTIONS);
+
+      const topicOptions = topics.map((t) => ({
+        text: {
+          type: 'plain_text' as const,
+          text: getTopicLabel(t),
+        },
+        value: t.topic,
+      }));
+
+      await client.views.open({
+        trigger_id: command.trigger_id,
+        view: {
+          type: 'modal',
+          callback_id: 'expertise_modal',
+          title: {
+            type: 'plain_text',
+            text: 'Expertise',
+          },
+          submit: {
+            type: 'plain_text',
+            text: 'Save',
+          },
+          close: {
+            type: 'plain_text',
+            text: 'Cancel',
+          },
+          private_metadata: JSON.stringify({
+            workspaceId: workspace.id,
+            slackUserId: targetSlackUserId,
+            channelId: command.channel_id,
+          }),
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: isSelf
+                  ? 'Topics you know about. When a question mentions one of them, you may get a private heads-up before it escalates.'
+                  : `Topics for <@${targetSlackUserId}>. They may get a private heads-up when a question mentions one of them.`,
+              },
+            },
+            {
+              type: 'divider',
+            },
+            topicOptions.length > 0
+              ? {
+                  type: 'input',
+                  block_id: 'current_topics',
+                  optional: true,
+                  label: {
+                    type: 'plain_text',
+                    text: 'Current topics (deselect to remove)',
+                  },
+                  element: {
+                    type: 'multi_static_select',
+                    action_id: 'topics_select',
+                    initial_options: topicOptions,
+                    options: topicOptions,
+                  },
+                }
+              : {
+                  type: 'section',
+                  block_id: 'current_topics',
+                  text: {
+                    type: 'mrkdwn',
+                    text: '_No topics yet. Topics are also learned automatically as questions get answered._',
+                  },
+                },
+            {
+              type: 'input',
+              block_id: 'new_topics',
+              optional: true,
+              label: {
+                type: 'plain_text',
+                text: 'Add topics',
+              },
+              element: {
+                type: 'plain_text_input',
+                action_id: 'topics_input',
+                placeholder: {
+                  type: 'plain_text',
+                  text: 'e.g. kubernetes, billing, terraform',
+                },
+              },
+              hint: {
+                type: 'plain_text',
+                text: 'Comma-separated single words of at least 4 characters (2 in Japanese)',
+              },
+            },
+          ],
+        },
+      });
+    } catch (error) {
+      logger.error('Error opening expertise modal:', error);
+      try {
+        await client.chat.postEphemeral({
+          channel: command.channel_id,
+          user: command.user_id,
+          text: `❌ Error opening expertise modal: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      } catch (ephemeralError) {
+        logger.error('Could not send ephemeral error message:', ephemeralError);
+      }
+    }
+  });
+
+  app.view('expertise_modal', async ({ ack, view, body, client, logger }) => {
+    const metadata = JSON.parse(view.private_metadata);
+    const { workspaceId, slackUserId, channelId } = metadata;
+
+    const newTopicsText = view.state.values.new_topics?.topics_input?.value || '';
+    const addTopics = normalizeTopics(newTopicsText);
+
+    if (newTopicsText.trim() && addTopics.length === 0) {
+      await ack({
+        response_action: 'errors',
+        errors: {
+          new_topics: 'Topics must be single words of at least 4 characters (2 in Japanese)',
+        },
+      });
+      return;
+    }
+
+    await ack();
+
+    try {
+      // Re-check admin rights on submit when editing someone else
+      if (slackUserId !== body.user.id) {
+        const isAdmin = await isWorkspaceAdmin(client, body.user.id);
+        if (!isAdmin) {
+          throw new Error('Only workspace admins can edit other users\' expertise');
+        }
+      }
+
+      const keepTopics =
+        view.state.values.current_topics?.topics_select?.selected_options?.map((o) => o.value) || [];
+
+      const user = await ensureUser(workspaceId, slackUserId);
+      const { added, removed } = await updateManualExpertise(user.id, keepTopics, addTopics);
+
+      const whose = slackUserId === body.user.id ? 'Your' : `<@${slackUserId}>'s`;
+      const summary = [
+        added.length > 0 ? `• Added: ${added.join(', ')}` : null,
+        removed.length > 0 ? `• Removed: ${removed.join(', ')}` : null,
+      ].filter(Boolean).join('\n');
+
+      await client.chat.postEphemeral({
+        channel: channelId || body.user.id,
+        user: body.user.id,
+        text: `✅ ${whose} expertise was updated${summary ? `\n\n${summary}` : ''}`,
+      });
+
+      console.log(
+        `✅ Expertise updated for ${slackUserId} by ${body.user.id}: +${added.length} -${removed.length}`
+      );
+    } catch (error) {
+      logger.error('Error saving expertise:', error);
+      try {
+        await client.chat.postEphemeral({
+          channel: channelId || body.user.id,
+          user: body.user.id,
+          text: `❌ Failed to save expertise: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      } catch (ephemeralError) {
+        logger.error('Could not send ephemeral error message:', ephemeralError);
+      }
+    }
+  });
+}
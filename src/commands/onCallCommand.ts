@@ -0,0 +1,765 @@
+/**
+ * On-Call Command Handler
+ * /qr-oncall shows who is on call for each rotation; admins can create and edit
+ * rotations and add overrides (e.g. swaps and holiday cover)
+ */
+import boltPkg from '@slack/bolt';
+import type { App } from '@slack/bolt';
+import { ensureWorkspace, prisma } from '../utils/db.js';
+import { isWorkspaceAdmin, sendPermissionDenied } from '../utils/permissions.js';
+import { ONCALL } from '../utils/constants.js';
+import { isValidTimezone } from '../services/businessHoursService.js';
+import {
+  addOverride,
+  deleteRotation,
+  describeRotationSchedule,
+  getNextHandoff,
+  getOnCallAt,
+  getRotation,
+  getRotations,
+  getUpcomingOverrides,
+  removeOverride,
+  saveRotation,
+  validateRotation,
+  type OnCallRotationData,
+  type RotationType,
+} from '../services/onCallService.js';
+
+/**
+ * Slack date token that renders in each viewer's own timezone
+ */
+function formatSlackDate(date: Date): string {
+  const ts = Math.floor(date.getTime() / 1000);
+  return `<!date^${ts}^{date_short_pretty} {time}|${date.toISOString()}>`;
+}
+
+async function getWorkspaceForTeam(teamId?: string) {
+  if (!teamId) {
+    throw new Error('Could not get team information');
+  }
+  return ensureWorkspace(teamId);
+}
+
+/**
+ * Load a rotation and make sure it belongs to the workspace
+ */
+async function getWorkspaceRotation(workspaceId: string, rotationId: string): Promise<OnCallRotationData> {
+  const rotation = await getRotation(rotationId);
+  if (!rotation || rotation.workspaceId !== workspaceId) {
+    throw new Error('That rotation no longer exists');
+  }
+  return rotation;
+}
+
+/**
+ * Build the on-call overview: who is on call now, the next handoff and upcoming overrides
+ */
+async function buildOnCallBlocks(workspaceId: string, isAdmin: boolean, now: Date = new Date()): Promise<any[]> {
+  const rotations = await getRotations(workspaceId);
+
+  const blocks: any[] = [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: '📟 On-Call Rotations',
+      },
+    },
+  ];
+
+  if (rotations.length === 0) {
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: isAdmin
+          ? '_No rotations yet._ Create one, then add it as an *On-call Rotation* target in `/qr-targets`.'
+          : '_No rotations yet._ Ask a workspace admin to set one up.',
+      },
+    });
+  }
+
+  for (const rotation of rotations) {
+    const overrides = await getUpcomingOverrides(rotation.id, now);
+    const onCall = getOnCallAt(rotation, overrides, now);
+    const activeOverride = overrides.find((o) => o.id === onCall?.overrideId);
+
+    const onCallText = onCall
+      ? `<@${onCall.slackUserId}>${activeOverride ? ` _(override until ${formatSlackDate(activeOverride.endsAt)})_` : ''}`
+      : '_nobody_';
+
+    const section: any = {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text:
+          `*${rotation.name}* - ${describeRotationSchedule(rotation)}\n` +
+          `On call now: ${onCallText}\n` +
+          `Next handoff: ${formatSlackDate(getNextHandoff(rotation, now))}\n` +
+          `Order: ${rotation.memberIds.map((id) => `<@${id}>`).join(' → ')}`,
+      },
+    };
+
+    if (isAdmin) {
+      section.accessory = {
+        type: 'overflow',
+        action_id: 'oncall_rotation_menu',
+        options: [
+          { text: { type: 'plain_text', text: '✏️ Edit rotation' }, value: `edit:${rotation.id}` },
+          { text: { type: 'plain_text', text: '🔁 Add override' }, value: `override:${rotation.id}` },
+          ...(overrides.length > 0
+            ? [{ text: { type: 'plain_text', text: '↩️ Remove override' }, value: `remove_override:${rotation.id}` }]
+            : []),
+          { text: { type: 'plain_text', text: '🗑️ Delete rotation' }, value: `delete:${rotation.id}` },
+        ],
+      };
+    }
+
+    blocks.push(section);
+
+    if (overrides.length > 0) {
+      blocks.push({
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `Overrides: ${overrides
+              .map((o) => `<@${o.slackUserId}> ${formatSlackDate(o.startsAt)} → ${formatSlackDate(o.endsAt)}${o.reason ? ` (${o.reason})` : ''}`)
+              .join(' • ')}`,
+          },
+        ],
+      });
+    }
+  }
+
+  if (isAdmin) {
+    blocks.push(
+      {
+        type: 'divider',
+      },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '➕ New Rotation',
+            },
+            style: 'primary',
+            action_id: 'oncall_new_rotation',
+          },
+        ],
+      }
+    );
+  }
+
+  return blocks;
+}
+
+/**
+ * Modal for creating or editing a rotation
+ */
+function buildRotationModal(
+  metadata: { workspaceId: string; channelId: string; rotationId?: string },
+  rotation: Partial<OnCallRotationData>
+): any {
+  const typeOption = (type: RotationType) => ({
+    text: { type: 'plain_text', text: type === 'weekly' ? 'Weekly' : 'Daily' },
+    value: type,
+  });
+
+  return {
+    type: 'modal',
+    callback_id: 'oncall_rotation_modal',
+    title: {
+      type: 'plain_text',
+      text: metadata.rotationId ? 'Edit Rotation' : 'New Rotation',
+    },
+    submit: {
+      type: 'plain_text',
+      text: 'Save',
+    },
+    close: {
+      type: 'plain_text',
+      text: 'Cancel',
+    },
+    private_metadata: JSON.stringify(metadata),
+    blocks: [
+      {
+        type: 'input',
+        block_id: 'rotation_name',
+        label: {
+          type: 'plain_text',
+          text: 'Name',
+        },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'name_input',
+          max_length: ONCALL.MAX_NAME_LENGTH,
+          ...(rotation.name && { initial_value: rotation.name }),
+          placeholder: {
+            type: 'plain_text',
+            text: 'e.g. Platform on-call',
+          },
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'rotation_type',
+        label: {
+          type: 'plain_text',
+          text: 'Shift Length',
+        },
+        element: {
+          type: 'static_select',
+          action_id: 'type_select',
+          initial_option: typeOption(rotation.rotationType || 'weekly'),
+          options: ONCALL.ROTATION_TYPES.map(typeOption),
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'rotation_members',
+        label: {
+          type: 'plain_text',
+          text: 'People',
+        },
+        element: {
+          type: 'multi_users_select',
+          action_id: 'members_select',
+          ...(rotation.memberIds && rotation.memberIds.length > 0 && { initial_users: rotation.memberIds }),
+          placeholder: {
+            type: 'plain_text',
+            text: 'Select people in rotation order',
+          },
+        },
+        hint: {
+          type: 'plain_text',
+          text: 'People take turns in the order shown here.',
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'start_date',
+        label: {
+          type: 'plain_text',
+          text: 'First Shift Starts',
+        },
+        element: {
+          type: 'datepicker',
+          action_id: 'start_date_input',
+          ...(rotation.startDate && { initial_date: rotation.startDate }),
+        },
+        hint: {
+          type: 'plain_text',
+          text: 'The first person is on call from this date; weekly shifts hand off on the same weekday.',
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'handoff_time',
+        label: {
+          type: 'plain_text',
+          text: 'Handoff Time',
+        },
+        element: {
+          type: 'timepicker',
+          action_id: 'handoff_time_input',
+          initial_time: rotation.handoffTime || ONCALL.DEFAULT_HANDOFF_TIME,
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'timezone',
+        label: {
+          type: 'plain_text',
+          text: 'Timezone',
+        },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'timezone_input',
+          ...(rotation.timezone && { initial_value: rotation.timezone }),
+          placeholder: {
+            type: 'plain_text',
+            text: 'e.g. America/New_York',
+          },
+        },
+      },
+    ],
+  };
+}
+
+export function registerOnCallCommand(app: App) {
+  // Main command - anyone can see who is on call, admins get management controls
+  app.command('/qr-oncall', async ({ command, ack, client, logger }) => {
+    await ack();
+
+    try {
+      const workspace = await ensureWorkspace(command.team_id);
+      const isAdmin = await isWorkspaceAdmin(client, command.user_id);
+      const blocks = await buildOnCallBlocks(workspace.id, isAdmin);
+
+      await client.chat.postEphemeral({
+        channel: command.channel_id,
+        user: command.user_id,
+        blocks,
+        text: 'On-Call Rotations',
+      });
+    } catch (error) {
+      logger.error('Error in /qr-oncall command:', error);
+      await client.chat.postEphemeral({
+        channel: command.channel_id,
+        user: command.user_id,
+        text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  });
+
+  app.action('oncall_new_rotation', async ({ ack, body, client, context, logger }) => {
+    await ack();
+
+    try {
+      const isAdmin = await isWorkspaceAdmin(client, body.user.id);
+      const channelId = (body as any).channel?.id || body.user.id;
+      if (!isAdmin) {
+        await sendPermissionDenied(client, channelId, body.user.id);
+        return;
+      }
+
+      const workspace = await getWorkspaceForTeam(context.teamId || body.team?.id);
+
+      // New rotations start today, in the admin's own timezone
+      const userInfo = await client.users.info({ user: body.user.id });
+      const timezone = userInfo.user?.tz && isValidTimezone(userInfo.user.tz) ? userInfo.user.tz : 'UTC';
+      const today = new Intl.DateTimeFormat('en-CA', { timeZone: timezone }).format(new Date());
+
+      await client.views.open({
+        trigger_id: (body as any).trigger_id,
+        view: buildRotationModal(
+          { workspaceId: workspace.id, channelId },
+          { startDate: today, timezone }
+        ),
+      });
+    } catch (error) {
+      logger.error('Error opening new rotation modal:', error);
+    }
+  });
+
+  // Overflow menu on each rotation: edit, add/remove override, delete
+  app.action('oncall_rotation_menu', async ({ ack, body, action, client, context, logger }) => {
+    await ack();
+
+    try {
+      const channelId = (body as any).channel?.id || body.user.id;
+      const isAdmin = await isWorkspaceAdmin(client, body.user.id);
+      if (!isAdmin) {
+        await sendPermissionDenied(client, channelId, body.user.id);
+        return;
+      }
+
+      const [choice, rotationId] = ((action as any).selected_option?.value || '').split(':');
+      const workspace = await getWorkspaceForTeam(context.teamId || body.team?.id);
+      const rotation = await getWorkspaceRotation(workspace.id, rotationId);
+      const metadata = JSON.stringify({ workspaceId: workspace.id, channelId, rotationId });
+      const triggerId = (body as any).trigger_id;
+
+      switch (choice) {
+        case 'edit':
+          await client.views.open({
+            trigger_id: triggerId,
+            view: buildRotationModal({ workspaceId: workspace.id, channelId, rotationId }, rotation),
+          });
+          break;
+
+        case 'override': {
+          const now = Math.floor(Date.now() / 1000);
+          await client.views.open({
+            trigger_id: triggerId,
+            view: {
+              type: 'modal',
+              callback_id: 'oncall_override_modal',
+              title: {
+                type: 'plain_text',
+                text: 'Add Override',
+              },
+              submit: {
+                type: 'plain_text',
+                text: 'Add',
+              },
+              close: {
+                type: 'plain_text',
+                text: 'Cancel',
+              },
+              private_metadata: metadata,
+              blocks: [
+                {
+                  type: 'section',
+                  text: {
+                    type: 'mrkdwn',
+                    text: `Put someone on call for *${rotation.name}* instead of the schedule, e.g. for a swap or holiday cover.`,
+                  },
+                },
+                {
+                  type: 'input',
+                  block_id: 'override_user',
+                  label: {
+                    type: 'plain_text',
+                    text: 'Who Covers',
+                  },
+                  element: {
+                    type: 'users_select',
+                    action_id: 'user_select',
+                    initial_user: body.user.id,
+                  },
+                },
+                {
+                  type: 'input',
+                  block_id: 'override_start',
+                  label: {
+                    type: 'plain_text',
+                    text: 'From',
+                  },
+                  element: {
+                    type: 'datetimepicker',
+                    action_id: 'start_input',
+                    initial_date_time: now,
+                  },
+                },
+                {
+                  type: 'input',
+                  block_id: 'override_end',
+                  label: {
+                    type: 'plain_text',
+                    text: 'Until',
+                  },
+                  element: {
+                    type: 'datetimepicker',
+                    action_id: 'end_input',
+                    initial_date_time: now + 24 * 3600,
+                  },
+                },
+                {
+                  type: 'input',
+                  block_id: 'override_reason',
+                  optional: true,
+                  label: {
+                    type: 'plain_text',
+                    text: 'Reason',
+                  },
+                  element: {
+                    type: 'plain_text_input',
+                    action_id: 'reason_input',
+                    max_length: 100,
+                    placeholder: {
+                      type: 'plain_text',
+                      text: 'e.g. Covering for Sam while on holiday',
+                    },
+                  },
+                },
+              ],
+            },
+          });
+          break;
+        }
+
+        case 'remove_override': {
+          const overrides = await getUpcomingOverrides(rotation.id);
+          if (overrides.length === 0) {
+            throw new Error(`${rotation.name} has no upcoming overrides`);
+          }
+
+          const userNames = new Map<string, string>();
+          for (const id of new Set(overrides.map((o) => o.slackUserId))) {
+            const userInfo = await client.users.info({ user: id });
+            userNames.set(id, userInfo.user?.real_name || userInfo.user?.name || id);
+          }
+
+          await client.views.open({
+            trigger_id: triggerId,
+            view: {
+              type: 'modal',
+              callback_id: 'oncall_remove_override_modal',
+              title: {
+                type: 'plain_text',
+                text: 'Remove Override',
+              },
+              submit: {
+                type: 'plain_text',
+                text: 'Remove',
+              },
+              close: {
+                type: 'plain_text',
+                text: 'Cancel',
+              },
+              private_metadata: metadata,
+              blocks: [
+                {
+                  type: 'input',
+                  block_id: 'override_select',
+                  label: {
+                    type: 'plain_text',
+                    text: 'Select override to remove',
+                  },
+                  element: {
+                    type: 'static_select',
+                    action_id: 'override',
+                    options: overrides.map((o) => ({
+                      text: {
+                        type: 'plain_text',
+                        text: `${userNames.get(o.slackUserId)}: ${o.startsAt.toISOString().slice(0, 16).replace('T', ' ')} → ${o.endsAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`.slice(0, 75),
+                      },
+                      value: o.id,
+                    })),
+                  },
+                },
+              ],
+            },
+          });
+          break;
+        }
+
+        case 'delete': {
+          const targetCount = await prisma.escalationTarget.count({
+            where: { targetType: 'rotation', targetId: rotation.id },
+          });
+
+          await client.views.open({
+            trigger_id: triggerId,
+            view: {
+              type: 'modal',
+              callback_id: 'oncall_delete_modal',
+              title: {
+                type: 'plain_text',
+                text: 'Delete Rotation',
+              },
+              submit: {
+                type: 'plain_text',
+                text: 'Delete',
+              },
+              close: {
+                type: 'plain_text',
+                text: 'Cancel',
+              },
+              private_metadata: metadata,
+              blocks: [
+                {
+                  type: 'section',
+                  text: {
+                    type: 'mrkdwn',
+                    text:
+                      `Delete *${rotation.name}* and its overrides?` +
+                      (targetCount > 0
+                        ? `\n\n⚠️ It is an escalation target on ${targetCount} level${targetCount !== 1 ? 's' : ''}; ${targetCount !== 1 ? 'those targets' : 'that target'} will be removed too.`
+                        : ''),
+                  },
+                },
+              ],
+            },
+          });
+          break;
+        }
+
+        default:
+          throw new Error('Unknown rotation option');
+      }
+    } catch (error) {
+      logger.error('Error handling rotation menu:', error);
+      await client.chat.postEphemeral({
+        channel: (body as any).channel?.id || body.user.id,
+        user: body.user.id,
+        text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  });
+
+  // Handle rotation create/edit submission
+  app.view('oncall_rotation_modal', async ({ ack, view, body, client, logger }) => {
+    const { workspaceId, channelId, rotationId } = JSON.parse(view.private_metadata);
+    const values = view.state.values;
+
+    const input = {
+      name: values.rotation_name.name_input.value || '',
+      rotationType: (values.rotation_type.type_select.selected_option?.value || 'weekly') as RotationType,
+      memberIds: values.rotation_members.members_select.selected_users || [],
+      startDate: values.start_date.start_date_input.selected_date || '',
+      handoffTime: values.handoff_time.handoff_time_input.selected_time || ONCALL.DEFAULT_HANDOFF_TIME,
+      timezone: (values.timezone.timezone_input.value || '').trim(),
+    };
+
+    const validationError = validateRotation(input);
+    if (validationError) {
+      const blockId =
+        validationError.includes('timezone') ? 'timezone' :
+        validationError.includes('name') ? 'rotation_name' :
+        validationError.includes('people') || validationError.includes('person') ? 'rotation_members' :
+        validationError.includes('date') ? 'start_date' :
+        validationError.includes('handoff') ? 'handoff_time' : 'rotation_type';
+
+      await ack({
+        response_action: 'errors',
+        errors: {
+          [blockId]: validationError,
+        },
+      });
+      return;
+    }
+
+    await ack();
+
+    try {
+      const isAdmin = await isWorkspaceAdmin(client, body.user.id);
+      if (!isAdmin) {
+        throw new Error('Only workspace admins can change on-call rotations');
+      }
+      if (rotationId) {
+        await getWorkspaceRotation(workspaceId, rotationId);
+      }
+
+      const rotation = await saveRotation(workspaceId, input, rotationId);
+      console.log(`✅ On-call rotation "${rotation.name}" ${rotationId ? 'updated' : 'created'} by ${body.user.id}`);
+
+      const blocks = await buildOnCallBlocks(workspaceId, true);
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: body.user.id,
+        text: `✅ Saved rotation "${rotation.name}"`,
+        blocks,
+      });
+    } catch (error) {
+      logger.error('Error saving on-call rotation:', error);
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: body.user.id,
+        text: `❌ Error: ${error instanceof Error ? error.message : 'Failed to save rotation'}`,
+      });
+    }
+  });
+
+  // Handle override submission
+  app.view('oncall_override_modal', async ({ ack, view, body, client, logger }) => {
+    const { workspaceId, channelId, rotationId } = JSON.parse(view.private_metadata);
+    const values = view.state.values;
+
+    const startsAt = new Date((values.override_start.start_input.selected_date_time || 0) * 1000);
+    const endsAt = new Date((values.override_end.end_input.selected_date_time || 0) * 1000);
+
+    if (endsAt <= startsAt) {
+      await ack({
+        response_action: 'errors',
+        errors: {
+          override_end: 'The override must end after it starts',
+        },
+      });
+      return;
+    }
+
+    await ack();
+
+    try {
+      const isAdmin = await isWorkspaceAdmin(client, body.user.id);
+      if (!isAdmin) {
+        throw new Error('Only workspace admins can add on-call overrides');
+      }
+
+      const rotation = await getWorkspaceRotation(workspaceId, rotationId);
+      const slackUserId = values.override_user.user_select.selected_user!;
+      await addOverride(rotation.id, {
+        slackUserId,
+        startsAt,
+        endsAt,
+        reason: values.override_reason.reason_input.value?.trim() || undefined,
+        createdBy: body.user.id,
+      });
+
+      console.log(`🔁 On-call override for "${rotation.name}": ${slackUserId} ${startsAt.toISOString()} → ${endsAt.toISOString()}`);
+
+      const blocks = await buildOnCallBlocks(workspaceId, true);
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: body.user.id,
+        text: `✅ <@${slackUserId}> covers ${rotation.name} from ${formatSlackDate(startsAt)} until ${formatSlackDate(endsAt)}`,
+        blocks,
+      });
+    } catch (error) {
+      logger.error('Error adding on-call override:', error);
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: body.user.id,
+        text: `❌ Error: ${error instanceof Error ? error.message : 'Failed to add override'}`,
+      });
+    }
+  });
+
+  // Handle override removal
+  app.view('oncall_remove_override_modal', async ({ ack, view, body, client, logger }) => {
+    await ack();
+
+    const { workspaceId, channelId, rotationId } = JSON.parse(view.private_metadata);
+
+    try {
+      const isAdmin = await isWorkspaceAdmin(client, body.user.id);
+      if (!isAdmin) {
+        throw new Error('Only workspace admins can remove on-call overrides');
+      }
+
+      const rotation = await getWorkspaceRotation(workspaceId, rotationId);
+      const overrideId = view.state.values.override_select.override.selected_option!.value;
+      const overrides = await getUpcomingOverrides(rotation.id);
+      if (!overrides.some((o) => o.id === overrideId)) {
+        throw new Error('That override has already ended or been removed');
+      }
+
+      await removeOverride(overrideId);
+      console.log(`✅ Removed on-call override ${overrideId} from "${rotation.name}"`);
+
+      const blocks = await buildOnCallBlocks(workspaceId, true);
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: body.user.id,
+        text: `✅ Override removed from ${rotation.name}`,
+        blocks,
+      });
+    } catch (error) {
+      logger.error('Error removing on-call override:', error);
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: body.user.id,
+        text: `❌ Error: ${error instanceof Error ? error.message : 'Failed to remove override'}`,
+      });
+    }
+  });
+
+  // Handle rotation deletion
+  app.view('oncall_delete_modal', async ({ ack, view, body, client, logger }) => {
+    await ack();
+
+    const { workspaceId, channelId, rotationId } = JSON.parse(view.private_metadata);
+
+    try {
+      const isAdmin = await isWorkspaceAdmin(client, body.user.id);
+      if (!isAdmin) {
+        throw new Error('Only workspace admins can delete on-call rotations');
+      }
+
+      const rotation = await getWorkspaceRotation(workspaceId, rotationId);
+      await deleteRotation(rotation.id);
+      console.log(`🗑️ On-call rotation "${rotation.name}" deleted by ${body.user.id}`);
+
+      const blocks = await buildOnCallBlocks(workspaceId, true);
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: body.user.id,
+        text: `✅ Deleted rotation "${rotation.name}"`,
+        blocks,
+      });
+    } catch (error) {
+      logger.error('Error deleting on-call rotation:', error);
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: body.user.id,
+        text: `❌ Error: ${error instanceof Error ? error.message : 'Failed to delete rotation'}`,
+      });
+    }
+  });
+}
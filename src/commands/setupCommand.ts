@@ -7,10 +7,11 @@ import type { App } from '@slack/bolt';
 import { ensureWorkspace, prisma } from '../utils/db.js';
 import { getWorkspaceConfig } from '../services/configService.js';
 import { getEscalationTargets } from '../services/escalationTargetService.js';
+import { syncLadderWithLegacyTimings } from '../services/escalationLadderService.js';
 import { isWorkspaceAdmin, sendPermissionDenied } from '../utils/permissions.js';
 
 export function registerSetupCommand(app: App) {
-  app.command('/qr-setup', async ({ command, ack, client, logger }) => {
+  app.command('/qr-setup', async ({ command, ack, client, context, logger }) => {
     await ack();
 
     try {
@@ -21,8 +22,7 @@ export function registerSetupCommand(app: App) {
         return;
       }
 
-      const teamInfo = await client.team.info();
-      const teamId = teamInfo.team?.id;
+      const teamId = context.teamId;
 
       if (!teamId) {
         throw new Error('Could not get team information');
@@ -165,16 +165,13 @@ export function registerSetupCommand(app: App) {
   });
 
   // Start setup wizard button
-  app.action('start_setup_wizard', async ({ ack, body, client, logger }) => {
+  app.action('start_setup_wizard', async ({ ack, body, client, context, logger }) => {
     await ack();
 
     try {
-      const [teamInfo, userGroupsResponse] = await Promise.all([
-        client.team.info(),
-        client.usergroups.list(),
-      ]);
+      const userGroupsResponse = await client.usergroups.list();
 
-      const teamId = teamInfo.team?.id;
+      const teamId = context.teamId;
       if (!teamId) {
         throw new Error('Could not get team information');
       }
@@ -437,6 +434,9 @@ export function registerSetupCommand(app: App) {
         },
       });
 
+      // Keep an explicit escalation ladder in step with the timings edited here
+      await syncLadderWithLegacyTimings(workspace.id, firstEscalation, secondEscalation);
+
       // Send success message with next steps
       await client.chat.postEphemeral({
         channel: body.user.id,
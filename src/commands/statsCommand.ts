@@ -8,7 +8,7 @@ import { getQuestionStats } from '../services/questionStorage.js';
 import { ensureWorkspace } from '../utils/db.js';
 
 export function registerStatsCommand(app: App) {
-  app.command('/qr-stats', async ({ command, ack, respond, client, logger }) => {
+  app.command('/qr-stats', async ({ command, ack, respond, client, context, logger }) => {
     await ack();
 
     try {
@@ -36,9 +36,7 @@ export function registerStatsCommand(app: App) {
           break;
       }
 
-      // Get team info
-      const teamInfo = await client.team.info();
-      const teamId = teamInfo.team?.id;
+      const teamId = context.teamId;
 
       if (!teamId) {
         await respond('Error: Could not get team information');
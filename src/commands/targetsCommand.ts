@@ -4,7 +4,7 @@
  */
 import boltPkg from '@slack/bolt';
 import type { App } from '@slack/bolt';
-import { ensureWorkspace } from '../utils/db.js';
+import { ensureWorkspace, prisma } from '../utils/db.js';
 import {
   getEscalationTargets,
   addEscalationTarget,
@@ -14,12 +14,71 @@ import {
   type EscalationTargetType,
 } from '../services/escalationTargetService.js';
 import { isWorkspaceAdmin, sendPermissionDenied } from '../utils/permissions.js';
+import { getWorkspaceConfig } from '../services/configService.js';
+import {
+  getEffectiveChannelConfig,
+  getWorkspaceConfigDefaults,
+  type ChannelSettings,
+} from '../services/channelConfigService.js';
+import { getRotations } from '../services/onCallService.js';
+import { generateWebhookSecret } from '../services/webhookService.js';
+import { WEBHOOK } from '../utils/constants.js';
+import {
+  formatLadderDelay,
+  formatLadderText,
+  getWorkspaceLadder,
+  parseLadderText,
+  saveWorkspaceLadder,
+} from '../services/escalationLadderService.js';
+
+/**
+ * A channel whose own targets are being managed (from /qr-channel-config targets)
+ */
+interface ChannelScope {
+  id: string; // Internal channel ID
+  slackChannelId: string;
+  settings: ChannelSettings;
+}
+
+/**
+ * Load the channel scope carried in a button value or modal metadata
+ * Returns null for workspace-wide targets
+ */
+async function getChannelScope(workspaceId: string, channelId?: string | null): Promise<ChannelScope | null> {
+  if (!channelId) return null;
+
+  const channel = await prisma.channel.findUnique({ where: { id: channelId } });
+  if (!channel || channel.workspaceId !== workspaceId) {
+    throw new Error('Channel not found');
+  }
+
+  return {
+    id: channel.id,
+    slackChannelId: channel.slackChannelId,
+    settings: (channel.settings as ChannelSettings | null) || {},
+  };
+}
+
+/**
+ * The ladder targets are assigned against: the workspace's, or the channel's effective ladder
+ */
+async function getScopeLadder(workspaceId: string, channel: ChannelScope | null) {
+  const config = await getWorkspaceConfig(workspaceId);
+  if (!channel) {
+    return getWorkspaceLadder(config);
+  }
+
+  const effective = await getEffectiveChannelConfig(channel.id, getWorkspaceConfigDefaults(config));
+  return effective.escalationLadder;
+}
 
 /**
  * Helper function to generate targets list blocks
+ * With a channel, lists that channel's own targets instead of the workspace's
  */
-async function buildTargetsListBlocks(workspaceId: string): Promise<any[]> {
-  const targets = await getEscalationTargets(workspaceId);
+export async function buildTargetsListBlocks(workspaceId: string, channel: ChannelScope | null = null): Promise<any[]> {
+  const targets = await getEscalationTargets(workspaceId, undefined, channel?.id);
+  const ladder = await getScopeLadder(workspaceId, channel);
 
   // Group targets by level
   const targetsByLevel = new Map<number, typeof targets>();
@@ -31,19 +90,29 @@ async function buildTargetsListBlocks(workspaceId: string): Promise<any[]> {
   }
 
   // Build message blocks
+  let intro = `Manage who gets notified at each escalation level. Your ladder has ${ladder.length} level${ladder.length !== 1 ? 's' : ''}.`;
+  if (channel) {
+    const modeText = !channel.settings.useCustomTargets
+      ? '⚠️ Channel targets are *off* for this channel - turn them on in `/qr-channel-config`.'
+      : channel.settings.customTargetMode === 'extend'
+        ? 'Channel targets are notified *in addition to* the workspace targets.'
+        : 'Channel targets *replace* the workspace targets at levels where the channel has any.';
+    intro = `Targets only for <#${channel.slackChannelId}>. ${modeText}`;
+  }
+
   const blocks: any[] = [
     {
       type: 'header',
       text: {
         type: 'plain_text',
-        text: '🎯 Escalation Targets',
+        text: channel ? '🎯 Channel Escalation Targets' : '🎯 Escalation Targets',
       },
     },
     {
       type: 'section',
       text: {
         type: 'mrkdwn',
-        text: 'Manage who gets notified at each escalation level.',
+        text: intro,
       },
     },
     {
@@ -51,16 +120,15 @@ async function buildTargetsListBlocks(workspaceId: string): Promise<any[]> {
     },
   ];
 
-  // Show targets for each level
-  const levels = [1, 2, 3];
-  for (const level of levels) {
+  // Show targets for each level of the ladder
+  for (const { level, afterMinutes } of ladder) {
     const levelTargets = targetsByLevel.get(level) || [];
 
     blocks.push({
       type: 'section',
       text: {
         type: 'mrkdwn',
-        text: `*Level ${level} Escalation:*`,
+        text: `*Level ${level} Escalation* (after ${formatLadderDelay(afterMinutes)}):`,
       },
     });
 
@@ -87,6 +155,22 @@ async function buildTargetsListBlocks(workspaceId: string): Promise<any[]> {
     }
   }
 
+  // Targets left on levels the ladder no longer reaches
+  const unreachable = targets.filter((t) => !ladder.some((l) => l.level === t.escalationLevel));
+  if (unreachable.length > 0) {
+    blocks.push({
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `⚠️ Not in the ladder, so never notified: ${unreachable
+            .map((t) => `Level ${t.escalationLevel} ${getTargetDescription(t)}`)
+            .join(', ')}`,
+        },
+      ],
+    });
+  }
+
   blocks.push(
     {
       type: 'divider',
@@ -101,6 +185,7 @@ async function buildTargetsListBlocks(workspaceId: string): Promise<any[]> {
             text: '➕ Add Target',
           },
           action_id: 'add_escalation_target',
+          value: channel?.id || '',
           style: 'primary',
         },
         {
@@ -110,8 +195,22 @@ async function buildTargetsListBlocks(workspaceId: string): Promise<any[]> {
             text: '🗑️ Remove Target',
           },
           action_id: 'remove_escalation_target',
+          value: channel?.id || '',
           style: 'danger',
         },
+        // Channel ladders are edited in /qr-channel-config
+        ...(channel
+          ? []
+          : [
+              {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '⏱️ Edit Ladder',
+                },
+                action_id: 'edit_escalation_ladder',
+              },
+            ]),
       ],
     }
   );
@@ -121,7 +220,7 @@ async function buildTargetsListBlocks(workspaceId: string): Promise<any[]> {
 
 export function registerTargetsCommand(app: App) {
   // Main command - shows current targets and options
-  app.command('/qr-targets', async ({ command, ack, client, logger }) => {
+  app.command('/qr-targets', async ({ command, ack, client, context, logger }) => {
     await ack();
 
     try {
@@ -132,8 +231,7 @@ export function registerTargetsCommand(app: App) {
         return;
       }
 
-      const teamInfo = await client.team.info();
-      const teamId = teamInfo.team?.id;
+      const teamId = context.teamId;
 
       if (!teamId) {
         throw new Error('Could not get team information');
@@ -160,13 +258,24 @@ export function registerTargetsCommand(app: App) {
   });
 
   // Add target button handler
-  app.action('add_escalation_target', async ({ ack, body, client, logger }) => {
+  app.action('add_escalation_target', async ({ ack, body, client, context, logger }) => {
     await ack();
 
     try {
+      const teamId = context.teamId;
+
+      if (!teamId) {
+        throw new Error('Could not get team information');
+      }
+
+      const workspace = await ensureWorkspace(teamId);
+      const channel = await getChannelScope(workspace.id, (body as any).actions?.[0]?.value);
+      const ladder = await getScopeLadder(workspace.id, channel);
+
       // Fetch user groups and channels
       const userGroupsResponse = await client.usergroups.list();
       const userGroups = userGroupsResponse.usergroups || [];
+      const rotations = await getRotations(workspace.id);
 
       // Open modal for adding target
       await client.views.open({
@@ -176,8 +285,9 @@ export function registerTargetsCommand(app: App) {
           callback_id: 'add_target_modal',
           title: {
             type: 'plain_text',
-            text: 'Add Escalation Target',
+            text: channel ? 'Add Channel Target' : 'Add Escalation Target',
           },
+          private_metadata: JSON.stringify({ channelId: channel?.id || null }),
           submit: {
             type: 'plain_text',
             text: 'Add',
@@ -201,20 +311,10 @@ export function registerTargetsCommand(app: App) {
                   type: 'plain_text',
                   text: 'Select level',
                 },
-                options: [
-                  {
-                    text: { type: 'plain_text', text: 'Level 1 - First Escalation' },
-                    value: '1',
-                  },
-                  {
-                    text: { type: 'plain_text', text: 'Level 2 - Second Escalation' },
-                    value: '2',
-                  },
-                  {
-                    text: { type: 'plain_text', text: 'Level 3 - Final Escalation' },
-                    value: '3',
-                  },
-                ],
+                options: ladder.map(({ level, afterMinutes }) => ({
+                  text: { type: 'plain_text', text: `Level ${level} - after ${formatLadderDelay(afterMinutes)}` },
+                  value: level.toString(),
+                })),
               },
             },
             {
@@ -244,6 +344,14 @@ export function registerTargetsCommand(app: App) {
                     text: { type: 'plain_text', text: '#️⃣ Channel' },
                     value: 'channel',
                   },
+                  {
+                    text: { type: 'plain_text', text: '🔄 On-call Rotation' },
+                    value: 'rotation',
+                  },
+                  {
+                    text: { type: 'plain_text', text: '🔗 Webhook' },
+                    value: 'webhook',
+                  },
                 ],
               },
               hint: {
@@ -324,6 +432,62 @@ export function registerTargetsCommand(app: App) {
                 },
               },
             },
+            {
+              type: 'input',
+              block_id: 'rotation_target',
+              optional: true,
+              label: {
+                type: 'plain_text',
+                text: 'Rotation (if On-call Rotation selected above)',
+              },
+              element: {
+                type: 'static_select',
+                action_id: 'rotation_select',
+                placeholder: {
+                  type: 'plain_text',
+                  text: 'Select a rotation',
+                },
+                options:
+                  rotations.length > 0
+                    ? rotations.map((r) => ({
+                        text: {
+                          type: 'plain_text',
+                          text: r.name,
+                        },
+                        value: r.id,
+                      }))
+                    : [
+                        {
+                          text: {
+                            type: 'plain_text',
+                            text: 'No rotations yet - create one with /qr-oncall',
+                          },
+                          value: 'none',
+                        },
+                      ],
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'webhook_target',
+              optional: true,
+              label: {
+                type: 'plain_text',
+                text: 'Webhook URL (if Webhook selected above)',
+              },
+              element: {
+                type: 'url_text_input',
+                action_id: 'webhook_url',
+                placeholder: {
+                  type: 'plain_text',
+                  text: 'https://example.com/hooks/question-router',
+                },
+              },
+              hint: {
+                type: 'plain_text',
+                text: 'Receives a signed JSON POST for each escalation. You will be shown the signing secret once.',
+              },
+            },
           ],
         },
       });
@@ -343,6 +507,8 @@ export function registerTargetsCommand(app: App) {
       }
 
       const workspace = await ensureWorkspace(teamId);
+      const { channelId } = JSON.parse(view.private_metadata || '{}');
+      const channel = await getChannelScope(workspace.id, channelId);
 
       // Extract values
       const level = parseInt(view.state.values.escalation_level.level_select.selected_option!.value);
@@ -364,12 +530,22 @@ export function registerTargetsCommand(app: App) {
           targetId =
             view.state.values.channel_target.channel_select.selected_conversation || undefined;
           break;
+        case 'rotation': {
+          const rotationId = view.state.values.rotation_target.rotation_select.selected_option?.value;
+          targetId = rotationId && rotationId !== 'none' ? rotationId : undefined;
+          break;
+        }
+        case 'webhook':
+          targetId = view.state.values.webhook_target.webhook_url.value?.trim() || undefined;
+          break;
       }
 
       if (!targetId) {
         const typeLabel =
           targetType === 'user' ? 'user' :
-          targetType === 'user_group' ? 'user group' : 'channel';
+          targetType === 'user_group' ? 'user group' :
+          targetType === 'rotation' ? 'rotation' :
+          targetType === 'webhook' ? 'webhook URL' : 'channel';
         throw new Error(`Please select a ${typeLabel} from the dropdown before submitting.`);
       }
 
@@ -379,20 +555,34 @@ export function registerTargetsCommand(app: App) {
         throw new Error(validation.error || 'Could not validate the selected target. Please try again.');
       }
 
+      // Webhooks get their own signing secret, shown once below
+      const webhookSecret = targetType === 'webhook' ? generateWebhookSecret() : undefined;
+
       // Add the target
       await addEscalationTarget(workspace.id, {
         targetType,
         targetId,
         targetName: validation.name,
         escalationLevel: level,
+        ...(webhookSecret && { settings: { secret: webhookSecret } }),
+        ...(channel && { channelId: channel.id }),
       });
 
       console.log(
-        `✅ Added escalation target: ${targetType} ${targetId} at level ${level} for workspace ${workspace.slackTeamId}`
+        `✅ Added escalation target: ${targetType} ${targetId} at level ${level} for ${channel ? `channel ${channel.slackChannelId}` : `workspace ${workspace.slackTeamId}`}`
       );
 
       // Show updated targets list
-      const blocks = await buildTargetsListBlocks(workspace.id);
+      const blocks = await buildTargetsListBlocks(workspace.id, channel);
+      if (webhookSecret) {
+        blocks.unshift({
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `🔑 *Webhook signing secret* (copy it now, it won't be shown again):\n\`${webhookSecret}\`\n\nCheck the \`${WEBHOOK.SIGNATURE_HEADER}\` header on each request as described in the README.`,
+          },
+        });
+      }
 
       await client.chat.postEphemeral({
         channel: body.user.id,
@@ -411,19 +601,19 @@ export function registerTargetsCommand(app: App) {
   });
 
   // Remove target button handler
-  app.action('remove_escalation_target', async ({ ack, body, client, logger }) => {
+  app.action('remove_escalation_target', async ({ ack, body, client, context, logger }) => {
     await ack();
 
     try {
-      const teamInfo = await client.team.info();
-      const teamId = teamInfo.team?.id;
+      const teamId = context.teamId;
 
       if (!teamId) {
         throw new Error('Could not get team information');
       }
 
       const workspace = await ensureWorkspace(teamId);
-      const targets = await getEscalationTargets(workspace.id);
+      const channel = await getChannelScope(workspace.id, (body as any).actions?.[0]?.value);
+      const targets = await getEscalationTargets(workspace.id, undefined, channel?.id);
 
       if (targets.length === 0) {
         await client.chat.postEphemeral({
@@ -444,6 +634,7 @@ export function registerTargetsCommand(app: App) {
             type: 'plain_text',
             text: 'Remove Target',
           },
+          private_metadata: JSON.stringify({ channelId: channel?.id || null }),
           submit: {
             type: 'plain_text',
             text: 'Remove',
@@ -485,18 +676,19 @@ export function registerTargetsCommand(app: App) {
   });
 
   // Handle remove target modal submission
-  app.view('remove_target_modal', async ({ ack, view, body, client, logger }) => {
+  app.view('remove_target_modal', async ({ ack, view, body, client, context, logger }) => {
     await ack();
 
     try {
-      const teamInfo = await client.team.info();
-      const teamId = teamInfo.team?.id;
+      const teamId = context.teamId;
 
       if (!teamId) {
         throw new Error('Could not get team information');
       }
 
       const workspace = await ensureWorkspace(teamId);
+      const { channelId } = JSON.parse(view.private_metadata || '{}');
+      const channel = await getChannelScope(workspace.id, channelId);
       const targetId = view.state.values.target_select.target.selected_option!.value;
 
       await removeEscalationTarget(targetId);
@@ -504,7 +696,7 @@ export function registerTargetsCommand(app: App) {
       console.log(`✅ Removed escalation target: ${targetId}`);
 
       // Show updated targets list
-      const blocks = await buildTargetsListBlocks(workspace.id);
+      const blocks = await buildTargetsListBlocks(workspace.id, channel);
 
       await client.chat.postEphemeral({
         channel: body.user.id,
@@ -521,4 +713,124 @@ export function registerTargetsCommand(app: App) {
       });
     }
   });
+
+  // Edit ladder button handler
+  app.action('edit_escalation_ladder', async ({ ack, body, client, context, logger }) => {
+    await ack();
+
+    try {
+      const teamId = context.teamId;
+
+      if (!teamId) {
+        throw new Error('Could not get team information');
+      }
+
+      const workspace = await ensureWorkspace(teamId);
+      const ladder = getWorkspaceLadder(await getWorkspaceConfig(workspace.id));
+
+      await client.views.open({
+        trigger_id: (body as any).trigger_id,
+        view: {
+          type: 'modal',
+          callback_id: 'escalation_ladder_modal',
+          title: {
+            type: 'plain_text',
+            text: 'Escalation Ladder',
+          },
+          submit: {
+            type: 'plain_text',
+            text: 'Save',
+          },
+          close: {
+            type: 'plain_text',
+            text: 'Cancel',
+          },
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: 'Each number is a level: how many minutes after a question is asked that level fires. Add numbers for more levels, remove them for fewer.',
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'ladder',
+              label: {
+                type: 'plain_text',
+                text: 'Level timings (minutes)',
+              },
+              element: {
+                type: 'plain_text_input',
+                action_id: 'ladder_input',
+                initial_value: formatLadderText(ladder),
+                placeholder: {
+                  type: 'plain_text',
+                  text: 'e.g. 15, 60, 240, 1440',
+                },
+              },
+              hint: {
+                type: 'plain_text',
+                text: 'Comma-separated, each later than the one before. Channel overrides are set with /qr-channel-config.',
+              },
+            },
+          ],
+        },
+      });
+    } catch (error) {
+      logger.error('Error opening escalation ladder modal:', error);
+    }
+  });
+
+  // Handle ladder modal submission
+  app.view('escalation_ladder_modal', async ({ ack, view, body, client, logger }) => {
+    const { ladder, error } = parseLadderText(view.state.values.ladder.ladder_input.value || '');
+
+    if (!ladder) {
+      await ack({
+        response_action: 'errors',
+        errors: {
+          ladder: error || 'Invalid ladder',
+        },
+      });
+      return;
+    }
+
+    await ack();
+
+    try {
+      const isAdmin = await isWorkspaceAdmin(client, body.user.id);
+      if (!isAdmin) {
+        throw new Error('Only workspace admins can change the escalation ladder');
+      }
+
+      const teamId = body.team?.id;
+      if (!teamId) {
+        throw new Error('Could not get team information');
+      }
+
+      const workspace = await ensureWorkspace(teamId);
+      await saveWorkspaceLadder(workspace.id, ladder);
+
+      console.log(
+        `✅ Escalation ladder updated for workspace ${workspace.slackTeamId}: ${formatLadderText(ladder)}`
+      );
+
+      const blocks = await buildTargetsListBlocks(workspace.id);
+
+      await client.chat.postEphemeral({
+        channel: body.user.id,
+        user: body.user.id,
+        text: `✅ Escalation ladder saved with ${ladder.length} level${ladder.length !== 1 ? 's' : ''}\n\nHere's your updated configuration:`,
+        blocks,
+      });
+    } catch (error) {
+      logger.error('Error saving escalation ladder:', error);
+      await client.chat.postEphemeral({
+        channel: body.user.id,
+        user: body.user.id,
+        text: `❌ Error: ${error instanceof Error ? error.message : 'Failed to save escalation ladder'}`,
+      });
+    }
+  });
 }
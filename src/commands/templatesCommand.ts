@@ -0,0 +1,290 @@
+/**
+ * Message Templates Command Handler
+ * Lets admins edit the wording of escalation messages, with a preview of each one
+ */
+import boltPkg from '@slack/bolt';
+import type { App } from '@slack/bolt';
+import { ensureWorkspace } from '../utils/db.js';
+import { isWorkspaceAdmin, sendPermissionDenied } from '../utils/permissions.js';
+import { getWorkspaceConfig, updateWorkspaceSettings } from '../services/configService.js';
+import {
+  DEFAULT_ESCALATION_TEMPLATES,
+  ESCALATION_TEMPLATE_LABELS,
+  TEMPLATE_PLACEHOLDERS,
+  buildEscalationMessage,
+  buildTemplateVariables,
+  getEscalationTemplates,
+  validateTemplate,
+  type EscalationTemplateKey,
+  type EscalationTemplates,
+} from '../services/messageTemplateService.js';
+
+const TEMPLATE_KEYS = Object.keys(DEFAULT_ESCALATION_TEMPLATES) as EscalationTemplateKey[];
+
+// Targets shown in previews for templates that mention someone
+const PREVIEW_TARGETS: Record<EscalationTemplateKey, (userId: string) => string> = {
+  thread_user_group: () => '@support-team',
+  thread_user: (userId) => `<@${userId}>`,
+  user_dm: (userId) => `<@${userId}>`,
+  channel_alert: () => '',
+};
+
+// Thread replies sit under the question, so only DMs and channel alerts quote it
+const QUOTES_QUESTION: Record<EscalationTemplateKey, boolean> = {
+  thread_user_group: false,
+  thread_user: false,
+  user_dm: true,
+  channel_alert: true,
+};
+
+/**
+ * How a template looks with sample values, using the admin as the asker and the channel they're in
+ */
+function buildPreviewBlocks(key: EscalationTemplateKey, template: string, userId: string, channelId: string): any[] {
+  const sampleQuestion = {
+    messageText: 'How do I rotate the API keys for the staging environment?',
+    asker: { slackUserId: userId },
+    channel: { slackChannelId: channelId },
+  };
+  const variables = buildTemplateVariables(
+    sampleQuestion,
+    2,
+    42,
+    'https://example.slack.com/archives/C0123/p1760868000000000',
+    PREVIEW_TARGETS[key](userId)
+  );
+
+  const { blocks } = buildEscalationMessage(template, variables, {
+    keywords: ['api', 'keys', 'staging'],
+    includeQuestion: QUOTES_QUESTION[key],
+  });
+  return blocks;
+}
+
+/**
+ * Modal blocks: for each template, an input followed by its preview
+ * @param values - Current text of each input (defaults when omitted)
+ */
+function buildTemplatesModalBlocks(
+  values: EscalationTemplates,
+  userId: string,
+  channelId: string,
+  errors: Partial<Record<EscalationTemplateKey, string>> = {}
+): any[] {
+  const blocks: any[] = [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `Customise the wording of escalation messages. Placeholders: ${TEMPLATE_PLACEHOLDERS.map((p) => `\`{{${p}}}\``).join(' ')}\n\nClear a template to go back to the default.`,
+      },
+    },
+  ];
+
+  for (const key of TEMPLATE_KEYS) {
+    blocks.push(
+      { type: 'divider' },
+      {
+        type: 'input',
+        block_id: `template_${key}`,
+        optional: true,
+        label: {
+          type: 'plain_text',
+          text: ESCALATION_TEMPLATE_LABELS[key],
+        },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'template_input',
+          multiline: true,
+          initial_value: values[key],
+          placeholder: {
+            type: 'plain_text',
+            text: DEFAULT_ESCALATION_TEMPLATES[key].slice(0, 150),
+          },
+        },
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: errors[key] ? `⚠️ ${errors[key]}` : '*Preview*' }],
+      },
+      ...buildPreviewBlocks(key, values[key] || DEFAULT_ESCALATION_TEMPLATES[key], userId, channelId)
+    );
+  }
+
+  blocks.push(
+    { type: 'divider' },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: '🔄 Refresh Preview',
+          },
+          action_id: 'refresh_template_preview',
+        },
+      ],
+    }
+  );
+
+  return blocks;
+}
+
+/**
+ * Read the template inputs from a modal's state
+ */
+function readTemplateValues(stateValues: any): EscalationTemplates {
+  const values = { ...DEFAULT_ESCALATION_TEMPLATES };
+  for (const key of TEMPLATE_KEYS) {
+    values[key] = stateValues[`template_${key}`]?.template_input?.value || '';
+  }
+  return values;
+}
+
+export function registerTemplatesCommand(app: App) {
+  app.command('/qr-templates', async ({ command, ack, client, logger }) => {
+    await ack();
+
+    try {
+      const isAdmin = await isWorkspaceAdmin(client, command.user_id);
+      if (!isAdmin) {
+        await sendPermissionDenied(client, command.channel_id, command.user_id);
+        return;
+      }
+
+      const workspace = await ensureWorkspace(command.team_id);
+      const config = await getWorkspaceConfig(workspace.id);
+      const templates = getEscalationTemplates(config.settings.escalationTemplates);
+
+      await client.views.open({
+        trigger_id: command.trigger_id,
+        view: {
+          type: 'modal',
+          callback_id: 'escalation_templates_modal',
+          title: {
+            type: 'plain_text',
+            text: 'Message Templates',
+          },
+          submit: {
+            type: 'plain_text',
+            text: 'Save',
+          },
+          close: {
+            type: 'plain_text',
+            text: 'Cancel',
+          },
+          private_metadata: JSON.stringify({
+            workspaceId: workspace.id,
+            channelId: command.channel_id,
+          }),
+          blocks: buildTemplatesModalBlocks(templates, command.user_id, command.channel_id),
+        },
+      });
+    } catch (error) {
+      logger.error('Error opening templates modal:', error);
+      try {
+        await client.chat.postEphemeral({
+          channel: command.channel_id,
+          user: command.user_id,
+          text: `❌ Error opening message templates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      } catch (ephemeralError) {
+        logger.error('Could not send ephemeral error message:', ephemeralError);
+      }
+    }
+  });
+
+  // Re-render the previews from what's currently typed
+  app.action('refresh_template_preview', async ({ ack, body, client, logger }) => {
+    await ack();
+
+    try {
+      const view = (body as any).view;
+      const { channelId } = JSON.parse(view.private_metadata);
+      const values = readTemplateValues(view.state.values);
+
+      const errors: Partial<Record<EscalationTemplateKey, string>> = {};
+      for (const key of TEMPLATE_KEYS) {
+        const error = values[key] ? validateTemplate(values[key]) : null;
+        if (error) errors[key] = error;
+      }
+
+      await client.views.update({
+        view_id: view.id,
+        hash: view.hash,
+        view: {
+          type: 'modal',
+          callback_id: 'escalation_templates_modal',
+          title: view.title,
+          submit: view.submit,
+          close: view.close,
+          private_metadata: view.private_metadata,
+          blocks: buildTemplatesModalBlocks(values, body.user.id, channelId, errors),
+        },
+      });
+    } catch (error) {
+      logger.error('Error refreshing template preview:', error);
+    }
+  });
+
+  app.view('escalation_templates_modal', async ({ ack, view, body, client, logger }) => {
+    const { workspaceId, channelId } = JSON.parse(view.private_metadata);
+    const values = readTemplateValues(view.state.values);
+
+    const errors: Record<string, string> = {};
+    for (const key of TEMPLATE_KEYS) {
+      const error = values[key] ? validateTemplate(values[key]) : null;
+      if (error) errors[`template_${key}`] = error;
+    }
+    if (Object.keys(errors).length > 0) {
+      await ack({
+        response_action: 'errors',
+        errors,
+      });
+      return;
+    }
+
+    await ack();
+
+    try {
+      const isAdmin = await isWorkspaceAdmin(client, body.user.id);
+      if (!isAdmin) {
+        throw new Error('Only workspace admins can change message templates');
+      }
+
+      // Only store templates that differ from the default, so default wording changes reach everyone else
+      const escalationTemplates: Partial<EscalationTemplates> = {};
+      for (const key of TEMPLATE_KEYS) {
+        const value = values[key].trim();
+        if (value && value !== DEFAULT_ESCALATION_TEMPLATES[key]) {
+          escalationTemplates[key] = value;
+        }
+      }
+
+      await updateWorkspaceSettings(workspaceId, { escalationTemplates });
+
+      const customised = Object.keys(escalationTemplates) as EscalationTemplateKey[];
+      await client.chat.postEphemeral({
+        channel: channelId || body.user.id,
+        user: body.user.id,
+        text: customised.length > 0
+          ? `✅ Message templates saved\n\nCustomised: ${customised.map((k) => ESCALATION_TEMPLATE_LABELS[k]).join(', ')}`
+          : '✅ Message templates saved - all escalation messages use the default wording',
+      });
+
+      console.log(`✅ Message templates updated by ${body.user.id} (${customised.length} customised)`);
+    } catch (error) {
+      logger.error('Error saving message templates:', error);
+      try {
+        await client.chat.postEphemeral({
+          channel: channelId || body.user.id,
+          user: body.user.id,
+          text: `❌ Failed to save message templates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      } catch (ephemeralError) {
+        logger.error('Could not send ephemeral error message:', ephemeralError);
+      }
+    }
+  });
+}
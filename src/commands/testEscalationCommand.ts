@@ -6,10 +6,14 @@ import boltPkg from '@slack/bolt';
 import type { App } from '@slack/bolt';
 import { ensureWorkspace } from '../utils/db.js';
 import { getTargetsForLevel } from '../services/escalationTargetService.js';
+import { getWorkspaceConfig } from '../services/configService.js';
+import { formatLadderDelay, getWorkspaceLadder } from '../services/escalationLadderService.js';
+import { resolveOnCall } from '../services/onCallService.js';
+import { buildWebhookPayload, sendWebhook } from '../services/webhookService.js';
 import { isWorkspaceAdmin, sendPermissionDenied } from '../utils/permissions.js';
 
 export function registerTestEscalationCommand(app: App) {
-  app.command('/qr-test-escalation', async ({ command, ack, client, logger }) => {
+  app.command('/qr-test-escalation', async ({ command, ack, client, context, logger }) => {
     await ack();
 
     try {
@@ -20,8 +24,7 @@ export function registerTestEscalationCommand(app: App) {
         return;
       }
 
-      const teamInfo = await client.team.info();
-      const teamId = teamInfo.team?.id;
+      const teamId = context.teamId;
 
       if (!teamId) {
         throw new Error('Could not get team information');
@@ -29,49 +32,29 @@ export function registerTestEscalationCommand(app: App) {
 
       const workspace = await ensureWorkspace(teamId);
 
-      // Get targets for all levels
-      const level1Targets = await getTargetsForLevel(workspace.id, 1);
-      const level2Targets = await getTargetsForLevel(workspace.id, 2);
-      const level3Targets = await getTargetsForLevel(workspace.id, 3);
+      // Get targets for every level of the ladder
+      const ladder = getWorkspaceLadder(await getWorkspaceConfig(workspace.id));
+      const levelTargets = await Promise.all(
+        ladder.map((l) => getTargetsForLevel(workspace.id, l.level))
+      );
 
       // Build test results message
       let message = '🧪 *Escalation Configuration Test*\n\n';
 
-      // Level 1
-      message += '*Level 1 Escalation:*\n';
-      if (level1Targets.length === 0) {
-        message += '❌ No targets configured\n';
-      } else {
-        level1Targets.forEach((target, idx) => {
-          message += `✅ ${idx + 1}. ${getTargetIcon(target.targetType)} ${target.targetName || target.targetId}\n`;
-        });
-      }
-      message += '\n';
-
-      // Level 2
-      message += '*Level 2 Escalation:*\n';
-      if (level2Targets.length === 0) {
-        message += '❌ No targets configured\n';
-      } else {
-        level2Targets.forEach((target, idx) => {
-          message += `✅ ${idx + 1}. ${getTargetIcon(target.targetType)} ${target.targetName || target.targetId}\n`;
-        });
-      }
-      message += '\n';
-
-      // Level 3
-      message += '*Level 3 Escalation:*\n';
-      if (level3Targets.length === 0) {
-        message += '❌ No targets configured\n';
-      } else {
-        level3Targets.forEach((target, idx) => {
-          message += `✅ ${idx + 1}. ${getTargetIcon(target.targetType)} ${target.targetName || target.targetId}\n`;
-        });
-      }
-      message += '\n';
+      ladder.forEach(({ level, afterMinutes }, i) => {
+        message += `*Level ${level} Escalation* (after ${formatLadderDelay(afterMinutes)}):\n`;
+        if (levelTargets[i].length === 0) {
+          message += '❌ No targets configured\n';
+        } else {
+          levelTargets[i].forEach((target, idx) => {
+            message += `✅ ${idx + 1}. ${getTargetIcon(target.targetType)} ${target.targetName || target.targetId}\n`;
+          });
+        }
+        message += '\n';
+      });
 
       // Test simulation option
-      const totalTargets = level1Targets.length + level2Targets.length + level3Targets.length;
+      const totalTargets = levelTargets.reduce((sum, targets) => sum + targets.length, 0);
 
       if (totalTargets === 0) {
         message += '⚠️ *No escalation targets configured!*\n\n';
@@ -79,9 +62,10 @@ export function registerTestEscalationCommand(app: App) {
       } else {
         message += '✨ *Configuration looks good!*\n\n';
         message += `Total targets: ${totalTargets}\n`;
-        message += `• Level 1: ${level1Targets.length}\n`;
-        message += `• Level 2: ${level2Targets.length}\n`;
-        message += `• Level 3: ${level3Targets.length}\n\n`;
+        ladder.forEach(({ level }, i) => {
+          message += `• Level ${level}: ${levelTargets[i].length}\n`;
+        });
+        message += '\n';
         message += '💡 To test the full flow:\n';
         message += '1. Post a test question in this channel\n';
         message += '2. Don\'t answer it\n';
@@ -136,12 +120,11 @@ export function registerTestEscalationCommand(app: App) {
   });
 
   // Handle test notification button
-  app.action('send_test_notification', async ({ ack, body, client, logger }) => {
+  app.action('send_test_notification', async ({ ack, body, client, context, logger }) => {
     await ack();
 
     try {
-      const teamInfo = await client.team.info();
-      const teamId = teamInfo.team?.id;
+      const teamId = context.teamId;
 
       if (!teamId) {
         throw new Error('Could not get team information');
@@ -194,6 +177,37 @@ export function registerTestEscalationCommand(app: App) {
               });
               notificationsSent++;
               break;
+
+            case 'rotation': {
+              const resolved = await resolveOnCall(target.targetId);
+              if (!resolved) break;
+              await client.chat.postMessage({
+                channel: channelId,
+                text: `🧪 *Test Notification*\n\n<@${resolved.onCall.slackUserId}> - This is a test escalation from Question Router. You're on call for *${resolved.rotation.name}*.\n\nIf you see this, your Level 1 escalation is configured correctly! ✅`,
+              });
+              notificationsSent++;
+              break;
+            }
+
+            case 'webhook': {
+              const payload = buildWebhookPayload(
+                {
+                  id: 'test',
+                  messageText: 'This is a test escalation from Question Router.',
+                  askedAt: new Date(),
+                  channel: { slackChannelId: channelId, channelName: null },
+                  asker: { slackUserId: body.user.id },
+                },
+                teamId,
+                1,
+                0,
+                '',
+                'test'
+              );
+              await sendWebhook(target.targetId, payload, target.settings?.secret || '');
+              notificationsSent++;
+              break;
+            }
           }
         } catch (error) {
           logger.error(`Error sending test to target ${target.targetId}:`, error);
@@ -225,6 +239,10 @@ function getTargetIcon(targetType: string): string {
       return '👥';
     case 'channel':
       return '#️⃣';
+    case 'rotation':
+      return '🔄';
+    case 'webhook':
+      return '🔗';
     default:
       return '❓';
   }
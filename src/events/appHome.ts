@@ -6,8 +6,13 @@ import boltPkg from '@slack/bolt';
 import type { App } from '@slack/bolt';
 import { ensureWorkspace, prisma } from '../utils/db.js';
 import { getWorkspaceConfig } from '../services/configService.js';
-import { buildThreadLink, getTeamDomain } from '../utils/slackHelpers.js';
+import { buildThreadLink } from '../utils/slackHelpers.js';
+import { getWorkspaceMetadata } from '../services/workspaceMetadataService.js';
 import { getChannelsWithCustomSettings } from '../services/channelConfigService.js';
+import { ESCALATION_LEVEL } from '../utils/constants.js';
+import { getActiveClaims } from '../services/claimService.js';
+import { formatLadderDelay, getWorkspaceLadder } from '../services/escalationLadderService.js';
+import { describeBusinessHours } from '../services/businessHoursService.js';
 
 /**
  * Format time difference as human-readable string
@@ -23,10 +28,9 @@ function getTimeAgo(date: Date): string {
 }
 
 export function registerAppHomeHandler(app: App) {
-  app.event('app_home_opened', async ({ event, client, logger }) => {
+  app.event('app_home_opened', async ({ event, client, context, logger }) => {
     try {
-      const teamInfo = await client.team.info();
-      const teamId = teamInfo.team?.id;
+      const teamId = context.teamId;
 
       if (!teamId) {
         throw new Error('Could not get team information');
@@ -34,6 +38,7 @@ export function registerAppHomeHandler(app: App) {
 
       const workspace = await ensureWorkspace(teamId);
       const config = await getWorkspaceConfig(workspace.id);
+      const ladder = getWorkspaceLadder(config);
 
       // Check if configuration is complete
       const hasUserGroup = !!config.escalationUserGroup;
@@ -62,34 +67,43 @@ export function registerAppHomeHandler(app: App) {
         take: 10,
       });
 
+      // Fetch questions someone has said they'll take
+      const activeClaims = await getActiveClaims(workspace.id);
+
       // Fetch channels with custom settings
       const customChannels = await getChannelsWithCustomSettings(workspace.id);
 
       // Build escalation history blocks
       const historyBlocks = [];
       if (recentEvents.length > 0) {
-        const teamDomain = getTeamDomain(teamInfo);
+        const { teamDomain } = await getWorkspaceMetadata(client, teamId);
 
         for (const event of recentEvents) {
           const question = event.question;
           const threadLink = buildThreadLink(
             teamDomain,
             question.channel.slackChannelId,
-            question.slackMessageId
+            question.slackMessageId,
+            question.slackThreadId
           );
 
           const statusEmoji = event.status === 'success' ? '✅' : event.status === 'failed' ? '❌' : '⏭️';
           const targetTypeLabel =
             event.targetType === 'user_group' ? 'User Group' :
-            event.targetType === 'user' ? 'User' : 'Channel';
+            event.targetType === 'user' ? 'User' :
+            event.targetType === 'rotation' ? 'On-call' :
+            event.targetType === 'webhook' ? 'Webhook' : 'Channel';
 
           const timeAgo = getTimeAgo(new Date(event.notifiedAt));
+          const levelLabel = event.escalation.escalationLevel === ESCALATION_LEVEL.SUGGESTION
+            ? 'Expert Suggestion'
+            : `Level ${event.escalation.escalationLevel}`;
 
           historyBlocks.push({
             type: 'section',
             text: {
               type: 'mrkdwn',
-              text: `${statusEmoji} *Level ${event.escalation.escalationLevel}* → ${targetTypeLabel}${event.targetName ? ` (${event.targetName})` : ''}\n` +
+              text: `${statusEmoji} *${levelLabel}* → ${targetTypeLabel}${event.targetName ? ` (${event.targetName})` : ''}\n` +
                     `<${threadLink}|View Question> • ${timeAgo}` +
                     (event.errorMessage ? `\n⚠️ _${event.errorMessage}_` : ''),
             },
@@ -105,6 +119,40 @@ export function registerAppHomeHandler(app: App) {
         });
       }
 
+      // Build claimed question blocks
+      const claimBlocks = [];
+      if (activeClaims.length > 0) {
+        const { teamDomain } = await getWorkspaceMetadata(client, teamId);
+        const lines = activeClaims.map((claim) => {
+          const threadLink = buildThreadLink(teamDomain, claim.slackChannelId, claim.slackMessageId, claim.slackThreadId);
+          const owner = claim.claimerSlackUserId === event.user ? 'You' : `<@${claim.claimerSlackUserId}>`;
+          const expiresUnix = Math.floor(claim.claimExpiresAt.getTime() / 1000);
+          const preview = claim.messageText.length > 80 ? `${claim.messageText.slice(0, 80)}…` : claim.messageText;
+          return `🙋 ${owner} • <${threadLink}|${preview}>\n` +
+            `    claimed ${getTimeAgo(claim.claimedAt)}, escalation resumes <!date^${expiresUnix}^{time}|${claim.claimExpiresAt.toISOString()}>`;
+        });
+
+        claimBlocks.push(
+          {
+            type: 'header' as const,
+            text: {
+              type: 'plain_text' as const,
+              text: '🙋 Claimed Questions',
+            },
+          },
+          {
+            type: 'section' as const,
+            text: {
+              type: 'mrkdwn' as const,
+              text: lines.join('\n'),
+            },
+          },
+          {
+            type: 'divider' as const,
+          }
+        );
+      }
+
       // Build the home view
       await client.views.publish({
         user_id: event.user,
@@ -142,11 +190,11 @@ export function registerAppHomeHandler(app: App) {
               fields: [
                 {
                   type: 'mrkdwn',
-                  text: `*First Escalation:*\n${config.firstEscalationMinutes} minutes`,
+                  text: `*Escalation Ladder:*\n${ladder.map((l) => formatLadderDelay(l.afterMinutes)).join(' → ')}`,
                 },
                 {
                   type: 'mrkdwn',
-                  text: `*Second Escalation:*\n${config.secondEscalationMinutes} minutes`,
+                  text: `*Grace Period:*\n${config.gracePeriodMinutes} minutes`,
                 },
                 {
                   type: 'mrkdwn',
@@ -160,6 +208,10 @@ export function registerAppHomeHandler(app: App) {
                   type: 'mrkdwn',
                   text: `*Answer Mode:*\n${config.answerDetectionMode}`,
                 },
+                {
+                  type: 'mrkdwn',
+                  text: `*Business Hours:*\n${describeBusinessHours(config.settings.businessHours ?? null)}`,
+                },
               ],
             },
             {
@@ -202,9 +254,10 @@ export function registerAppHomeHandler(app: App) {
                 type: 'mrkdwn',
                 text:
                   '*1️⃣ Questions are detected* - Any message with a `?` in monitored channels\n' +
-                  '*2️⃣ First escalation* - After configured time, user group is mentioned in thread\n' +
-                  '*3️⃣ Second escalation* - If still unanswered, posted to escalation channel\n' +
-                  '*4️⃣ Marked answered* - Add ✅ reaction (or auto-detect based on your mode)',
+                  '*2️⃣ Expert suggestions* - After the grace period, people who know the topic get a private DM\n' +
+                  '*3️⃣ Escalation ladder* - Each level notifies its targets once the question is old enough\n' +
+                  '*4️⃣ Claiming* - Press "I\'ll take it" on an escalation to pause it while you answer\n' +
+                  '*5️⃣ Marked answered* - Add ✅ reaction (or auto-detect based on your mode)',
               },
             },
             {
@@ -224,10 +277,16 @@ export function registerAppHomeHandler(app: App) {
                 text:
                   '• `/qr-config` - Configure escalation settings\n' +
                   '• `/qr-targets` - Manage escalation targets (users, groups, channels)\n' +
+                  '• `/qr-hours` - Set business hours and holidays (`/qr-hours channel` for one channel)\n' +
+                  '• `/qr-oncall` - See who is on call and manage rotations\n' +
+                  '• `/qr-templates` - Edit the wording of escalation messages\n' +
+                  '• `/qr-backfill #channel 7d` - Track questions posted while the bot wasn\'t watching\n' +
+                  '• `/qr-detection` - Tune what counts as a question and test messages (`/qr-detection channel` for one channel, `/qr-detection report` for false positives)\n' +
                   '• `/qr-channel-config` - Override settings for specific channels\n' +
                   '• `/qr-channels` - List channels with custom settings\n' +
                   '• `/qr-setup` - Unified setup wizard for new workspaces\n' +
                   '• `/qr-test-escalation` - Test your escalation configuration\n' +
+                  '• `/qr-expertise` - Declare topics you can help with (admins: `/qr-expertise @user`)\n' +
                   '• `/qr-stats` - View question statistics\n' +
                   '• `/qr-status` - Check a specific question status',
               },
@@ -272,6 +331,7 @@ export function registerAppHomeHandler(app: App) {
                   },
                 ]
               : []),
+            ...claimBlocks,
             {
               type: 'header',
               text: {
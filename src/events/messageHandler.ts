@@ -4,26 +4,39 @@
  */
 import boltPkg from '@slack/bolt';
 import type { App } from '@slack/bolt';
-import { isQuestion } from '../services/questionDetector.js';
-import { storeQuestion, questionExists } from '../services/questionStorage.js';
-import { ensureWorkspace, ensureChannel, ensureUser } from '../utils/db.js';
+import { describeClassification } from '../services/questionDetector.js';
+import { getQuestionDetector } from '../services/questionClassifierService.js';
+import { storeQuestion, questionExists, findQuestionByMessageId } from '../services/questionStorage.js';
+import { ensureChannel, ensureUser } from '../utils/db.js';
 import { isZendeskMessage, extractZendeskTicketId, getZendeskBotUserId, extractAskerName } from '../services/zendeskDetector.js';
 import { prisma } from '../utils/db.js';
 import { sanitizeDisplayName, sanitizeMessageText } from '../utils/sanitize.js';
 import type { User } from '@prisma/client';
+import { getCachedWorkspace } from '../services/workspaceMetadataService.js';
+import {
+  findTrackedQuestion,
+  reconcileQuestionDeletion,
+  reconcileQuestionEdit,
+} from '../services/messageReconciliationService.js';
 
 export function registerMessageHandler(app: App) {
   // Handle regular channel messages
-  app.message(async ({ message, client, logger }) => {
+  app.message(async ({ message, client, context, logger }) => {
     try {
       logger.info(`Message received: ${JSON.stringify(message).substring(0, 200)}`);
 
+      // Edits and deletions of questions we already track
+      if (message.subtype === 'message_changed' || message.subtype === 'message_deleted') {
+        await handleMessageChange(message, client, context.teamId, logger);
+        return;
+      }
+
       // Check if this is a Zendesk side conversation
       const isZendesk = await isZendeskMessage(message, client);
 
       if (isZendesk && process.env.ZENDESK_INTEGRATION_ENABLED === 'true') {
         logger.info('Zendesk side conversation detected');
-        await handleZendeskSideConversation(message, client, logger);
+        await handleZendeskSideConversation(message, client, context.teamId, logger);
         return;
       }
 
@@ -39,32 +52,25 @@ export function registerMessageHandler(app: App) {
       const channelId = message.channel;
       const messageTs = message.ts;
       const threadTs = message.thread_ts;
+      const isThreadReply = !!threadTs && threadTs !== messageTs;
 
-      // Skip messages in threads (replies)
-      if (threadTs && threadTs !== messageTs) {
-        logger.info('Skipping threaded message (reply)');
-        return;
-      }
-
-      // Check if this is a question
-      if (!isQuestion(messageText)) {
+      const teamId = context.teamId;
+      if (!teamId) {
+        logger.error('Could not get team ID');
         return;
       }
 
-      logger.info(`Question detected: "${messageText.substring(0, 50)}..."`);
-
-      // Get team info
-      const teamInfo = await client.team.info();
-      const teamId = teamInfo.team?.id;
-      const teamName = teamInfo.team?.name;
+      // Ensure workspace exists - cached, as this runs for every message
+      const workspace = await getCachedWorkspace(client, teamId);
 
-      if (!teamId) {
-        logger.error('Could not get team ID');
+      // Score it with the workspace's classifier, threshold and the channel's detection rules (cached per channel)
+      const detection = (await getQuestionDetector(workspace.id, channelId)).detect(messageText, userId);
+      if (!detection.isQuestion) {
+        logger.info(`Not a question: ${describeClassification(detection)}`);
         return;
       }
 
-      // Ensure workspace exists
-      const workspace = await ensureWorkspace(teamId, teamName);
+      logger.info(`Question detected: "${messageText.substring(0, 50)}..." - ${describeClassification(detection)}`);
 
       // Get channel info
       const channelInfo = await client.conversations.info({
@@ -80,6 +86,15 @@ export function registerMessageHandler(app: App) {
         return;
       }
 
+      // Questions in the thread of a question we're still escalating are part of that conversation
+      if (isThreadReply) {
+        const parentQuestion = await findQuestionByMessageId(workspace.id, threadTs);
+        if (parentQuestion && (parentQuestion.status === 'unanswered' || parentQuestion.status === 'snoozed')) {
+          logger.info(`Skipping question in thread of open question ${parentQuestion.id}`);
+          return;
+        }
+      }
+
       // Get user info
       const userInfo = await client.users.info({
         user: userId,
@@ -105,6 +120,8 @@ export function registerMessageHandler(app: App) {
           slackThreadId: threadTs,
           messageText,
           askedAt: new Date(parseFloat(messageTs) * 1000),
+          detectionScore: detection.score,
+          detectionFeatures: detection.features,
         });
         logger.info(`Question stored with ID: ${question.id}`);
       } catch (error: any) {
@@ -136,6 +153,36 @@ export function registerMessageHandler(app: App) {
   });
 }
 
+/**
+ * Reconcile a tracked question with an edit or deletion of its Slack message
+ */
+async function handleMessageChange(event: any, client: any, teamId: string | undefined, logger: any) {
+  // Deleting a message that has thread replies leaves a tombstone - an edit, as far as events go
+  const isDeletion = event.subtype === 'message_deleted' || event.message?.subtype === 'tombstone';
+  const slackMessageId = event.subtype === 'message_deleted' ? event.deleted_ts : event.message?.ts;
+  if (!teamId || !slackMessageId) {
+    return;
+  }
+
+  const question = await findTrackedQuestion(teamId, event.channel, slackMessageId);
+  if (!question) {
+    return;
+  }
+
+  if (isDeletion) {
+    await reconcileQuestionDeletion(client, question);
+    logger.info(`Question ${question.id} closed - its message was deleted`);
+    return;
+  }
+
+  const action = await reconcileQuestionEdit(client, question, event.message?.text || '');
+  if (action === 'dismiss') {
+    logger.info(`Question ${question.id} dismissed - edited into something that isn't a question`);
+  } else if (action === 'update') {
+    logger.info(`Question ${question.id} text updated after edit`);
+  }
+}
+
 /**
  * Find a Slack user by their display name or real name
  * Uses fuzzy matching to handle variations
@@ -190,7 +237,7 @@ async function findSlackUserByName(
  * Handle Zendesk side conversation messages
  * Treats all side conversations as questions to track
  */
-async function handleZendeskSideConversation(message: any, client: any, logger: any) {
+async function handleZendeskSideConversation(message: any, client: any, teamId: string | undefined, logger: any) {
   try {
     // Ensure message has required fields
     if (!('text' in message) || !message.text) {
@@ -211,18 +258,13 @@ async function handleZendeskSideConversation(message: any, client: any, logger:
 
     logger.info(`Processing Zendesk side conversation: "${messageText.substring(0, 100)}..."`);
 
-    // Get team info
-    const teamInfo = await client.team.info();
-    const teamId = teamInfo.team?.id;
-    const teamName = teamInfo.team?.name;
-
     if (!teamId) {
       logger.error('Could not get team ID');
       return;
     }
 
     // Ensure workspace exists
-    const workspace = await ensureWorkspace(teamId, teamName);
+    const workspace = await getCachedWorkspace(client, teamId);
 
     // Get channel info
     const channelInfo = await client.conversations.info({
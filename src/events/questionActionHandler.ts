@@ -0,0 +1,211 @@
+/**
+ * Question Action Handler
+ * Handles the buttons on the bot's escalation posts and the "Question actions" message shortcut
+ */
+import type { App } from '@slack/bolt';
+import type { WebClient } from '@slack/web-api';
+import { ensureWorkspace, ensureUser } from '../utils/db.js';
+import { findQuestionByMessageId, findWorkspaceQuestion } from '../services/questionStorage.js';
+import {
+  QUESTION_ACTION_IDS,
+  applyStatusToBlocks,
+  buildActionableMessageBlocks,
+  claimFromAction,
+  dismissFromAction,
+  findQuestionIdInBlocks,
+  getSnoozeUntil,
+  isSnoozeChoice,
+  markAnsweredFromAction,
+  snoozeFromAction,
+  type QuestionActionResult,
+} from '../services/questionActions.js';
+import { resolveEscalationPosts } from '../services/escalationMessageService.js';
+
+const QUESTION_SHORTCUT_CALLBACK_ID = 'question_actions';
+
+/**
+ * Resolve the Slack team ID for an interaction payload
+ */
+function getTeamId(context: { teamId?: string }, body: any): string {
+  const teamId = context.teamId || body.team?.id || body.user?.team_id;
+  if (!teamId) {
+    throw new Error('Could not get team information');
+  }
+  return teamId;
+}
+
+/**
+ * Edit the message the action came from to show the question's new state
+ * Ephemeral messages (from the shortcut) can only be replaced through response_url
+ */
+async function updateSourceMessage(
+  client: WebClient,
+  body: any,
+  respond: (message: any) => Promise<unknown>,
+  result: QuestionActionResult
+) {
+  const message = body.message;
+  const blocks = applyStatusToBlocks(message?.blocks || [], result.statusText, result.resolved);
+
+  if (body.container?.is_ephemeral || !message) {
+    await respond({
+      replace_original: true,
+      text: result.statusText,
+      blocks,
+    });
+    return;
+  }
+
+  await client.chat.update({
+    channel: body.channel.id,
+    ts: message.ts,
+    text: message.text || result.statusText,
+    blocks,
+  });
+}
+
+async function sendActionError(client: WebClient, body: any, error: unknown, logger: any) {
+  try {
+    const text = `❌ ${error instanceof Error ? error.message : 'Unknown error'}`;
+    if (body.channel?.id) {
+      await client.chat.postEphemeral({
+        channel: body.channel.id,
+        user: body.user.id,
+        text,
+      });
+    } else {
+      await client.chat.postMessage({ channel: body.user.id, text });
+    }
+  } catch (ephemeralError) {
+    logger.error('Could not send ephemeral error message:', ephemeralError);
+  }
+}
+
+export function registerQuestionActionHandler(app: App) {
+  app.action(QUESTION_ACTION_IDS.MARK_ANSWERED, async ({ ack, body, action, client, context, respond, logger }) => {
+    await ack();
+
+    try {
+      const questionId = (action as any).value;
+      const workspace = await ensureWorkspace(getTeamId(context, body));
+
+      const userInfo = await client.users.info({ user: body.user.id });
+      const user = await ensureUser(workspace.id, body.user.id, {
+        displayName: userInfo.user?.profile?.display_name || userInfo.user?.name,
+        realName: userInfo.user?.profile?.real_name,
+      });
+
+      const result = await markAnsweredFromAction(workspace.id, questionId, user.id, body.user.id);
+      await updateSourceMessage(client, body, respond, result);
+      await resolveEscalationPosts(client, questionId);
+      console.log(`✅ Question ${questionId} marked answered by ${body.user.id} (button)`);
+    } catch (error) {
+      logger.error('Error marking question answered:', error);
+      await sendActionError(client, body, error, logger);
+    }
+  });
+
+  app.action(QUESTION_ACTION_IDS.SNOOZE, async ({ ack, body, action, client, context, respond, logger }) => {
+    await ack();
+
+    try {
+      const [questionId, choice] = ((action as any).selected_option?.value || '').split(':');
+      if (!questionId || !isSnoozeChoice(choice)) {
+        throw new Error('Unknown snooze option');
+      }
+
+      // "Tomorrow" means tomorrow morning for the person snoozing
+      let tzOffset = 0;
+      if (choice === 'tomorrow') {
+        const userInfo = await client.users.info({ user: body.user.id });
+        tzOffset = userInfo.user?.tz_offset || 0;
+      }
+
+      const workspace = await ensureWorkspace(getTeamId(context, body));
+      const snoozedUntil = getSnoozeUntil(choice, new Date(), tzOffset);
+      const result = await snoozeFromAction(workspace.id, questionId, body.user.id, snoozedUntil);
+      await updateSourceMessage(client, body, respond, result);
+      console.log(`🔕 Question ${questionId} snoozed until ${snoozedUntil.toISOString()} by ${body.user.id}`);
+    } catch (error) {
+      logger.error('Error snoozing question:', error);
+      await sendActionError(client, body, error, logger);
+    }
+  });
+
+  app.action(QUESTION_ACTION_IDS.DISMISS, async ({ ack, body, action, client, context, respond, logger }) => {
+    await ack();
+
+    try {
+      const questionId = (action as any).value;
+      const workspace = await ensureWorkspace(getTeamId(context, body));
+      const result = await dismissFromAction(workspace.id, questionId, body.user.id);
+      await updateSourceMessage(client, body, respond, result);
+      await resolveEscalationPosts(client, questionId);
+      console.log(`🚫 Question ${questionId} dismissed by ${body.user.id} (button)`);
+    } catch (error) {
+      logger.error('Error dismissing question:', error);
+      await sendActionError(client, body, error, logger);
+    }
+  });
+
+  app.action(QUESTION_ACTION_IDS.CLAIM, async ({ ack, body, action, client, context, respond, logger }) => {
+    await ack();
+
+    try {
+      const questionId = (action as any).value;
+      const workspace = await ensureWorkspace(getTeamId(context, body));
+      const user = await ensureUser(workspace.id, body.user.id);
+
+      const result = await claimFromAction(workspace.id, questionId, user.id, body.user.id);
+      await updateSourceMessage(client, body, respond, result);
+      console.log(`🙋 Question ${questionId} claimed by ${body.user.id}`);
+    } catch (error) {
+      logger.error('Error claiming question:', error);
+      await sendActionError(client, body, error, logger);
+    }
+  });
+
+  // Message shortcut: works on the question itself, a reply in its thread, or a bot escalation post
+  app.shortcut(QUESTION_SHORTCUT_CALLBACK_ID, async ({ ack, shortcut, client, context, logger }) => {
+    await ack();
+
+    if (shortcut.type !== 'message_action') {
+      return;
+    }
+
+    try {
+      const workspace = await ensureWorkspace(getTeamId(context, shortcut));
+      const message = shortcut.message as any;
+
+      // Blocks can be posted by anyone, so an ID found in them must belong to this workspace
+      const blockQuestionId = findQuestionIdInBlocks(message.blocks);
+      let questionId = blockQuestionId && (await findWorkspaceQuestion(workspace.id, blockQuestionId)) ? blockQuestionId : null;
+      if (!questionId) {
+        const question =
+          (await findQuestionByMessageId(workspace.id, message.ts)) ||
+          (message.thread_ts ? await findQuestionByMessageId(workspace.id, message.thread_ts) : null);
+        questionId = question?.id || null;
+      }
+
+      if (!questionId) {
+        await client.chat.postEphemeral({
+          channel: shortcut.channel.id,
+          user: shortcut.user.id,
+          text: "🤷 This message isn't a tracked question.",
+        });
+        return;
+      }
+
+      await client.chat.postEphemeral({
+        channel: shortcut.channel.id,
+        user: shortcut.user.id,
+        thread_ts: message.thread_ts,
+        text: 'What would you like to do with this question?',
+        blocks: buildActionableMessageBlocks('What would you like to do with this question?', questionId),
+      });
+    } catch (error) {
+      logger.error('Error handling question shortcut:', error);
+      await sendActionError(client, shortcut, error, logger);
+    }
+  });
+}
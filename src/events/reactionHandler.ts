@@ -4,11 +4,19 @@
  */
 import boltPkg from '@slack/bolt';
 import type { App } from '@slack/bolt';
-import { findQuestionByMessageId, markQuestionAnswered } from '../services/questionStorage.js';
-import { ensureWorkspace, ensureUser, prisma } from '../utils/db.js';
+import {
+  findOpenThreadQuestion,
+  findQuestionByMessageId,
+  markQuestionAnswered,
+  markQuestionDismissed,
+} from '../services/questionStorage.js';
+import { resolveEscalationPosts } from '../services/escalationMessageService.js';
+import { ensureWorkspace, ensureUser } from '../utils/db.js';
+import { snoozeQuestion, getDefaultSnoozeMinutes, formatSnoozeDuration } from '../services/snoozeService.js';
+import { QUESTION_REACTIONS } from '../utils/constants.js';
 
 export function registerReactionHandler(app: App) {
-  app.event('reaction_added', async ({ event, client, logger }) => {
+  app.event('reaction_added', async ({ event, client, context, logger }) => {
     try {
       const { reaction, user, item } = event;
 
@@ -20,10 +28,7 @@ export function registerReactionHandler(app: App) {
       const channelId = item.channel;
       const messageTs = item.ts;
 
-      // Get team info
-      const teamInfo = await client.team.info();
-      const teamId = teamInfo.team?.id;
-
+      const teamId = context.teamId;
       if (!teamId) {
         return;
       }
@@ -49,8 +54,11 @@ export function registerReactionHandler(app: App) {
 
           const message = messageResult.messages?.[0];
           if (message && message.thread_ts && message.thread_ts !== messageTs) {
-            // This is a threaded reply, look for question by thread_ts
-            question = await findQuestionByMessageId(workspace.id, message.thread_ts);
+            // This is a threaded reply - it may answer a follow-up the reactor asked in the thread,
+            // otherwise look for question by thread_ts
+            question =
+              (await findOpenThreadQuestion(workspace.id, message.thread_ts, user, new Date(parseFloat(messageTs) * 1000))) ??
+              (await findQuestionByMessageId(workspace.id, message.thread_ts));
             if (question) {
               isThreadReply = true;
               replyMessageTs = messageTs;
@@ -72,9 +80,7 @@ export function registerReactionHandler(app: App) {
       }
 
       // Handle answer marking reactions (✅, 🎯, 🙏)
-      const answerReactions = ['white_check_mark', 'heavy_check_mark', 'ballot_box_with_check', 'dart', 'pray'];
-
-      if (answerReactions.includes(reaction)) {
+      if (QUESTION_REACTIONS.ANSWER.includes(reaction)) {
         // Check if this is a thread reply
         if (isThreadReply && replyMessageTs) {
           // Thread reply - only allow asker to mark
@@ -128,6 +134,7 @@ export function registerReactionHandler(app: App) {
 
             // Mark as answered with the reply author and message ID
             await markQuestionAnswered(question.id, answerUser.id, replyMessageTs);
+            await resolveEscalationPosts(client, question.id);
             logger.info(`Question ${question.id} marked as answered by ${replyAuthorId} (thread reply)`);
           } catch (error) {
             logger.error('Error processing thread reply answer:', error);
@@ -142,6 +149,7 @@ export function registerReactionHandler(app: App) {
           const answerUser = await ensureUser(workspace.id, user, userData);
 
           await markQuestionAnswered(question.id, answerUser.id);
+          await resolveEscalationPosts(client, question.id);
           logger.info(`Question ${question.id} marked as answered by user ${user} (original message)`);
         }
         return;
@@ -153,24 +161,18 @@ export function registerReactionHandler(app: App) {
         case 'no_entry':
         case 'no_entry_sign':
           // Dismiss as not a real question
-          await prisma.question.update({
-            where: { id: question.id },
-            data: { status: 'dismissed' },
-          });
+          await markQuestionDismissed(question.id);
+          await resolveEscalationPosts(client, question.id);
           logger.info(`Question ${question.id} dismissed`);
           break;
 
-        case 'no_bell':
-          // Snooze for 1 hour
-          await prisma.question.update({
-            where: { id: question.id },
-            data: {
-              status: 'snoozed',
-              lastEscalatedAt: new Date(),
-            },
-          });
-          logger.info(`Question ${question.id} snoozed for 1 hour`);
+        case 'no_bell': {
+          // Snooze for the workspace's default duration; the escalation engine wakes it up
+          const snoozeMinutes = await getDefaultSnoozeMinutes(workspace.id);
+          await snoozeQuestion(question.id, snoozeMinutes);
+          logger.info(`Question ${question.id} snoozed for ${formatSnoozeDuration(snoozeMinutes)}`);
           break;
+        }
       }
 
     } catch (error) {
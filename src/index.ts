@@ -8,16 +8,26 @@ import dotenv from 'dotenv';
 import { registerMessageHandler } from './events/messageHandler.js';
 import { registerReactionHandler } from './events/reactionHandler.js';
 import { registerAppHomeHandler } from './events/appHome.js';
+import { registerQuestionActionHandler } from './events/questionActionHandler.js';
 import { registerStatsCommand } from './commands/statsCommand.js';
 import { registerConfigCommand } from './commands/configCommand.js';
 import { registerTargetsCommand } from './commands/targetsCommand.js';
 import { registerTestEscalationCommand } from './commands/testEscalationCommand.js';
 import { registerSetupCommand } from './commands/setupCommand.js';
 import { registerChannelConfigCommand } from './commands/channelConfigCommand.js';
+import { registerExpertiseCommand } from './commands/expertiseCommand.js';
+import { registerBusinessHoursCommand } from './commands/businessHoursCommand.js';
+import { registerOnCallCommand } from './commands/onCallCommand.js';
+import { registerTemplatesCommand } from './commands/templatesCommand.js';
+import { registerBackfillCommand } from './commands/backfillCommand.js';
+import { registerDetectionCommand } from './commands/detectionCommand.js';
 import { registerDeleteDataCommand, registerExportDataCommand } from './commands/deleteDataCommand.js';
 import { disconnectDb } from './utils/db.js';
 import { startEscalationEngine, stopEscalationEngine } from './services/escalationEngine.js';
 import { startDataCleanupSchedule, stopDataCleanupSchedule } from './services/dataCleanup.js';
+import { runAsLeader, stopLeaderElection } from './services/leaderElection.js';
+import { getLeadershipHealth } from './services/healthCheck.js';
+import { LEADER_ELECTION } from './utils/constants.js';
 import { validateEnv } from './utils/env.js';
 import { logger } from './utils/logger.js';
 import { installationStore } from './oauth/installer.js';
@@ -161,7 +171,8 @@ receiver.router.get('/health', async (req: any, res: any) => {
   res.json({
     status: 'ok',
     timestamp: new Date().toISOString(),
-    uptime: process.uptime()
+    uptime: process.uptime(),
+    leadership: getLeadershipHealth(),
   });
 });
 
@@ -182,6 +193,7 @@ logger.info('Registering event handlers and commands...');
 registerMessageHandler(app);
 registerReactionHandler(app);
 registerAppHomeHandler(app);
+registerQuestionActionHandler(app);
 
 // Register commands
 registerSetupCommand(app);
@@ -190,6 +202,12 @@ registerConfigCommand(app);
 registerTargetsCommand(app);
 registerTestEscalationCommand(app);
 registerChannelConfigCommand(app);
+registerExpertiseCommand(app);
+registerBusinessHoursCommand(app);
+registerOnCallCommand(app);
+registerTemplatesCommand(app);
+registerBackfillCommand(app);
+registerDetectionCommand(app);
 
 // Register data privacy commands (GDPR compliance)
 registerDeleteDataCommand(app);
@@ -221,16 +239,14 @@ app.command('/qr-test', async ({ command, ack, respond, client, logger }: any) =
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully...');
-  stopEscalationEngine();
-  stopDataCleanupSchedule();
+  await stopLeaderElection();
   await disconnectDb();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully...');
-  stopEscalationEngine();
-  stopDataCleanupSchedule();
+  await stopLeaderElection();
   await disconnectDb();
   process.exit(0);
 });
@@ -248,8 +264,7 @@ process.on('uncaughtException', async (error) => {
   logger.error('Uncaught Exception - initiating shutdown', error);
   // This is serious - attempt graceful shutdown
   try {
-    stopEscalationEngine();
-    stopDataCleanupSchedule();
+    await stopLeaderElection();
     await disconnectDb();
   } catch (shutdownError) {
     logger.error('Error during emergency shutdown', shutdownError as Error);
@@ -286,11 +301,17 @@ process.on('uncaughtException', async (error) => {
       events: `http://localhost:${port}/slack/events`,
     });
 
-    // Start escalation engine
-    startEscalationEngine(app);
+    // Periodic jobs run on one instance at a time - whichever holds each job's lease
+    runAsLeader(LEADER_ELECTION.ESCALATION_ENGINE_LEASE, {
+      start: () => startEscalationEngine(app),
+      stop: stopEscalationEngine,
+    });
 
-    // Start data cleanup schedule (GDPR compliance)
-    startDataCleanupSchedule();
+    // Data cleanup schedule (GDPR compliance)
+    runAsLeader(LEADER_ELECTION.DATA_CLEANUP_LEASE, {
+      start: startDataCleanupSchedule,
+      stop: stopDataCleanupSchedule,
+    });
 
     logger.info('All systems ready - awaiting events');
   } catch (error) {
@@ -7,6 +7,7 @@ import { Installation, InstallationQuery } from '@slack/oauth';
 import { Prisma } from '@prisma/client';
 import { prisma } from '../utils/db.js';
 import { logger } from '../utils/logger.js';
+import { invalidateWorkspaceMetadata } from '../services/workspaceMetadataService.js';
 
 /**
  * Installation store for use with ExpressReceiver
@@ -72,6 +73,11 @@ export const installationStore = {
         });
       }
 
+      // A reinstall can change the bot user and scopes - drop anything cached under the old one
+      if (teamId) {
+        invalidateWorkspaceMetadata(teamId);
+      }
+
       logger.info('Successfully stored Slack installation', {
         teamId,
         enterpriseId,
@@ -159,6 +165,10 @@ export const installationStore = {
         });
       }
 
+      if (teamId) {
+        invalidateWorkspaceMetadata(teamId);
+      }
+
       logger.info('Successfully deleted installation', {
         teamId,
         enterpriseId,
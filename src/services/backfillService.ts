@@ -0,0 +1,348 @@
+/**
+ * Backfill Service
+ * Finds questions posted while the bot wasn't watching a channel - before it was invited, or during downtime
+ *
+ * Pages back through conversations.history, stores any question that isn't tracked yet with its real
+ * askedAt, and checks its thread and reactions first so questions that were already handled don't escalate.
+ * Questions still open start their escalation clock at the backfill, so an old one doesn't run the
+ * whole ladder at once.
+ */
+import type { WebClient } from '@slack/web-api';
+import { prisma, ensureUser } from '../utils/db.js';
+import { logger } from '../utils/logger.js';
+import { BACKFILL, ESCALATION_LEVEL, QUESTION_REACTIONS } from '../utils/constants.js';
+import { getQuestionDetector, type QuestionDetection } from './questionClassifierService.js';
+import { markQuestionAnswered, markQuestionDismissed, storeQuestion } from './questionStorage.js';
+import { scheduleEscalationJob } from './escalationJobService.js';
+import type { AnswerDetectionMode } from './configService.js';
+
+export interface BackfillRequest {
+  channelId: string; // Slack channel ID
+  hours: number; // How far back to look
+}
+
+export interface BackfillProgress {
+  messagesScanned: number;
+  questionsFound: number;
+  alreadyTracked: number;
+  answered: number;
+  dismissed: number;
+  paused: number; // Had replies in a hybrid-mode channel, so won't escalate
+  open: number; // Stored unanswered - these enter the escalation ladder now
+}
+
+/**
+ * What a backfilled question's thread and reactions say happened to it
+ */
+export type BackfillOutcome =
+  | { status: 'answered'; answererSlackId: string; answerTs?: string }
+  | { status: 'dismissed' }
+  | { status: 'paused' }
+  | { status: 'open' };
+
+interface SlackMessage {
+  ts?: string;
+  user?: string;
+  bot_id?: string;
+  reactions?: { name?: string; users?: string[] }[];
+}
+
+/**
+ * Parse `/qr-backfill [#channel] [7d|12h]`
+ * @param defaultChannelId - Channel the command was run in, used when none is given
+ */
+export function parseBackfillArgs(text: string, defaultChannelId: string): BackfillRequest | { error: string } {
+  let channelId = defaultChannelId;
+  let hours = BACKFILL.DEFAULT_DAYS * 24;
+
+  for (const token of text.trim().split(/\s+/).filter(Boolean)) {
+    const channel = token.match(/^<#([A-Z0-9]+)(\|[^>]*)?>$/i);
+    const period = token.match(/^(\d+)([dh])$/i);
+
+    if (channel) {
+      channelId = channel[1];
+    } else if (period) {
+      const amount = parseInt(period[1], 10);
+      hours = period[2].toLowerCase() === 'd' ? amount * 24 : amount;
+    } else {
+      return { error: `Didn't understand "${token}". Usage: \`/qr-backfill #channel 7d\` (or \`12h\`)` };
+    }
+  }
+
+  if (hours < 1) {
+    return { error: 'The period must be at least 1 hour' };
+  }
+  if (hours > BACKFILL.MAX_DAYS * 24) {
+    return { error: `Backfill can look back at most ${BACKFILL.MAX_DAYS} days` };
+  }
+
+  return { channelId, hours };
+}
+
+/**
+ * Human-readable period, e.g. "7 days" or "12 hours"
+ */
+export function formatBackfillPeriod(hours: number): string {
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+function hasReaction(message: SlackMessage, names: string[], byUser?: string): string | null {
+  for (const reaction of message.reactions || []) {
+    if (!reaction.name || !names.includes(reaction.name)) continue;
+    const users = reaction.users || [];
+    if (!byUser) return users[0] ?? null;
+    if (users.includes(byUser)) return byUser;
+  }
+  return null;
+}
+
+/**
+ * When a backfilled question's escalation clock starts
+ * Open questions start now - measured from askedAt, every level of a days-old question would already be
+ * due and fire at once. Handled questions never escalate, so they keep the default (askedAt).
+ */
+export function getBackfillEscalationStart(outcome: BackfillOutcome, now: Date = new Date()): Date | undefined {
+  return outcome.status === 'open' ? now : undefined;
+}
+
+/**
+ * Work out what already happened to a question from its reactions and thread replies,
+ * applying the same rules the reaction handler and escalation engine would have live
+ * @param replies - Thread messages (the parent may be included; it's ignored)
+ */
+export function findExistingOutcome(
+  question: SlackMessage,
+  replies: SlackMessage[],
+  botUserId: string | null,
+  answerDetectionMode: AnswerDetectionMode
+): BackfillOutcome {
+  if (hasReaction(question, QUESTION_REACTIONS.DISMISS)) {
+    return { status: 'dismissed' };
+  }
+
+  const humanReplies = replies.filter(
+    (reply) => reply.ts && reply.ts !== question.ts && reply.user && reply.user !== botUserId && !reply.bot_id
+  );
+
+  // The asker ticked someone's reply
+  const accepted = humanReplies.find(
+    (reply) => reply.user !== question.user && hasReaction(reply, QUESTION_REACTIONS.ANSWER, question.user)
+  );
+  if (accepted) {
+    return { status: 'answered', answererSlackId: accepted.user!, answerTs: accepted.ts };
+  }
+
+  // Anyone ticked the question itself
+  const reactor = hasReaction(question, QUESTION_REACTIONS.ANSWER);
+  if (reactor) {
+    return { status: 'answered', answererSlackId: reactor };
+  }
+
+  if (humanReplies.length > 0) {
+    if (answerDetectionMode === 'thread_auto') {
+      return { status: 'answered', answererSlackId: humanReplies[0].user!, answerTs: humanReplies[0].ts };
+    }
+    if (answerDetectionMode === 'hybrid') {
+      return { status: 'paused' };
+    }
+  }
+
+  return { status: 'open' };
+}
+
+/**
+ * Scan a channel's recent history and track the questions it missed
+ * @param onProgress - Called after each page of history
+ */
+export async function backfillChannel(
+  client: WebClient,
+  options: {
+    workspaceId: string;
+    channel: { id: string; slackChannelId: string };
+    hours: number;
+    botUserId: string | null;
+    answerDetectionMode: AnswerDetectionMode;
+  },
+  onProgress?: (progress: BackfillProgress) => Promise<void>
+): Promise<BackfillProgress> {
+  const { workspaceId, channel } = options;
+  const oldest = (Date.now() - options.hours * 3600000) / 1000;
+  const progress: BackfillProgress = {
+    messagesScanned: 0,
+    questionsFound: 0,
+    alreadyTracked: 0,
+    answered: 0,
+    dismissed: 0,
+    paused: 0,
+    open: 0,
+  };
+
+  // Each asker/answerer is looked up once per run
+  const users = new Map<string, Promise<{ id: string }>>();
+  const getUser = (slackUserId: string) => {
+    if (!users.has(slackUserId)) {
+      users.set(
+        slackUserId,
+        client.users.info({ user: slackUserId }).then((info) =>
+          ensureUser(workspaceId, slackUserId, {
+            displayName: info.user?.profile?.display_name || info.user?.name,
+            realName: info.user?.profile?.real_name,
+          })
+        )
+      );
+    }
+    return users.get(slackUserId)!;
+  };
+
+  const detector = await getQuestionDetector(workspaceId, channel.slackChannelId);
+
+  let cursor: string | undefined;
+  do {
+    const page = await client.conversations.history({
+      channel: channel.slackChannelId,
+      oldest: oldest.toFixed(6),
+      limit: BACKFILL.PAGE_SIZE,
+      cursor,
+    });
+    const messages = page.messages || [];
+    progress.messagesScanned += messages.length;
+
+    // Top-level messages from people that read as questions
+    const detections = new Map<string, QuestionDetection>();
+    const candidates = messages.filter((m) => {
+      if (m.subtype || m.bot_id || !m.user || !m.ts || !m.text || (m.thread_ts && m.thread_ts !== m.ts)) {
+        return false;
+      }
+      const detection = detector.detect(m.text, m.user);
+      detections.set(m.ts, detection);
+      return detection.isQuestion;
+    });
+    progress.questionsFound += candidates.length;
+
+    const tracked = await prisma.question.findMany({
+      where: { workspaceId, slackMessageId: { in: candidates.map((m) => m.ts!) } },
+      select: { slackMessageId: true },
+    });
+    const trackedTs = new Set(tracked.map((q) => q.slackMessageId));
+
+    for (const message of candidates) {
+      if (trackedTs.has(message.ts!)) {
+        progress.alreadyTracked++;
+        continue;
+      }
+
+      let replies: SlackMessage[] = [];
+      if ((message.reply_count ?? 0) > 0) {
+        const thread = await client.conversations.replies({
+          channel: channel.slackChannelId,
+          ts: message.ts!,
+          limit: BACKFILL.MAX_REPLIES_CHECKED,
+        });
+        replies = thread.messages || [];
+      }
+      const outcome = findExistingOutcome(message, replies, options.botUserId, options.answerDetectionMode);
+
+      const asker = await getUser(message.user!);
+      let question;
+      try {
+        question = await storeQuestion({
+          workspaceId,
+          channelId: channel.id,
+          askerId: asker.id,
+          slackMessageId: message.ts!,
+          messageText: message.text!,
+          askedAt: new Date(parseFloat(message.ts!) * 1000),
+          detectionScore: detections.get(message.ts!)!.score,
+          detectionFeatures: detections.get(message.ts!)!.features,
+          escalationStartedAt: getBackfillEscalationStart(outcome),
+          scheduleEscalation: false,
+        });
+      } catch (error: any) {
+        // The live message handler got there first
+        if (error?.code === 'P2002') {
+          progress.alreadyTracked++;
+          continue;
+        }
+        throw error;
+      }
+
+      switch (outcome.status) {
+        case 'answered': {
+          const answerer = await getUser(outcome.answererSlackId);
+          await markQuestionAnswered(
+            question.id,
+            answerer.id,
+            outcome.answerTs,
+            // A ticked question has no reply time to go by, so it's dated now
+            outcome.answerTs ? new Date(parseFloat(outcome.answerTs) * 1000) : undefined
+          );
+          progress.answered++;
+          break;
+        }
+        case 'dismissed':
+          await markQuestionDismissed(question.id);
+          progress.dismissed++;
+          break;
+        case 'paused':
+          await prisma.question.update({ where: { id: question.id }, data: { escalationLevel: ESCALATION_LEVEL.PAUSED } });
+          progress.paused++;
+          break;
+        case 'open':
+          await scheduleEscalationJob(question.id, workspaceId);
+          try {
+            await client.reactions.add({ channel: channel.slackChannelId, timestamp: message.ts!, name: 'question' });
+          } catch (error) {
+            // Already reacted, or missing scope - the question is tracked either way
+            logger.warn('Could not add reaction to backfilled question', {
+              questionId: question.id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+          progress.open++;
+          break;
+      }
+    }
+
+    cursor = page.response_metadata?.next_cursor || undefined;
+    if (onProgress) {
+      await onProgress(progress);
+    }
+  } while (cursor);
+
+  logger.info('Channel backfill complete', { workspaceId, channelId: channel.slackChannelId, hours: options.hours, ...progress });
+  return progress;
+}
+
+/**
+ * Ephemeral status line for a backfill, updated as pages are scanned
+ */
+export function formatBackfillProgress(
+  channelId: string,
+  hours: number,
+  progress: BackfillProgress,
+  done: boolean
+): string {
+  const stored = progress.answered + progress.dismissed + progress.paused + progress.open;
+  const header = done
+    ? `✅ *Backfill of <#${channelId}> complete* (last ${formatBackfillPeriod(hours)})`
+    : `⏳ *Backfilling <#${channelId}>* (last ${formatBackfillPeriod(hours)})...`;
+
+  const lines = [
+    header,
+    '',
+    `• Messages scanned: ${progress.messagesScanned}`,
+    `• Questions found: ${progress.questionsFound} (${progress.alreadyTracked} already tracked)`,
+    `• Newly tracked: ${stored}`,
+  ];
+  if (stored > 0) {
+    lines.push(`    ✅ ${progress.answered} already answered  •  🚫 ${progress.dismissed} dismissed  •  💬 ${progress.paused} with replies  •  ❓ ${progress.open} open`);
+  }
+  if (done && progress.open > 0) {
+    lines.push('', `The ${progress.open} open question${progress.open === 1 ? '' : 's'} now follow${progress.open === 1 ? 's' : ''} the channel's escalation ladder.`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,251 @@
+/**
+ * Business Hours Service
+ * Working-time calendars (timezone, working days, daily window, holidays)
+ * so escalation clocks only count working time
+ */
+
+// A type alias (not an interface) so calendars can be stored in Prisma Json columns
+export type BusinessHours = {
+  enabled: boolean; // false = always on (24/7)
+  timezone: string; // IANA name, e.g. "America/New_York"
+  workDays: number[]; // 0 = Sunday ... 6 = Saturday
+  startTime: string; // "HH:MM" in the calendar's timezone
+  endTime: string; // "HH:MM", later than startTime
+  holidays: string[]; // "YYYY-MM-DD" dates in the calendar's timezone
+};
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  enabled: false,
+  timezone: 'UTC',
+  workDays: [1, 2, 3, 4, 5],
+  startTime: '09:00',
+  endTime: '17:00',
+  holidays: [],
+};
+
+// Safety cap when walking the calendar (a calendar with no working days never finds a window)
+const MAX_DAYS_TO_SCAN = 366;
+
+export interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseTime(time: string): { hour: number; minute: number } {
+  const [hour, minute] = time.split(':').map((p) => parseInt(p, 10));
+  return { hour, minute };
+}
+
+/**
+ * A local date as YYYY-MM-DD
+ */
+export function formatDateKey({ year, month, day }: LocalDate): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Formatters are expensive to create and the engine asks for the same few timezones every tick
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock parts of an instant in a timezone
+ */
+export function getZonedParts(date: Date, timezone: string) {
+  const parts = getFormatter(timezone).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '0';
+  return {
+    year: parseInt(get('year'), 10),
+    month: parseInt(get('month'), 10),
+    day: parseInt(get('day'), 10),
+    hour: parseInt(get('hour'), 10),
+    minute: parseInt(get('minute'), 10),
+    second: parseInt(get('second'), 10),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a local wall-clock time happens in a timezone (DST-aware)
+ */
+export function zonedTimeToUtc(local: LocalDate, hour: number, minute: number, timezone: string): Date {
+  const guess = Date.UTC(local.year, local.month - 1, local.day, hour, minute);
+  let result = guess - getTimezoneOffsetMs(new Date(guess), timezone);
+  // Re-check once in case the guess and the result straddle a DST change
+  result = guess - getTimezoneOffsetMs(new Date(result), timezone);
+  return new Date(result);
+}
+
+export function addDays(local: LocalDate, days: number): LocalDate {
+  const d = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+/**
+ * Working window for a local date, or null on non-working days and holidays
+ */
+function getWorkingWindow(local: LocalDate, hours: BusinessHours): { start: Date; end: Date } | null {
+  const weekday = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+  if (!hours.workDays.includes(weekday)) return null;
+  if (hours.holidays.includes(formatDateKey(local))) return null;
+
+  const start = parseTime(hours.startTime);
+  const end = parseTime(hours.endTime);
+  return {
+    start: zonedTimeToUtc(local, start.hour, start.minute, hours.timezone),
+    end: zonedTimeToUtc(local, end.hour, end.minute, hours.timezone),
+  };
+}
+
+function toLocalDate(date: Date, timezone: string): LocalDate {
+  const p = getZonedParts(date, timezone);
+  return { year: p.year, month: p.month, day: p.day };
+}
+
+/**
+ * Whether an instant falls inside working hours
+ * Calendars that are switched off (or missing) count every moment as working time
+ */
+export function isWorkingTime(date: Date, hours: BusinessHours | null): boolean {
+  if (!hours?.enabled) return true;
+
+  const window = getWorkingWindow(toLocalDate(date, hours.timezone), hours);
+  return !!window && date >= window.start && date < window.end;
+}
+
+/**
+ * Working time elapsed between two instants, in milliseconds
+ */
+export function getWorkingTimeBetween(start: Date, end: Date, hours: BusinessHours | null): number {
+  if (end <= start) return 0;
+  if (!hours?.enabled) return end.getTime() - start.getTime();
+
+  let total = 0;
+  let local = toLocalDate(start, hours.timezone);
+
+  for (let i = 0; i < MAX_DAYS_TO_SCAN; i++) {
+    const window = getWorkingWindow(local, hours);
+    if (window) {
+      if (window.start >= end) break;
+      const from = Math.max(window.start.getTime(), start.getTime());
+      const to = Math.min(window.end.getTime(), end.getTime());
+      if (to > from) total += to - from;
+    } else if (zonedTimeToUtc(local, 0, 0, hours.timezone) >= end) {
+      break;
+    }
+    local = addDays(local, 1);
+  }
+
+  return total;
+}
+
+/**
+ * Start of the next working window at or after an instant
+ * @returns The instant itself during working hours, or null if the calendar has no working time
+ */
+export function getNextWorkingTime(date: Date, hours: BusinessHours | null): Date | null {
+  if (!hours?.enabled || isWorkingTime(date, hours)) return date;
+
+  let local = toLocalDate(date, hours.timezone);
+  for (let i = 0; i < MAX_DAYS_TO_SCAN; i++) {
+    const window = getWorkingWindow(local, hours);
+    if (window && window.start >= date) return window.start;
+    local = addDays(local, 1);
+  }
+
+  return null;
+}
+
+/**
+ * Check a calendar is usable
+ * @returns Error message, or null if the calendar is valid
+ */
+export function validateBusinessHours(hours: BusinessHours): string | null {
+  if (!isValidTimezone(hours.timezone)) {
+    return `Unknown timezone "${hours.timezone}" - use a name like America/New_York`;
+  }
+  if (hours.enabled && hours.workDays.length === 0) {
+    return 'Choose at least one working day';
+  }
+  const validTime = /^([01]\d|2[0-3]):[0-5]\d$/;
+  if (!validTime.test(hours.startTime) || !validTime.test(hours.endTime)) {
+    return 'Start and end times must be HH:MM, from 00:00 to 23:59';
+  }
+  if (hours.endTime <= hours.startTime) {
+    return 'The working day must end after it starts';
+  }
+  return null;
+}
+
+/**
+ * Parse a holiday list with one YYYY-MM-DD date per line (commas also work)
+ * @returns Sorted unique dates, or an error message naming the first bad entry
+ */
+export function parseHolidays(text: string): { holidays?: string[]; error?: string } {
+  const entries = text.split(/[\n,]+/).map((e) => e.trim()).filter((e) => e.length > 0);
+
+  for (const entry of entries) {
+    const match = entry.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    const date = match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])) : null;
+    if (!date || formatDateKey({ year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() }) !== entry) {
+      return { error: `"${entry}" is not a valid date - use YYYY-MM-DD` };
+    }
+  }
+
+  return { holidays: [...new Set(entries)].sort() };
+}
+
+/**
+ * One-line summary, e.g. "Mon-Fri 09:00-17:00 America/New_York (2 holidays)"
+ */
+export function describeBusinessHours(hours: BusinessHours | null): string {
+  if (!hours?.enabled) return 'Always on (24/7)';
+
+  const names = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const days = [...hours.workDays].sort((a, b) => a - b);
+  const isRun = days.every((d, i) => i === 0 || d === days[i - 1] + 1);
+  const dayText = days.length > 2 && isRun
+    ? `${names[days[0]]}-${names[days[days.length - 1]]}`
+    : days.map((d) => names[d]).join(', ');
+
+  const holidayText = hours.holidays.length > 0
+    ? ` (${hours.holidays.length} holiday${hours.holidays.length !== 1 ? 's' : ''})`
+    : '';
+
+  return `${dayText} ${hours.startTime}-${hours.endTime} ${hours.timezone}${holidayText}`;
+}
@@ -3,7 +3,11 @@
  * Manages per-channel settings that override workspace defaults
  */
 import { prisma } from '../utils/db.js';
-import { AnswerDetectionMode } from './configService.js';
+import { AnswerDetectionMode, type WorkspaceConfigData } from './configService.js';
+import { buildLegacyLadder, getWorkspaceLadder, type EscalationLadderLevel } from './escalationLadderService.js';
+import type { BusinessHours } from './businessHoursService.js';
+import type { DetectionRules } from './detectionRulesService.js';
+import type { DetectionTuning } from './detectionFeedbackService.js';
 
 export interface ChannelSettings {
   // Override workspace escalation timings
@@ -11,15 +15,57 @@ export interface ChannelSettings {
   secondEscalationMinutes?: number;
   finalEscalationMinutes?: number;
 
+  // Override the whole escalation ladder (takes precedence over the timings above)
+  escalationLadder?: EscalationLadderLevel[];
+
   // Override answer detection mode
   answerDetectionMode?: AnswerDetectionMode;
 
+  // Override grace period: escalation waits until the thread and question
+  // have been quiet this long (0 = never defer)
+  gracePeriodMinutes?: number;
+
+  // Override the workspace business-hours calendar (enabled: false = 24/7 for this channel)
+  businessHours?: BusinessHours;
+
   // Enable/disable escalation for this channel
   escalationEnabled?: boolean;
 
-  // Override escalation targets for this channel
+  // Use this channel's own escalation targets (EscalationTarget rows with this channelId)
   useCustomTargets?: boolean;
-  customTargetIds?: string[]; // IDs of EscalationTarget records specific to this channel
+  // 'override': at levels where the channel has targets, only they are notified
+  // 'extend': channel targets are notified alongside the workspace targets
+  customTargetMode?: CustomTargetMode;
+
+  // Override individual question detection rules (missing fields use the workspace's)
+  detectionRules?: DetectionRules;
+
+  // Threshold and phrase penalties learned from dismissals - written by the daily tuning, not admins
+  detectionTuning?: DetectionTuning;
+}
+
+export type CustomTargetMode = 'override' | 'extend';
+
+/**
+ * Workspace-level values that channel settings can override
+ */
+export interface WorkspaceConfigDefaults {
+  firstEscalationMinutes: number;
+  secondEscalationMinutes: number;
+  finalEscalationMinutes: number;
+  gracePeriodMinutes: number;
+  answerDetectionMode: AnswerDetectionMode;
+  escalationLadder: EscalationLadderLevel[];
+  businessHours: BusinessHours | null;
+}
+
+/**
+ * Workspace defaults merged with channel overrides
+ */
+export interface EffectiveChannelConfig extends WorkspaceConfigDefaults {
+  escalationEnabled: boolean;
+  useCustomTargets: boolean;
+  customTargetMode: CustomTargetMode;
 }
 
 export interface ChannelConfigData {
@@ -75,27 +121,31 @@ export async function getChannelConfigBySlackId(
 
 /**
  * Update channel settings
+ * The channel row is locked while merging, so concurrent updates (e.g. an admin's change and the
+ * daily detection tuning) don't overwrite each other's keys
  */
 export async function updateChannelSettings(
   channelId: string,
   settings: Partial<ChannelSettings>
 ): Promise<void> {
-  const currentChannel = await prisma.channel.findUnique({
-    where: { id: channelId },
-  });
+  await prisma.$transaction(async (tx) => {
+    const locked = await tx.$queryRaw<{ settings: ChannelSettings | null }[]>`
+      SELECT settings FROM channels WHERE id = ${channelId} FOR UPDATE
+    `;
 
-  if (!currentChannel) {
-    throw new Error('Channel not found');
-  }
+    if (locked.length === 0) {
+      throw new Error('Channel not found');
+    }
 
-  const currentSettings = (currentChannel.settings as ChannelSettings) || {};
-  const updatedSettings = { ...currentSettings, ...settings };
+    const currentSettings = locked[0].settings || {};
+    const updatedSettings = { ...currentSettings, ...settings };
 
-  await prisma.channel.update({
-    where: { id: channelId },
-    data: {
-      settings: updatedSettings,
-    },
+    await tx.channel.update({
+      where: { id: channelId },
+      data: {
+        settings: updatedSettings,
+      },
+    });
   });
 }
 
@@ -144,34 +194,63 @@ export function hasCustomSettings(settings: ChannelSettings): boolean {
   return Object.keys(settings).length > 0;
 }
 
+/**
+ * The workspace-level values channel settings are merged onto
+ */
+export function getWorkspaceConfigDefaults(config: WorkspaceConfigData): WorkspaceConfigDefaults {
+  return {
+    firstEscalationMinutes: config.firstEscalationMinutes,
+    secondEscalationMinutes: config.secondEscalationMinutes,
+    finalEscalationMinutes: config.finalEscalationMinutes,
+    gracePeriodMinutes: config.gracePeriodMinutes,
+    answerDetectionMode: config.answerDetectionMode,
+    escalationLadder: getWorkspaceLadder(config),
+    businessHours: config.settings.businessHours ?? null,
+  };
+}
+
 /**
  * Get effective configuration for a channel
  * Merges workspace defaults with channel-specific overrides
  */
 export async function getEffectiveChannelConfig(
   channelId: string,
-  workspaceConfig: {
-    firstEscalationMinutes: number;
-    secondEscalationMinutes: number;
-    finalEscalationMinutes: number;
-    answerDetectionMode: AnswerDetectionMode;
-  }
-): Promise<{
-  firstEscalationMinutes: number;
-  secondEscalationMinutes: number;
-  finalEscalationMinutes: number;
-  answerDetectionMode: AnswerDetectionMode;
-  escalationEnabled: boolean;
-}> {
+  workspaceConfig: WorkspaceConfigDefaults
+): Promise<EffectiveChannelConfig> {
   const channelConfig = await getChannelConfig(channelId);
-  const settings = channelConfig?.settings || {};
+  return mergeChannelSettings(channelConfig?.settings || {}, workspaceConfig);
+}
+
+/**
+ * Merge channel overrides onto workspace defaults
+ */
+function mergeChannelSettings(
+  settings: ChannelSettings,
+  workspaceConfig: WorkspaceConfigDefaults
+): EffectiveChannelConfig {
+  const firstEscalationMinutes = settings.firstEscalationMinutes ?? workspaceConfig.firstEscalationMinutes;
+  const secondEscalationMinutes = settings.secondEscalationMinutes ?? workspaceConfig.secondEscalationMinutes;
+  const finalEscalationMinutes = settings.finalEscalationMinutes ?? workspaceConfig.finalEscalationMinutes;
+
+  // Channels that only override the legacy timings get a 3-level ladder built from them
+  const hasTimingOverrides =
+    settings.firstEscalationMinutes !== undefined ||
+    settings.secondEscalationMinutes !== undefined ||
+    settings.finalEscalationMinutes !== undefined;
 
   return {
-    firstEscalationMinutes: settings.firstEscalationMinutes ?? workspaceConfig.firstEscalationMinutes,
-    secondEscalationMinutes: settings.secondEscalationMinutes ?? workspaceConfig.secondEscalationMinutes,
-    finalEscalationMinutes: settings.finalEscalationMinutes ?? workspaceConfig.finalEscalationMinutes,
+    firstEscalationMinutes,
+    secondEscalationMinutes,
+    finalEscalationMinutes,
+    gracePeriodMinutes: settings.gracePeriodMinutes ?? workspaceConfig.gracePeriodMinutes,
     answerDetectionMode: settings.answerDetectionMode ?? workspaceConfig.answerDetectionMode,
+    escalationLadder: settings.escalationLadder ?? (hasTimingOverrides
+      ? buildLegacyLadder(firstEscalationMinutes, secondEscalationMinutes, finalEscalationMinutes)
+      : workspaceConfig.escalationLadder),
+    businessHours: settings.businessHours ?? workspaceConfig.businessHours,
     escalationEnabled: settings.escalationEnabled ?? true,
+    useCustomTargets: settings.useCustomTargets ?? false,
+    customTargetMode: settings.customTargetMode ?? 'override',
   };
 }
 
@@ -181,19 +260,8 @@ export async function getEffectiveChannelConfig(
  */
 export async function getBatchEffectiveChannelConfigs(
   channelIds: string[],
-  workspaceConfig: {
-    firstEscalationMinutes: number;
-    secondEscalationMinutes: number;
-    finalEscalationMinutes: number;
-    answerDetectionMode: AnswerDetectionMode;
-  }
-): Promise<Map<string, {
-  firstEscalationMinutes: number;
-  secondEscalationMinutes: number;
-  finalEscalationMinutes: number;
-  answerDetectionMode: AnswerDetectionMode;
-  escalationEnabled: boolean;
-}>> {
+  workspaceConfig: WorkspaceConfigDefaults
+): Promise<Map<string, EffectiveChannelConfig>> {
   // Fetch all channel configs in one query
   const channels = await prisma.channel.findMany({
     where: {
@@ -204,19 +272,13 @@ export async function getBatchEffectiveChannelConfigs(
   });
 
   // Build a map of channel configs
-  const configMap = new Map();
+  const configMap = new Map<string, EffectiveChannelConfig>();
 
   for (const channelId of channelIds) {
     const channel = channels.find(c => c.id === channelId);
     const settings = (channel?.settings as ChannelSettings) || {};
 
-    configMap.set(channelId, {
-      firstEscalationMinutes: settings.firstEscalationMinutes ?? workspaceConfig.firstEscalationMinutes,
-      secondEscalationMinutes: settings.secondEscalationMinutes ?? workspaceConfig.secondEscalationMinutes,
-      finalEscalationMinutes: settings.finalEscalationMinutes ?? workspaceConfig.finalEscalationMinutes,
-      answerDetectionMode: settings.answerDetectionMode ?? workspaceConfig.answerDetectionMode,
-      escalationEnabled: settings.escalationEnabled ?? true,
-    });
+    configMap.set(channelId, mergeChannelSettings(settings, workspaceConfig));
   }
 
   return configMap;
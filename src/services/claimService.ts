@@ -0,0 +1,209 @@
+/**
+ * Claim Service
+ * Lets a responder take ownership of a question ("I'll take it")
+ * Escalation holds while a claim is active and resumes automatically when it expires
+ */
+import type { WebClient } from '@slack/web-api';
+import { prisma } from '../utils/db.js';
+import { logger } from '../utils/logger.js';
+import { CLAIM, QUESTION_STATUS } from '../utils/constants.js';
+import { getReplyThreadTs } from '../utils/slackHelpers.js';
+import { getWorkspaceConfig } from './configService.js';
+import { scheduleEscalationJob } from './escalationJobService.js';
+
+/**
+ * Get the workspace's claim timeout in minutes
+ */
+export async function getClaimTimeoutMinutes(workspaceId: string): Promise<number> {
+  const config = await getWorkspaceConfig(workspaceId);
+  return config.settings.claimTimeoutMinutes ?? CLAIM.DEFAULT_TIMEOUT_MINUTES;
+}
+
+/**
+ * Whether a question is currently held by a claim
+ */
+export function isClaimActive(
+  question: { claimedById: string | null; claimExpiresAt: Date | null },
+  now: Date = new Date()
+): boolean {
+  return !!question.claimedById && !!question.claimExpiresAt && question.claimExpiresAt > now;
+}
+
+/**
+ * Claim a question for a user
+ * Only succeeds if the question is unclaimed, the previous claim has expired,
+ * or the same user is renewing their own claim - so two people can't both win a race
+ *
+ * @param userId - Internal user ID of the claimer
+ * @returns When the claim expires
+ * @throws Error naming the current owner if someone else holds the claim
+ */
+export async function claimQuestion(
+  questionId: string,
+  userId: string,
+  timeoutMinutes: number,
+  now: Date = new Date()
+): Promise<Date> {
+  const claimExpiresAt = new Date(now.getTime() + timeoutMinutes * 60000);
+
+  const result = await prisma.question.updateMany({
+    where: {
+      id: questionId,
+      status: { in: [QUESTION_STATUS.UNANSWERED, QUESTION_STATUS.SNOOZED] },
+      OR: [
+        { claimedById: null },
+        { claimedById: userId },
+        { claimExpiresAt: { lte: now } },
+      ],
+    },
+    data: {
+      // A snoozed question that someone picks up goes back to being an open question
+      status: QUESTION_STATUS.UNANSWERED,
+      snoozedUntil: null,
+      claimedById: userId,
+      claimedAt: now,
+      claimExpiresAt,
+    },
+  });
+
+  if (result.count === 0) {
+    const question = await prisma.question.findUnique({
+      where: { id: questionId },
+      include: { claimedBy: true },
+    });
+
+    if (question?.claimedBy && isClaimActive(question, now)) {
+      throw new Error(`<@${question.claimedBy.slackUserId}> is already on this question`);
+    }
+    throw new Error('This question can no longer be claimed');
+  }
+
+  // Escalation resumes when the claim lapses, so make sure the engine looks then
+  const question = await prisma.question.findUnique({ where: { id: questionId } });
+  if (question) {
+    await scheduleEscalationJob(questionId, question.workspaceId, claimExpiresAt);
+  }
+
+  logger.info('Question claimed', { questionId, userId, claimExpiresAt });
+  return claimExpiresAt;
+}
+
+/**
+ * Release a user's claim on a question
+ * @returns true if the user held the claim
+ */
+export async function releaseClaim(questionId: string, userId: string): Promise<boolean> {
+  const result = await prisma.question.updateMany({
+    where: {
+      id: questionId,
+      claimedById: userId,
+    },
+    data: {
+      claimedById: null,
+      claimedAt: null,
+      claimExpiresAt: null,
+    },
+  });
+
+  if (result.count === 0) {
+    return false;
+  }
+
+  // Escalation picks up again straight away
+  const question = await prisma.question.findUnique({ where: { id: questionId } });
+  if (question) {
+    await scheduleEscalationJob(questionId, question.workspaceId);
+  }
+  return true;
+}
+
+/**
+ * Clear an expired claim so escalation can resume, and say so in the question's thread
+ * Called by the escalation engine when it reaches a question whose claim has lapsed
+ */
+export async function expireClaim(client: WebClient, question: any): Promise<void> {
+  const claimer = question.claimedById
+    ? await prisma.user.findUnique({ where: { id: question.claimedById } })
+    : null;
+
+  // Guard on the expiry time so a claim renewed in the meantime isn't cleared
+  const result = await prisma.question.updateMany({
+    where: {
+      id: question.id,
+      claimedById: question.claimedById,
+      claimExpiresAt: { lte: new Date() },
+    },
+    data: {
+      claimedById: null,
+      claimedAt: null,
+      claimExpiresAt: null,
+    },
+  });
+
+  if (result.count === 0) return;
+
+  question.claimedById = null;
+  question.claimedAt = null;
+  question.claimExpiresAt = null;
+
+  try {
+    await client.chat.postMessage({
+      channel: question.channel.slackChannelId,
+      thread_ts: getReplyThreadTs(question),
+      text: `⏰ ${claimer ? `<@${claimer.slackUserId}>'s` : 'The'} claim on this question expired without an answer - escalation resumes.`,
+    });
+  } catch (error) {
+    logger.warn('Could not post claim-expired message', {
+      questionId: question.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  logger.info('Question claim expired', { questionId: question.id });
+}
+
+export interface ClaimedQuestionData {
+  questionId: string;
+  messageText: string;
+  slackChannelId: string;
+  slackMessageId: string;
+  slackThreadId: string | null;
+  claimerSlackUserId: string;
+  claimedAt: Date;
+  claimExpiresAt: Date;
+}
+
+/**
+ * Get a workspace's actively claimed, unanswered questions (soonest expiry first)
+ */
+export async function getActiveClaims(
+  workspaceId: string,
+  limit: number = 10,
+  now: Date = new Date()
+): Promise<ClaimedQuestionData[]> {
+  const questions = await prisma.question.findMany({
+    where: {
+      workspaceId,
+      status: QUESTION_STATUS.UNANSWERED,
+      claimedById: { not: null },
+      claimExpiresAt: { gt: now },
+    },
+    include: {
+      channel: true,
+      claimedBy: true,
+    },
+    orderBy: { claimExpiresAt: 'asc' },
+    take: limit,
+  });
+
+  return questions.map((q) => ({
+    questionId: q.id,
+    messageText: q.messageText,
+    slackChannelId: q.channel.slackChannelId,
+    slackMessageId: q.slackMessageId,
+    slackThreadId: q.slackThreadId,
+    claimerSlackUserId: q.claimedBy!.slackUserId,
+    claimedAt: q.claimedAt!,
+    claimExpiresAt: q.claimExpiresAt!,
+  }));
+}
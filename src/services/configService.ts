@@ -3,16 +3,48 @@
  * Manages workspace configuration settings
  */
 import { prisma } from '../utils/db.js';
+import type { EscalationLadderLevel } from './escalationLadderService.js';
+import type { BusinessHours } from './businessHoursService.js';
+import type { EscalationTemplates } from './messageTemplateService.js';
+import type { QuestionClassifierName } from './questionClassifierService.js';
+import type { DetectionRules } from './detectionRulesService.js';
 
 export type AnswerDetectionMode = 'emoji_only' | 'thread_auto' | 'hybrid';
 
+/**
+ * Free-form workspace settings stored in WorkspaceConfig.settings (JSON)
+ */
+export interface WorkspaceSettings {
+  // Snooze length used by the 🔕 reaction
+  defaultSnoozeMinutes?: number;
+  // How long an "I'll take it" claim holds escalation
+  claimTimeoutMinutes?: number;
+  // Explicit escalation ladder; when unset the first/second/final timings form a 3-level ladder
+  escalationLadder?: EscalationLadderLevel[];
+  // Working-time calendar for escalation clocks (missing or disabled = 24/7)
+  businessHours?: BusinessHours;
+  // Customised escalation message wording; missing keys use the defaults
+  escalationTemplates?: Partial<EscalationTemplates>;
+  // Classifier that scores messages as questions (missing = rules)
+  questionClassifier?: QuestionClassifierName;
+  // Score (0-1) a message needs to be tracked as a question
+  detectionThreshold?: number;
+  // Question words, help phrases, ignore patterns and user lists (missing fields use the defaults)
+  detectionRules?: DetectionRules;
+  // Tune channel thresholds and phrase penalties from dismissed questions (missing = on)
+  detectionAutoTune?: boolean;
+}
+
 export interface WorkspaceConfigData {
   answerDetectionMode: AnswerDetectionMode;
   firstEscalationMinutes: number;
   secondEscalationMinutes: number;
   finalEscalationMinutes: number;
+  gracePeriodMinutes: number;
+  dmSuggestionsEnabled: boolean;
   escalationUserGroup: string | null;
   escalationChannelId: string | null;
+  settings: WorkspaceSettings;
 }
 
 /**
@@ -40,11 +72,47 @@ export async function getWorkspaceConfig(workspaceId: string): Promise<Workspace
     firstEscalationMinutes: config.firstEscalationMinutes,
     secondEscalationMinutes: config.secondEscalationMinutes,
     finalEscalationMinutes: config.finalEscalationMinutes,
+    gracePeriodMinutes: config.gracePeriodMinutes,
+    dmSuggestionsEnabled: config.dmSuggestionsEnabled,
     escalationUserGroup: config.escalationUserGroup || null,
     escalationChannelId: config.escalationChannelId || null,
+    settings: (config.settings as WorkspaceSettings) || {},
   };
 }
 
+/**
+ * Merge updates into WorkspaceConfig.settings
+ * The workspace row is locked while merging, so concurrent updates of different keys don't
+ * overwrite each other (the config row may not exist yet, so it can't be the one locked)
+ */
+export async function updateWorkspaceSettings(
+  workspaceId: string,
+  settings: Partial<WorkspaceSettings>
+): Promise<WorkspaceSettings> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM workspaces WHERE id = ${workspaceId} FOR UPDATE`;
+
+    const config = await tx.workspaceConfig.findUnique({
+      where: { workspaceId },
+    });
+
+    const updatedSettings = { ...((config?.settings as WorkspaceSettings) || {}), ...settings };
+
+    await tx.workspaceConfig.upsert({
+      where: { workspaceId },
+      update: { settings: updatedSettings },
+      create: {
+        workspaceId,
+        settings: updatedSettings,
+        firstEscalationMinutes: parseInt(process.env.FIRST_ESCALATION_MINUTES || '2'),
+        secondEscalationMinutes: parseInt(process.env.SECOND_ESCALATION_MINUTES || '4'),
+      },
+    });
+
+    return updatedSettings;
+  });
+}
+
 /**
  * Update answer detection mode
  */
@@ -7,6 +7,8 @@ import { prisma } from '../utils/db.js';
 import { logger } from '../utils/logger.js';
 import { QUESTION_STATUS } from '../utils/constants.js';
 import { cleanupExpiredStates } from '../oauth/stateStore.js';
+import { decayStaleExpertise } from './expertiseService.js';
+import { tuneDetectionFromFeedback } from './detectionFeedbackService.js';
 
 // Data retention configuration from environment variables
 const ANSWERED_QUESTIONS_RETENTION_DAYS = parseInt(
@@ -168,6 +170,10 @@ export async function runDataCleanup(): Promise<{
     const oauthStatesDeleted = await cleanupExpiredStates();
 
     const totalDeleted = answeredDeleted + dismissedDeleted + unansweredDeleted + oauthStatesDeleted;
+
+    // Not a deletion, but it's daily maintenance that belongs on the same schedule
+    const expertiseDecayed = await decayStaleExpertise();
+    const channelsTuned = await tuneDetectionFromFeedback();
     const duration = Date.now() - startTime;
 
     logger.info('Data cleanup job completed', {
@@ -176,6 +182,8 @@ export async function runDataCleanup(): Promise<{
       unansweredDeleted,
       oauthStatesDeleted,
       totalDeleted,
+      expertiseDecayed,
+      channelsTuned,
       durationMs: duration,
     });
 
@@ -194,7 +202,7 @@ export async function runDataCleanup(): Promise<{
 
 /**
  * Start the scheduled data cleanup job
- * Runs daily at approximately 2 AM (relative to when the app started)
+ * Runs daily at approximately 2 AM (relative to when this instance became its leader)
  */
 export function startDataCleanupSchedule(): void {
   if (cleanupIntervalId) {
@@ -0,0 +1,262 @@
+/**
+ * Detection Feedback Service
+ * Learns from answered vs dismissed questions to cut down on false positives
+ *
+ * Each tracked question keeps the score and features it was detected with. When it's answered or
+ * dismissed, its outcome is counted per channel against each feature and its score range in
+ * DetectionFeedback, which outlives the cleanup of dismissed questions. The daily maintenance run
+ * turns those counts into a tuning per channel: phrase penalties for phrases that are mostly
+ * dismissed, and a raised threshold when that drops many dismissals for few answered questions.
+ */
+import { prisma } from '../utils/db.js';
+import { logger } from '../utils/logger.js';
+import { DETECTION_FEEDBACK } from '../utils/constants.js';
+import { getWorkspaceConfig } from './configService.js';
+import { updateChannelSettings, type ChannelSettings } from './channelConfigService.js';
+import { invalidateQuestionDetectors, normalizeDetectionThreshold } from './questionClassifierService.js';
+
+export type DetectionOutcome = 'answered' | 'dismissed';
+
+// A type alias rather than an interface so it can be stored in a JSON settings column
+export type DetectionTuning = {
+  threshold?: number; // Raised channel threshold, when raising it helps
+  phrasePenalties: Record<string, number>; // Feedback feature -> share of the score taken away
+  samples: number; // Outcomes the tuning was learned from
+  tunedAt: string; // ISO timestamp
+};
+
+export interface FeedbackCounts {
+  feature: string;
+  answeredCount: number;
+  dismissedCount: number;
+}
+
+// Counts every outcome in a channel, alongside the per-feature rows
+const TOTAL_FEATURE = 'total';
+const SCORE_PREFIX = 'score:';
+
+/**
+ * The score range a question is counted in, e.g. "score:0.65" for scores from 0.65 up to 0.70
+ */
+export function getScoreBucket(score: number): string {
+  const steps = Math.floor(Math.min(score, 1) / DETECTION_FEEDBACK.SCORE_BUCKET + 1e-9);
+  return `${SCORE_PREFIX}${(steps * DETECTION_FEEDBACK.SCORE_BUCKET).toFixed(2)}`;
+}
+
+/**
+ * Whether a feature is a phrase or ending that can be penalised and reported, as opposed to a
+ * signal, score range or total
+ */
+export function isPatternFeature(feature: string): boolean {
+  return feature.startsWith('phrase:') || feature.startsWith('ending:');
+}
+
+/**
+ * Work out a channel's tuning from its outcome counts
+ * @param baseThreshold - The workspace threshold; tuning only ever raises it
+ * @returns null until the channel has enough outcomes, and enough dismissals, to learn from
+ */
+export function computeDetectionTuning(
+  rows: FeedbackCounts[],
+  baseThreshold: number,
+  now: Date = new Date()
+): DetectionTuning | null {
+  const total = rows.find((row) => row.feature === TOTAL_FEATURE);
+  const samples = total ? total.answeredCount + total.dismissedCount : 0;
+  if (
+    !total ||
+    samples < DETECTION_FEEDBACK.MIN_CHANNEL_SAMPLES ||
+    total.dismissedCount < DETECTION_FEEDBACK.MIN_CHANNEL_DISMISSALS
+  ) {
+    return null;
+  }
+
+  // Phrases mostly dismissed, penalised by their dismissal rate (smoothed, so a few samples count for less)
+  const phrasePenalties: Record<string, number> = {};
+  for (const row of rows.filter((r) => isPatternFeature(r.feature))) {
+    const seen = row.answeredCount + row.dismissedCount;
+    if (seen < DETECTION_FEEDBACK.MIN_PATTERN_SAMPLES) continue;
+    if (row.dismissedCount / seen < DETECTION_FEEDBACK.PENALTY_DISMISS_RATE) continue;
+
+    const penalty = Math.min(DETECTION_FEEDBACK.MAX_PENALTY, row.dismissedCount / (seen + 2));
+    phrasePenalties[row.feature] = Math.round(penalty * 100) / 100;
+  }
+
+  // The threshold that stops tracking the most dismissed questions while losing few answered ones
+  const buckets = rows
+    .filter((row) => row.feature.startsWith(SCORE_PREFIX))
+    .map((row) => ({ ...row, score: parseFloat(row.feature.slice(SCORE_PREFIX.length)) }))
+    .filter((row) => Number.isFinite(row.score));
+  const below = (threshold: number, field: 'answeredCount' | 'dismissedCount') =>
+    buckets.filter((b) => b.score >= baseThreshold && b.score < threshold).reduce((sum, b) => sum + b[field], 0);
+
+  let threshold: number | undefined;
+  let mostDismissed = 0;
+  const candidates = [...new Set(buckets.map((b) => b.score))]
+    .filter((score) => score > baseThreshold && score <= DETECTION_FEEDBACK.MAX_TUNED_THRESHOLD)
+    .sort((a, b) => a - b);
+  for (const candidate of candidates) {
+    if (below(candidate, 'answeredCount') > total.answeredCount * DETECTION_FEEDBACK.MAX_ANSWERED_LOSS) break;
+
+    const dismissed = below(candidate, 'dismissedCount');
+    if (dismissed > mostDismissed) {
+      mostDismissed = dismissed;
+      threshold = candidate;
+    }
+  }
+
+  return {
+    ...(threshold !== undefined && { threshold }),
+    phrasePenalties,
+    samples,
+    tunedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Count a question's outcome against the features it was detected with
+ * Each question is counted once; Zendesk side conversations and questions tracked before feedback
+ * was recorded are skipped.
+ */
+export async function recordDetectionOutcome(questionId: string, outcome: DetectionOutcome): Promise<void> {
+  // Claim the question first, so a dismissal racing an answer (or a repeated reaction) counts once
+  const claimed = await prisma.question.updateMany({
+    where: { id: questionId, feedbackRecordedAt: null, isSideConversation: false, detectionScore: { not: null } },
+    data: { feedbackRecordedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    return;
+  }
+
+  const question = await prisma.question.findUnique({
+    where: { id: questionId },
+    select: { workspaceId: true, channelId: true, detectionScore: true, detectionFeatures: true },
+  });
+  if (!question || question.detectionScore === null) {
+    return;
+  }
+
+  const counter = outcome === 'answered' ? 'answeredCount' : 'dismissedCount';
+  const features = [TOTAL_FEATURE, getScoreBucket(question.detectionScore), ...question.detectionFeatures];
+
+  await prisma.$transaction(
+    features.map((feature) =>
+      prisma.detectionFeedback.upsert({
+        where: { channelId_feature: { channelId: question.channelId, feature } },
+        create: { workspaceId: question.workspaceId, channelId: question.channelId, feature, [counter]: 1 },
+        update: { [counter]: { increment: 1 } },
+      })
+    )
+  );
+}
+
+/**
+ * Phrases and endings of a workspace's tracked messages, most often dismissed first
+ */
+export async function getFalsePositivePatterns(
+  workspaceId: string,
+  limit: number = DETECTION_FEEDBACK.REPORT_LIMIT
+): Promise<(FeedbackCounts & { dismissRate: number })[]> {
+  const grouped = await prisma.detectionFeedback.groupBy({
+    by: ['feature'],
+    where: {
+      workspaceId,
+      OR: [{ feature: { startsWith: 'phrase:' } }, { feature: { startsWith: 'ending:' } }],
+    },
+    _sum: { answeredCount: true, dismissedCount: true },
+  });
+
+  return grouped
+    .map((row) => {
+      const answeredCount = row._sum.answeredCount ?? 0;
+      const dismissedCount = row._sum.dismissedCount ?? 0;
+      return {
+        feature: row.feature,
+        answeredCount,
+        dismissedCount,
+        dismissRate: dismissedCount / Math.max(1, answeredCount + dismissedCount),
+      };
+    })
+    .filter((row) => row.dismissedCount > 0)
+    .sort((a, b) => b.dismissedCount - a.dismissedCount || b.dismissRate - a.dismissRate)
+    .slice(0, limit);
+}
+
+/**
+ * Channels of a workspace with a learned tuning
+ */
+export async function getChannelDetectionTunings(
+  workspaceId: string
+): Promise<{ slackChannelId: string; tuning: DetectionTuning }[]> {
+  const channels = await prisma.channel.findMany({
+    where: { workspaceId },
+    select: { slackChannelId: true, settings: true },
+    orderBy: { channelName: 'asc' },
+  });
+
+  return channels.flatMap((channel) => {
+    const tuning = ((channel.settings as ChannelSettings) || {}).detectionTuning;
+    return tuning ? [{ slackChannelId: channel.slackChannelId, tuning }] : [];
+  });
+}
+
+/**
+ * Re-tune every channel with enough feedback, in workspaces that haven't turned auto-tuning off
+ * @returns Number of channels tuned
+ */
+export async function tuneDetectionFromFeedback(): Promise<number> {
+  const workspaces = await prisma.detectionFeedback.findMany({
+    distinct: ['workspaceId'],
+    select: { workspaceId: true },
+  });
+
+  let tuned = 0;
+
+  // One workspace at a time, so only one workspace's counts are in memory at once
+  for (const { workspaceId } of workspaces) {
+    const { settings } = await getWorkspaceConfig(workspaceId);
+    if (settings.detectionAutoTune === false) continue;
+
+    const rows = await prisma.detectionFeedback.findMany({
+      where: { workspaceId },
+      select: { channelId: true, feature: true, answeredCount: true, dismissedCount: true },
+    });
+
+    const byChannel = new Map<string, FeedbackCounts[]>();
+    for (const row of rows) {
+      const channelRows = byChannel.get(row.channelId);
+      if (channelRows) {
+        channelRows.push(row);
+      } else {
+        byChannel.set(row.channelId, [row]);
+      }
+    }
+
+    const baseThreshold = normalizeDetectionThreshold(settings.detectionThreshold);
+    let workspaceTuned = 0;
+
+    for (const [channelId, channelRows] of byChannel) {
+      const tuning = computeDetectionTuning(channelRows, baseThreshold);
+      if (!tuning) continue;
+
+      try {
+        await updateChannelSettings(channelId, { detectionTuning: tuning });
+        workspaceTuned++;
+      } catch (error) {
+        // The channel was removed since its feedback was recorded
+        logger.warn('Could not save detection tuning', {
+          channelId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (workspaceTuned > 0) {
+      invalidateQuestionDetectors(workspaceId);
+      tuned += workspaceTuned;
+    }
+  }
+
+  logger.info('Tuned question detection from feedback', { channels: tuned });
+  return tuned;
+}
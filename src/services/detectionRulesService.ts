@@ -0,0 +1,123 @@
+/**
+ * Detection Rules Service
+ * Workspace and channel overrides for how questions are detected
+ *
+ * Rules live in WorkspaceConfig.settings.detectionRules and ChannelSettings.detectionRules. Each
+ * field a channel sets replaces the workspace's, and each field the workspace sets replaces the
+ * built-in default; fields left unset are inherited, so changes to the defaults reach them.
+ */
+import { defaultConfig, type DetectionConfig } from './questionDetector.js';
+import type { DetectionLanguage } from './languageDetector.js';
+
+// A type alias rather than an interface so it can be stored in a JSON settings column
+export type DetectionRules = {
+  questionWords?: string[]; // Openers that make a message a question ("how do", "is there")
+  helpPatterns?: string[]; // Phrases anywhere in a message ("can someone", "need help")
+  minLength?: number; // Shorter messages are never questions
+  ignorePatterns?: string[]; // Phrases removed before scoring ("right?", "lol?")
+  allowUsers?: string[]; // Slack user IDs - when set, only their messages are tracked
+  denyUsers?: string[]; // Slack user IDs whose messages are never tracked
+  languages?: DetectionLanguage[]; // Language packs messages may be read with besides English
+};
+
+export type DetectionRuleField = keyof DetectionRules;
+
+export const DETECTION_RULE_FIELDS: DetectionRuleField[] = [
+  'questionWords',
+  'helpPatterns',
+  'minLength',
+  'ignorePatterns',
+  'allowUsers',
+  'denyUsers',
+  'languages',
+];
+
+export const DETECTION_RULE_LABELS: Record<DetectionRuleField, string> = {
+  questionWords: 'Question Words',
+  helpPatterns: 'Help Phrases',
+  minLength: 'Minimum Length',
+  ignorePatterns: 'Ignore Patterns',
+  allowUsers: 'Only Track These People',
+  denyUsers: 'Never Track These People',
+  languages: 'Languages',
+};
+
+export const DEFAULT_DETECTION_RULES: Required<DetectionRules> = {
+  questionWords: defaultConfig.questionWords,
+  helpPatterns: defaultConfig.helpPatterns,
+  minLength: defaultConfig.minLength,
+  ignorePatterns: defaultConfig.ignorePatterns,
+  allowUsers: [],
+  denyUsers: [],
+  languages: defaultConfig.languages,
+};
+
+/**
+ * Rules in force for a workspace, or for a channel within it
+ */
+export function getEffectiveDetectionRules(
+  workspaceRules: DetectionRules = {},
+  channelRules: DetectionRules = {}
+): Required<DetectionRules> {
+  const effective = { ...DEFAULT_DETECTION_RULES };
+  for (const rules of [workspaceRules, channelRules]) {
+    for (const field of DETECTION_RULE_FIELDS) {
+      if (rules[field] !== undefined) {
+        (effective as any)[field] = rules[field];
+      }
+    }
+  }
+  return effective;
+}
+
+/**
+ * The detector config for a set of effective rules
+ */
+export function toDetectionConfig(rules: Required<DetectionRules>): DetectionConfig {
+  return {
+    ...defaultConfig,
+    questionWords: rules.questionWords,
+    helpPatterns: rules.helpPatterns,
+    ignorePatterns: rules.ignorePatterns,
+    minLength: rules.minLength,
+    languages: rules.languages,
+  };
+}
+
+/**
+ * Why a user's messages aren't tracked, or null if they are
+ */
+export function getUserRuleBlock(rules: Required<DetectionRules>, slackUserId: string): string | null {
+  if (rules.denyUsers.includes(slackUserId)) {
+    return 'author is on the deny list';
+  }
+  if (rules.allowUsers.length > 0 && !rules.allowUsers.includes(slackUserId)) {
+    return 'author is not on the allow list';
+  }
+  return null;
+}
+
+/**
+ * Split a multiline input into phrases: one per line, lowercased, without blanks or repeats
+ */
+export function parseRuleLines(text: string | null | undefined): string[] {
+  const phrases = (text || '')
+    .split('\n')
+    .map((line) => line.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(phrases)];
+}
+
+/**
+ * Keep only the fields that differ from what would be inherited
+ * @param base - Effective rules one level up (defaults for a workspace, the workspace's for a channel)
+ */
+export function diffDetectionRules(rules: Required<DetectionRules>, base: Required<DetectionRules>): DetectionRules {
+  const overrides: DetectionRules = {};
+  for (const field of DETECTION_RULE_FIELDS) {
+    if (JSON.stringify(rules[field]) !== JSON.stringify(base[field])) {
+      (overrides as any)[field] = rules[field];
+    }
+  }
+  return overrides;
+}
@@ -1,24 +1,56 @@
 /**
  * Workspace-Aware Escalation Engine
- * Checks for unanswered questions every 30 seconds
+ * Works through the escalation_jobs queue: each open question is checked when its next step is due
  * Uses per-workspace configuration from database with flexible escalation targets
+ * Optionally DMs matched experts (suggestion phase) before the first escalation
  */
 import boltPkg from '@slack/bolt';
 import type { App } from '@slack/bolt';
 import type { WebClient } from '@slack/web-api';
-import { prisma } from '../utils/db.js';
-import { getWorkspaceConfig } from './configService.js';
+import { prisma, ensureUser } from '../utils/db.js';
+import { getWorkspaceConfig, type WorkspaceSettings } from './configService.js';
 import {
-  getTargetsForLevel,
+  getTargetsForChannelLevel,
   migrateFromLegacyConfig,
   type EscalationTargetData,
 } from './escalationTargetService.js';
 import { ESCALATION_ENGINE, ESCALATION_LEVEL, QUESTION_STATUS } from '../utils/constants.js';
-import { buildThreadLink, getTeamDomain } from '../utils/slackHelpers.js';
-import { getBatchEffectiveChannelConfigs, type ChannelSettings } from './channelConfigService.js';
+import { buildThreadLink, getReplyThreadTs, isThreadQuestion } from '../utils/slackHelpers.js';
+import {
+  getEffectiveChannelConfig,
+  type ChannelSettings,
+  type EffectiveChannelConfig,
+} from './channelConfigService.js';
 import { setEscalationEngineStatus } from './healthCheck.js';
+import { INSTANCE_ID } from './leaderElection.js';
 import { logger } from '../utils/logger.js';
 import { getAuthorizedClient } from '../utils/authorizedClient.js';
+import { markQuestionAnswered } from './questionStorage.js';
+import { findBestResponders, type ExpertiseMatch } from './expertiseMatcher.js';
+import { wakeDueSnoozes } from './snoozeService.js';
+import { buildActionableMessageBlocks } from './questionActions.js';
+import { expireClaim, isClaimActive } from './claimService.js';
+import { getDueLevel, getWorkspaceLadder } from './escalationLadderService.js';
+import { getNextWorkingTime, getWorkingTimeBetween, isWorkingTime } from './businessHoursService.js';
+import { resolveOnCall } from './onCallService.js';
+import { buildWebhookPayload, sendWebhook } from './webhookService.js';
+import { resolveEscalationPosts, supersedeEarlierPosts } from './escalationMessageService.js';
+import { getWorkspaceMetadata } from './workspaceMetadataService.js';
+import { reconcileQuestionDeletion, reconcileQuestionEdit } from './messageReconciliationService.js';
+import {
+  backfillEscalationJobs,
+  claimDueJobs,
+  completeJob,
+  failJob,
+  runEscalationJobWork,
+  type ClaimedEscalationJob,
+} from './escalationJobService.js';
+import {
+  buildEscalationMessage,
+  buildTemplateVariables,
+  getEscalationTemplates,
+  type EscalationTemplates,
+} from './messageTemplateService.js';
 
 // Type for escalation execution results
 interface EscalationResult {
@@ -28,34 +60,48 @@ interface EscalationResult {
   status: 'success' | 'failed' | 'skipped';
   errorMessage?: string;
   actionTaken?: string;
+  // Posted messages, kept so they can be edited later
+  messageChannelId?: string;
+  messageTs?: string;
+  dmChannelId?: string;
+  dmMessageTs?: string;
 }
 
-const CHECK_INTERVAL_MS = ESCALATION_ENGINE.CHECK_INTERVAL_MS;
-
 // Fallback environment variables for backwards compatibility
 const FALLBACK_USER_GROUP = process.env.ESCALATION_USER_GROUP || null;
 const FALLBACK_CHANNEL = process.env.ESCALATION_CHANNEL || null;
 
-let intervalId: NodeJS.Timeout | null = null;
+// Identifies this process's claims in escalation_jobs.locked_by
+const WORKER_ID = INSTANCE_ID;
+
+let pollTimeout: NodeJS.Timeout | null = null;
+let running = false;
+let runId = 0; // Bumped on each start, so a poll still in flight from before a stop doesn't carry on
 
 export function startEscalationEngine(app: App) {
   logger.info('Escalation engine started', {
-    checkInterval: `${CHECK_INTERVAL_MS / 1000}s`,
+    pollInterval: `${ESCALATION_ENGINE.JOB_POLL_INTERVAL_MS / 1000}s`,
+    workerId: WORKER_ID,
     configSource: 'database',
   });
 
-  intervalId = setInterval(async () => {
-    await checkForEscalations(app);
-  }, CHECK_INTERVAL_MS);
+  running = true;
+  const run = ++runId;
+
+  // Questions stored before the job queue existed (or by an older instance mid-deploy) need jobs
+  backfillEscalationJobs()
+    .catch((error) => logger.error('Failed to backfill escalation jobs', { error: error instanceof Error ? error.message : String(error) }))
+    .finally(() => scheduleNextPoll(0, run));
 
   // Mark escalation engine as running for health checks
   setEscalationEngineStatus(true);
 }
 
 export function stopEscalationEngine() {
-  if (intervalId) {
-    clearInterval(intervalId);
-    intervalId = null;
+  running = false;
+  if (pollTimeout) {
+    clearTimeout(pollTimeout);
+    pollTimeout = null;
     logger.info('Escalation engine stopped');
   }
 
@@ -63,180 +109,561 @@ export function stopEscalationEngine() {
   setEscalationEngineStatus(false);
 }
 
-async function checkForEscalations(app: App) {
+function scheduleNextPoll(delayMs: number, run: number) {
+  if (!running || run !== runId) return;
+  pollTimeout = setTimeout(async () => {
+    const claimed = await processDueJobs();
+    // A full batch means more jobs are probably waiting - go again straight away
+    scheduleNextPoll(claimed >= ESCALATION_ENGINE.JOB_BATCH_SIZE ? 0 : ESCALATION_ENGINE.JOB_POLL_INTERVAL_MS, run);
+  }, delayMs);
+}
+
+/**
+ * Claim and run a batch of due escalation jobs
+ * @returns Number of jobs claimed
+ */
+async function processDueJobs(): Promise<number> {
+  let jobs: ClaimedEscalationJob[];
   try {
-    // Get all workspaces with their configs
-    const workspaces = await prisma.workspace.findMany({
-      include: {
-        config: true,
-      },
-    });
+    jobs = await claimDueJobs(WORKER_ID);
+  } catch (error) {
+    console.error('Error claiming escalation jobs:', error);
+    return 0;
+  }
 
-    const now = new Date();
+  // Slack clients are per workspace; several jobs in a batch often share one
+  const clients = new Map<string, Promise<WebClient>>();
 
-    // Process each workspace separately with its own config
-    for (const workspace of workspaces) {
-      const config = workspace.config || (await getWorkspaceConfig(workspace.id));
+  for (const job of jobs) {
+    const outcome = await runEscalationJobWork(() => runEscalationJob(job, clients));
+    try {
+      if (outcome.ok) {
+        await completeJob(job, WORKER_ID, outcome.nextRunAt);
+      } else {
+        await failJob(job, WORKER_ID, outcome.error);
+      }
+    } catch (releaseError) {
+      console.error(`Error releasing escalation job ${job.id}:`, releaseError);
+    }
+  }
 
-      // Migrate legacy config to new system if needed
-      await migrateFromLegacyConfig(workspace.id);
+  return jobs.length;
+}
 
-      // Find all unanswered questions for this workspace
-      const questions = await prisma.question.findMany({
-        where: {
-          workspaceId: workspace.id,
-          status: QUESTION_STATUS.UNANSWERED,
-          escalationLevel: {
-            lt: ESCALATION_LEVEL.PAUSED, // Don't escalate questions that have been paused
-          },
+/**
+ * Check one question and escalate it if it's due
+ * @returns When the question should next be checked, or null if it needs no more checks
+ */
+async function runEscalationJob(
+  job: ClaimedEscalationJob,
+  clients: Map<string, Promise<WebClient>>
+): Promise<Date | null> {
+  const now = new Date();
+
+  const question = await prisma.question.findUnique({
+    where: { id: job.questionId },
+    include: {
+      channel: true,
+      asker: true,
+      workspace: { include: { config: true } },
+    },
+  });
+
+  if (!question) {
+    return null;
+  }
+
+  const workspace = question.workspace;
+  const getClient = () => {
+    if (!clients.has(workspace.id)) {
+      clients.set(workspace.id, getAuthorizedClient(workspace.slackTeamId));
+    }
+    return clients.get(workspace.id)!;
+  };
+
+  // Snoozed questions sleep until their snooze ends, then wake with the escalation clock restarted
+  if (question.status === QUESTION_STATUS.SNOOZED) {
+    if (question.snoozedUntil && question.snoozedUntil > now) {
+      return question.snoozedUntil;
+    }
+    await wakeDueSnoozes(await getClient(), workspace.id, now);
+    return now;
+  }
+
+  // Answered, dismissed or paused questions are done with. Snoozes are handled first, since
+  // a paused question that's snoozed wakes with escalation restarted
+  if (question.status !== QUESTION_STATUS.UNANSWERED || question.escalationLevel >= ESCALATION_LEVEL.PAUSED) {
+    return null;
+  }
+
+  const config: any = workspace.config || (await getWorkspaceConfig(workspace.id));
+  const effectiveConfig = await getEffectiveChannelConfig(question.channelId, {
+    firstEscalationMinutes: config.firstEscalationMinutes,
+    secondEscalationMinutes: config.secondEscalationMinutes,
+    finalEscalationMinutes: config.finalEscalationMinutes,
+    gracePeriodMinutes: config.gracePeriodMinutes,
+    answerDetectionMode: config.answerDetectionMode as 'emoji_only' | 'thread_auto' | 'hybrid',
+    escalationLadder: getWorkspaceLadder(config),
+    businessHours: ((config.settings as WorkspaceSettings | null) || {}).businessHours ?? null,
+  });
+
+  // Escalation is off for this channel; keep checking in case it's turned back on
+  if (!effectiveConfig.escalationEnabled) {
+    return new Date(now.getTime() + ESCALATION_ENGINE.MAX_JOB_DELAY_MS);
+  }
+
+  // Hold escalation while someone has claimed the question; resume once the claim lapses
+  if (question.claimedById) {
+    if (isClaimActive(question, now)) {
+      return question.claimExpiresAt;
+    }
+    await expireClaim(await getClient(), question);
+  }
+
+  const currentLevel = question.escalationLevel;
+  const ladder = effectiveConfig.escalationLadder;
+
+  // Nothing left to do once the top of the ladder has been reached
+  const nextLadderLevel = ladder.find((l) => l.level === currentLevel + 1);
+  if (!nextLadderLevel) {
+    return null;
+  }
+
+  // Outside working hours nothing fires; due escalations wait for the next working window
+  const businessHours = effectiveConfig.businessHours;
+  if (!isWorkingTime(now, businessHours)) {
+    return getNextWorkingTime(now, businessHours) || new Date(now.getTime() + ESCALATION_ENGINE.MAX_JOB_DELAY_MS);
+  }
+
+  // Check if question is old enough to escalate, counting only working time
+  // The clock restarts when a snooze ends, so measure from escalationStartedAt when set
+  const clockStart = question.escalationStartedAt || question.askedAt;
+  const questionAge = getWorkingTimeBetween(new Date(clockStart), now, businessHours);
+
+  const shouldEscalate = getDueLevel(ladder, currentLevel, questionAge) !== null;
+
+  // Quietly DM matched experts once before the first escalation
+  const {
+    pending: suggestionPending,
+    due: suggestionDue,
+    afterMs: suggestionAfterMs,
+  } = getSuggestionPhase(
+    question,
+    config.dmSuggestionsEnabled,
+    effectiveConfig.gracePeriodMinutes,
+    ladder[0].afterMinutes,
+    questionAge
+  );
+
+  if (!shouldEscalate && !suggestionDue) {
+    // Working time passes no faster than wall time, so this is the earliest the next step can be due
+    let remainingMs = nextLadderLevel.afterMinutes * 60000 - questionAge;
+    if (suggestionPending) {
+      remainingMs = Math.min(remainingMs, suggestionAfterMs - questionAge);
+    }
+    return new Date(now.getTime() + Math.max(remainingMs, 0));
+  }
+
+  const client = await getClient();
+
+  // Check for replies in the thread and recent activity within the grace period
+  const gracePeriodMs = effectiveConfig.gracePeriodMinutes * 60000;
+  const { botUserId } = await getWorkspaceMetadata(client, workspace.slackTeamId);
+  const { firstReply, lastActivityAt, questionText, deleted } = await getThreadActivity(
+    client,
+    botUserId,
+    question.channel.slackChannelId,
+    { slackMessageId: question.slackMessageId, slackThreadId: question.slackThreadId, askerSlackId: question.asker.slackUserId },
+    getGraceWindowStart(now, effectiveConfig.gracePeriodMinutes)
+  );
+
+  // Catch up on edits and deletions whose events we missed
+  if (deleted) {
+    await reconcileQuestionDeletion(client, question);
+    console.log(`🗑️ Question ${question.id} closed - its message was deleted`);
+    return null;
+  }
+  if (questionText !== null && (await reconcileQuestionEdit(client, question, questionText)) === 'dismiss') {
+    console.log(`🚫 Question ${question.id} dismissed - edited into something that isn't a question`);
+    return null;
+  }
+
+  if (firstReply) {
+    // Handle based on channel-specific answer detection mode
+    if (effectiveConfig.answerDetectionMode === 'thread_auto') {
+      // Auto-mark as answered, crediting the first replier
+      const answerer = await ensureUser(workspace.id, firstReply.user);
+      await markQuestionAnswered(
+        question.id,
+        answerer.id,
+        firstReply.ts,
+        new Date(parseFloat(firstReply.ts) * 1000)
+      );
+      await prisma.question.update({
+        where: { id: question.id },
+        data: {
+          escalationLevel: ESCALATION_LEVEL.PAUSED,
         },
-        include: {
-          channel: true,
-          asker: true,
+      });
+      await resolveEscalationPosts(client, question.id);
+      console.log(`✅ Question ${question.id} auto-marked as answered (thread_auto mode)`);
+      return null;
+    } else if (effectiveConfig.answerDetectionMode === 'hybrid') {
+      // Stop escalation but don't mark as answered
+      await prisma.question.update({
+        where: { id: question.id },
+        data: {
+          escalationLevel: ESCALATION_LEVEL.PAUSED,
         },
       });
+      console.log(`✅ Question ${question.id} has replies, stopping escalation (hybrid mode)`);
+      return null;
+    }
+    // For emoji_only mode, replies don't stop escalation - continue to escalate
+  }
 
-      // Skip if no questions to process
-      if (questions.length === 0) {
-        continue;
-      }
+  // Defer while people are actively replying or the asker is still editing the question
+  if (lastActivityAt) {
+    console.log(
+      `⏳ Question ${question.id} had thread activity at ${lastActivityAt.toISOString()}, deferring escalation (grace period)`
+    );
+    return new Date(lastActivityAt.getTime() + gracePeriodMs);
+  }
 
-      // Get authorized client for this workspace (OAuth mode)
-      let client: WebClient;
-      try {
-        client = await getAuthorizedClient(workspace.slackTeamId);
-      } catch (error) {
-        logger.error('Failed to get authorized client for workspace', {
-          workspaceId: workspace.id,
-          teamId: workspace.slackTeamId,
-          error: error instanceof Error ? error.message : String(error),
-        });
-        continue; // Skip this workspace if we can't get auth
-      }
+  // Suggestions go out first; escalation follows on a later check if still due
+  if (suggestionDue) {
+    await sendExpertSuggestions(client, question);
+    return now;
+  }
 
-      // Batch fetch channel configs to prevent N+1 query problem
-      const channelIds = [...new Set(questions.map(q => q.channelId))];
-      const channelConfigsMap = await getBatchEffectiveChannelConfigs(channelIds, {
-        firstEscalationMinutes: config.firstEscalationMinutes,
-        secondEscalationMinutes: config.secondEscalationMinutes,
-        finalEscalationMinutes: config.finalEscalationMinutes,
-        answerDetectionMode: config.answerDetectionMode as 'emoji_only' | 'thread_auto' | 'hybrid',
-      });
+  // Migrate legacy config to new system if needed
+  await migrateFromLegacyConfig(workspace.id);
 
-      for (const question of questions) {
-        // Get effective config from the pre-fetched map
-        const effectiveConfig = channelConfigsMap.get(question.channelId)!;
+  // Perform escalation based on current level, then check straight away when the next one is due
+  await performEscalation(client, question, workspace.id, config, effectiveConfig);
+  return now;
+}
 
-        // Skip if escalation is disabled for this channel
-        if (!effectiveConfig.escalationEnabled) {
-          continue;
-        }
+// The parts of a Slack thread message that count towards thread activity
+export interface ThreadMessage {
+  ts?: string;
+  user?: string;
+  bot_id?: string;
+  edited?: { ts?: string };
+}
 
-        // Check if question is old enough to escalate
-        const questionAge = now.getTime() - new Date(question.askedAt).getTime();
-        const currentLevel = question.escalationLevel;
-
-        let shouldEscalate = false;
-        if (currentLevel === 0 && questionAge >= effectiveConfig.firstEscalationMinutes * 60000) {
-          shouldEscalate = true;
-        } else if (currentLevel === 1 && questionAge >= effectiveConfig.secondEscalationMinutes * 60000) {
-          shouldEscalate = true;
-        } else if (currentLevel === 2 && questionAge >= effectiveConfig.finalEscalationMinutes * 60000) {
-          shouldEscalate = true;
-        }
+export interface ThreadQuestion {
+  slackMessageId: string;
+  slackThreadId: string | null;
+  askerSlackId: string;
+}
 
-        if (!shouldEscalate) {
-          continue;
-        }
+/**
+ * Start of the grace window in which thread activity defers escalation
+ * @returns null when the grace period is 0, which turns deferral off
+ */
+export function getGraceWindowStart(now: Date, gracePeriodMinutes: number): Date | null {
+  return gracePeriodMinutes > 0 ? new Date(now.getTime() - gracePeriodMinutes * 60000) : null;
+}
 
-        // Check if there are any replies in the thread
-        const hasReplies = await checkForThreadReplies(
-          client,
-          question.channel.slackChannelId,
-          question.slackMessageId
-        );
+/**
+ * Whether a thread message is a person replying to the question
+ * A question asked inside someone else's thread only counts what was said after it, by someone other than its asker
+ */
+export function isHumanReply(msg: ThreadMessage, question: ThreadQuestion, botUserId: string | null): boolean {
+  const messageTs = question.slackMessageId;
+  const threadTs = getReplyThreadTs(question);
 
-        if (hasReplies) {
-          // Handle based on channel-specific answer detection mode
-          if (effectiveConfig.answerDetectionMode === 'thread_auto') {
-            // Auto-mark as answered
-            await prisma.question.update({
-              where: { id: question.id },
-              data: {
-                status: QUESTION_STATUS.ANSWERED,
-                answeredAt: new Date(),
-                escalationLevel: ESCALATION_LEVEL.PAUSED,
-              },
-            });
-            console.log(`✅ Question ${question.id} auto-marked as answered (thread_auto mode)`);
-            continue;
-          } else if (effectiveConfig.answerDetectionMode === 'hybrid') {
-            // Stop escalation but don't mark as answered
-            await prisma.question.update({
-              where: { id: question.id },
-              data: {
-                escalationLevel: ESCALATION_LEVEL.PAUSED,
-              },
-            });
-            console.log(`✅ Question ${question.id} has replies, stopping escalation (hybrid mode)`);
-            continue;
-          }
-          // For emoji_only mode, replies don't affect anything - continue to escalate
-        }
+  return (
+    !!msg.user &&
+    !!msg.ts &&
+    msg.ts !== messageTs && // Not the original message
+    msg.ts !== threadTs && // Not the thread's parent
+    msg.user !== botUserId && // Not our bot
+    !msg.bot_id && // Not any bot message (includes Zendesk auto-replies)
+    // Earlier messages in the thread, and the asker talking on, don't answer a follow-up question
+    (!isThreadQuestion(question) || (parseFloat(msg.ts) > parseFloat(messageTs) && msg.user !== question.askerSlackId))
+  );
+}
 
-        // Perform escalation based on current level
-        await performEscalation(client, question, workspace.id, config);
-      }
+/**
+ * The latest activity inside the grace window: a human reply, or the asker editing the question
+ * @param asked - The question message, as last read from Slack
+ * @param recentReplies - Thread messages from the start of the window
+ * @param activitySince - Start of the grace window, or null when deferral is off
+ * @returns null if nothing happened inside the window
+ */
+export function getLastThreadActivity(
+  asked: ThreadMessage | undefined,
+  recentReplies: ThreadMessage[],
+  question: ThreadQuestion,
+  botUserId: string | null,
+  activitySince: Date | null
+): Date | null {
+  if (!activitySince) {
+    return null;
+  }
+
+  const sinceSeconds = activitySince.getTime() / 1000;
+  const activityTimes: number[] = [];
+
+  // Question edits show up on the question message
+  const editedTs = asked?.edited?.ts ? parseFloat(asked.edited.ts) : null;
+  if (editedTs && editedTs >= sinceSeconds) {
+    activityTimes.push(editedTs);
+  }
+
+  for (const msg of recentReplies) {
+    if (isHumanReply(msg, question, botUserId) && parseFloat(msg.ts!) >= sinceSeconds) {
+      activityTimes.push(parseFloat(msg.ts!));
     }
-  } catch (error) {
-    console.error('Error in escalation check:', error);
   }
+
+  return activityTimes.length > 0 ? new Date(Math.max(...activityTimes) * 1000) : null;
 }
 
-async function checkForThreadReplies(
+/**
+ * Inspect a question's thread for human replies and recent activity
+ * A question asked inside someone else's thread only counts what was said after it, by someone other than its asker
+ *
+ * @param activitySince - Start of the grace window; activity after this defers escalation
+ * @returns The first human reply (author and ts), the most recent human reply or question edit
+ *          inside the grace window (null if the thread has been quiet), the question's current
+ *          text (null if it couldn't be read) and whether the question message has been deleted
+ */
+async function getThreadActivity(
   client: WebClient,
+  botUserId: string | null,
   channelId: string,
-  messageTs: string
-): Promise<boolean> {
-  try {
-    // Get bot user ID
-    const authResult = await client.auth.test();
-    const botUserId = authResult.user_id;
+  question: ThreadQuestion,
+  activitySince: Date | null
+): Promise<{
+  firstReply: { user: string; ts: string } | null;
+  lastActivityAt: Date | null;
+  questionText: string | null;
+  deleted: boolean;
+}> {
+  const messageTs = question.slackMessageId;
+  const inThread = isThreadQuestion(question);
+  const threadTs = getReplyThreadTs(question);
 
+  try {
     const result = await client.conversations.replies({
       channel: channelId,
-      ts: messageTs,
+      ts: threadTs,
       limit: 10,
+      // Start a follow-up question's page at the question itself
+      ...(inThread ? { oldest: messageTs, inclusive: true } : {}),
     });
 
     // Filter out the original message, any messages from the bot itself, and all bot messages
-    const humanReplies =
-      result.messages?.filter((msg) =>
-        msg.ts !== messageTs && // Not the original message
-        msg.user !== botUserId && // Not our bot
-        !msg.bot_id // Not any bot message (includes Zendesk auto-replies)
-      ) || [];
-
-    // If there are any human replies, return true
-    return humanReplies.length > 0;
-  } catch (error) {
+    const humanReplies = result.messages?.filter((msg) => isHumanReply(msg, question, botUserId)) || [];
+    const first = humanReplies[0];
+    const firstReply = first ? { user: first.user!, ts: first.ts! } : null;
+
+    // A deleted question with replies stays behind as a tombstone; a deleted reply just disappears
+    const asked = result.messages?.find((msg) => msg.ts === messageTs);
+    if ((asked as any)?.subtype === 'tombstone' || (inThread && !asked)) {
+      return { firstReply: null, lastActivityAt: null, questionText: null, deleted: true };
+    }
+    const questionText = asked?.text ?? null;
+
+    if (!activitySince) {
+      return { firstReply, lastActivityAt: null, questionText, deleted: false };
+    }
+
+    // Only page through recent replies if the thread was touched inside the window
+    const sinceSeconds = activitySince.getTime() / 1000;
+    const parent = result.messages?.find((msg) => msg.ts === threadTs);
+    const latestReplyTs = parent?.latest_reply ? parseFloat(parent.latest_reply) : null;
+    let recentReplies: ThreadMessage[] = [];
+    if (latestReplyTs && latestReplyTs >= sinceSeconds) {
+      const recent = await client.conversations.replies({
+        channel: channelId,
+        ts: threadTs,
+        oldest: sinceSeconds.toFixed(6),
+        limit: 100,
+      });
+      recentReplies = recent.messages || [];
+    }
+
+    const lastActivityAt = getLastThreadActivity(asked, recentReplies, question, botUserId, activitySince);
+    return { firstReply, lastActivityAt, questionText, deleted: false };
+  } catch (error: any) {
+    // A deleted question without replies has no thread left at all
+    if (error?.data?.error === 'thread_not_found') {
+      return { firstReply: null, lastActivityAt: null, questionText: null, deleted: true };
+    }
     console.error('Error checking thread replies:', error);
-    return false;
+    return { firstReply: null, lastActivityAt: null, questionText: null, deleted: false };
+  }
+}
+
+/**
+ * Where a question stands in the expert suggestion phase
+ * The phase runs once, before level 1, when the workspace has DM suggestions on. It's due after the
+ * grace period or the first level's delay, whichever comes first.
+ * @param questionAgeMs - Working time since the escalation clock started
+ */
+export function getSuggestionPhase(
+  question: { escalationLevel: number; suggestionsSentAt: Date | null },
+  dmSuggestionsEnabled: boolean,
+  gracePeriodMinutes: number,
+  firstLevelAfterMinutes: number,
+  questionAgeMs: number
+): { pending: boolean; due: boolean; afterMs: number } {
+  const pending =
+    dmSuggestionsEnabled && question.escalationLevel === ESCALATION_LEVEL.NOT_ESCALATED && !question.suggestionsSentAt;
+  const afterMs = Math.min(gracePeriodMinutes, firstLevelAfterMinutes) * 60000;
+
+  return { pending, due: pending && questionAgeMs >= afterMs, afterMs };
+}
+
+/**
+ * The escalation row recording a suggestion phase: every matched expert, and whether any DM went out
+ */
+export function buildSuggestionEscalation(
+  questionId: string,
+  matches: ExpertiseMatch[],
+  results: { status: string }[],
+  now: Date = new Date()
+) {
+  return {
+    questionId,
+    escalationLevel: ESCALATION_LEVEL.SUGGESTION,
+    suggestedUsers: matches.map((m) => m.userId),
+    actionTaken: results.some((r) => r.status === 'success') ? 'dm_suggestions' : 'dm_suggestions_failed',
+    escalatedAt: now,
+  };
+}
+
+/**
+ * Suggestion phase: privately DM the best-matched experts before level 1
+ * Records who was suggested on an Escalation row so it only happens once
+ */
+async function sendExpertSuggestions(client: WebClient, question: any) {
+  try {
+    const matches = await findBestResponders(
+      question.extractedKeywords,
+      question.channelId,
+      ESCALATION_ENGINE.MAX_SUGGESTED_EXPERTS,
+      { excludeUserIds: [question.askerId] }
+    );
+
+    // Mark the phase as done even if nobody matched, so we don't re-query every tick
+    await prisma.question.update({
+      where: { id: question.id },
+      data: { suggestionsSentAt: new Date() },
+    });
+
+    if (matches.length === 0) {
+      console.log(`💡 No expert matches for question ${question.id}, skipping suggestions`);
+      return;
+    }
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: matches.map((m) => m.userId) } },
+    });
+    const usersById = new Map(users.map((u) => [u.id, u]));
+
+    const channelId = question.channel.slackChannelId;
+    const channelName = question.channel.channelName || 'unknown channel';
+    const { teamDomain } = await getWorkspaceMetadata(client, question.workspace.slackTeamId);
+    const threadLink = buildThreadLink(teamDomain, channelId, question.slackMessageId, question.slackThreadId);
+
+    const results: EscalationResult[] = await Promise.all(
+      matches.map(async (match): Promise<EscalationResult> => {
+        const user = usersById.get(match.userId);
+        if (!user) {
+          return {
+            targetType: 'user',
+            targetId: match.userId,
+            status: 'skipped',
+            errorMessage: 'Suggested user no longer exists',
+          };
+        }
+
+        const targetName = user.displayName || user.realName || undefined;
+        try {
+          const text = `💡 You might know the answer to this question from <@${question.asker.slackUserId}> in #${channelName}:\n\n> ${question.messageText}\n\n_Why you:_ ${match.reasons.join(' • ')}\n\n<${threadLink}|View Thread →>`;
+          const posted = await client.chat.postMessage({
+            channel: user.slackUserId,
+            text,
+            blocks: buildActionableMessageBlocks(text, question.id),
+            unfurl_links: false,
+            unfurl_media: false,
+          });
+          return {
+            targetType: 'user',
+            targetId: user.slackUserId,
+            targetName,
+            status: 'success',
+            actionTaken: `dm_suggestion_${user.slackUserId}`,
+            messageChannelId: posted.channel,
+            messageTs: posted.ts,
+          };
+        } catch (error: any) {
+          return {
+            targetType: 'user',
+            targetId: user.slackUserId,
+            targetName,
+            status: 'failed',
+            errorMessage: `Failed to send suggestion DM: ${error.message || 'unknown error'}`,
+          };
+        }
+      })
+    );
+
+    const escalation = await prisma.escalation.create({
+      data: buildSuggestionEscalation(question.id, matches, results),
+    });
+
+    await Promise.all(
+      results.map((result) =>
+        prisma.escalationEvent.create({
+          data: {
+            questionId: question.id,
+            escalationId: escalation.id,
+            targetType: result.targetType,
+            targetId: result.targetId,
+            targetName: result.targetName,
+            status: result.status,
+            errorMessage: result.errorMessage,
+            messageChannelId: result.messageChannelId,
+            messageTs: result.messageTs,
+            dmChannelId: result.dmChannelId,
+            dmMessageTs: result.dmMessageTs,
+          },
+        })
+      )
+    );
+
+    console.log(
+      `💡 Suggested ${results.filter((r) => r.status === 'success').length}/${matches.length} experts for question ${question.id}`
+    );
+  } catch (error) {
+    console.error(`Error sending expert suggestions for question ${question.id}:`, error);
   }
 }
 
 /**
  * Unified escalation function that handles all escalation levels
- * Uses flexible escalation targets from database
+ * Uses flexible escalation targets from database, including the channel's own targets when it has them
  */
-async function performEscalation(client: WebClient, question: any, workspaceId: string, config: any) {
+async function performEscalation(
+  client: WebClient,
+  question: any,
+  workspaceId: string,
+  config: any,
+  effectiveConfig: EffectiveChannelConfig
+) {
   try {
     const currentLevel = question.escalationLevel;
     const nextLevel = currentLevel + 1;
     const questionAge = Math.round((Date.now() - new Date(question.askedAt).getTime()) / 60000);
 
     // Get targets for the next escalation level
-    let targets = await getTargetsForLevel(workspaceId, nextLevel);
+    let targets = await getTargetsForChannelLevel(workspaceId, nextLevel, question.channelId, effectiveConfig);
 
     // Fall back to legacy config if no targets found
     if (targets.length === 0) {
@@ -258,9 +685,11 @@ async function performEscalation(client: WebClient, question: any, workspaceId:
       return;
     }
 
+    const templates = getEscalationTemplates(((config.settings as WorkspaceSettings | null) || {}).escalationTemplates);
+
     // Execute escalation for all targets in parallel
     const results = await Promise.all(
-      targets.map((target) => executeEscalationTarget(client, question, target, questionAge))
+      targets.map((target) => executeEscalationTarget(client, question, target, questionAge, templates))
     );
 
     // Update escalation level
@@ -298,11 +727,20 @@ async function performEscalation(client: WebClient, question: any, workspaceId:
             targetName: result.targetName,
             status: result.status,
             errorMessage: result.errorMessage,
+            messageChannelId: result.messageChannelId,
+            messageTs: result.messageTs,
+            dmChannelId: result.dmChannelId,
+            dmMessageTs: result.dmMessageTs,
           },
         })
       )
     );
 
+    // The new level's posts replace the earlier thread replies
+    if (successfulActions.length > 0) {
+      await supersedeEarlierPosts(client, question, nextLevel);
+    }
+
     console.log(
       `⚠️  Level ${nextLevel} escalation: Question ${question.id} (${questionAge} min old) - ${successfulActions.length} success, ${failedActions.length} failed`
     );
@@ -312,6 +750,8 @@ async function performEscalation(client: WebClient, question: any, workspaceId:
     }
   } catch (error) {
     console.error(`Error in level ${question.escalationLevel + 1} escalation:`, error);
+    // Rethrown so the job is failed and retried with backoff, not re-run on the next poll
+    throw error;
   }
 }
 
@@ -322,22 +762,38 @@ async function executeEscalationTarget(
   client: WebClient,
   question: any,
   target: EscalationTargetData,
-  questionAge: number
+  questionAge: number,
+  templates: EscalationTemplates
 ): Promise<EscalationResult> {
   const channelId = question.channel.slackChannelId;
-  const channelName = question.channel.channelName || 'unknown channel';
   const messageTs = question.slackMessageId;
-  const askerName = question.asker.displayName || question.asker.realName || 'someone';
+  const replyThreadTs = getReplyThreadTs(question);
+  // In a busy thread, say which message the escalation is about
+  const quoteInThread = isThreadQuestion(question);
+  const keywords: string[] = question.extractedKeywords || [];
 
   try {
     switch (target.targetType) {
       case 'user_group': {
         // Post in thread with user group mention
         try {
-          await client.chat.postMessage({
+          const variables = buildTemplateVariables(
+            question,
+            target.escalationLevel,
+            questionAge,
+            '',
+            `<!subteam^${target.targetId}>`
+          );
+          const { text, blocks } = buildEscalationMessage(templates.thread_user_group, variables, {
+            keywords,
+            includeQuestion: quoteInThread,
+            questionId: question.id,
+          });
+          const posted = await client.chat.postMessage({
             channel: channelId,
-            thread_ts: messageTs,
-            text: `⚠️ This question has been unanswered for ${questionAge} minutes.\n\n<!subteam^${target.targetId}> - Can someone help with this?`,
+            thread_ts: replyThreadTs,
+            text,
+            blocks,
           });
           return {
             targetType: target.targetType,
@@ -345,6 +801,8 @@ async function executeEscalationTarget(
             targetName: target.targetName,
             status: 'success',
             actionTaken: `thread_post_group_${target.targetId}`,
+            messageChannelId: channelId,
+            messageTs: posted.ts,
           };
         } catch (error: any) {
           return {
@@ -359,12 +817,27 @@ async function executeEscalationTarget(
 
       case 'user': {
         // Post in thread
+        let threadTs: string | undefined;
         try {
-          await client.chat.postMessage({
+          const variables = buildTemplateVariables(
+            question,
+            target.escalationLevel,
+            questionAge,
+            '',
+            `<@${target.targetId}>`
+          );
+          const { text, blocks } = buildEscalationMessage(templates.thread_user, variables, {
+            keywords,
+            includeQuestion: quoteInThread,
+            questionId: question.id,
+          });
+          const posted = await client.chat.postMessage({
             channel: channelId,
-            thread_ts: messageTs,
-            text: `⚠️ This question has been unanswered for ${questionAge} minutes.\n\n<@${target.targetId}> - Can you help with this?`,
+            thread_ts: replyThreadTs,
+            text,
+            blocks,
           });
+          threadTs = posted.ts;
         } catch (error: any) {
           return {
             targetType: target.targetType,
@@ -376,18 +849,31 @@ async function executeEscalationTarget(
         }
 
         // Try to send DM
-        let dmSent = false;
+        let dm: { channel?: string; ts?: string } | null = null;
         let dmError = null;
         try {
-          const workspaceInfo = await client.team.info();
-          const teamDomain = getTeamDomain(workspaceInfo);
-          const threadLink = buildThreadLink(teamDomain, channelId, messageTs);
+          const { teamDomain } = await getWorkspaceMetadata(client, question.workspace.slackTeamId);
+          const threadLink = buildThreadLink(teamDomain, channelId, messageTs, question.slackThreadId);
 
-          await client.chat.postMessage({
+          const variables = buildTemplateVariables(
+            question,
+            target.escalationLevel,
+            questionAge,
+            threadLink,
+            `<@${target.targetId}>`
+          );
+          const { text, blocks } = buildEscalationMessage(templates.user_dm, variables, {
+            keywords,
+            includeQuestion: true,
+            questionId: question.id,
+          });
+          dm = await client.chat.postMessage({
             channel: target.targetId,
-            text: `🔔 You've been assigned to help with an unanswered question in #${channelName}:\n\n> ${question.messageText}\n\n<${threadLink}|View Thread →>`,
+            text,
+            blocks,
+            unfurl_links: false,
+            unfurl_media: false,
           });
-          dmSent = true;
         } catch (error: any) {
           dmError = error.message || 'Failed to send DM';
           console.warn(`Could not send DM to user ${target.targetId}:`, error);
@@ -398,21 +884,31 @@ async function executeEscalationTarget(
           targetId: target.targetId,
           targetName: target.targetName,
           status: 'success',
-          actionTaken: `thread_post_user_${target.targetId}${dmSent ? '_with_dm' : ''}`,
+          actionTaken: `thread_post_user_${target.targetId}${dm ? '_with_dm' : ''}`,
           errorMessage: dmError ? `Thread posted successfully, but DM failed: ${dmError}` : undefined,
+          messageChannelId: channelId,
+          messageTs: threadTs,
+          dmChannelId: dm?.channel,
+          dmMessageTs: dm?.ts,
         };
       }
 
       case 'channel': {
         // Post to escalation channel
         try {
-          const workspaceInfo = await client.team.info();
-          const teamDomain = getTeamDomain(workspaceInfo);
-          const threadLink = buildThreadLink(teamDomain, channelId, messageTs);
+          const { teamDomain } = await getWorkspaceMetadata(client, question.workspace.slackTeamId);
+          const threadLink = buildThreadLink(teamDomain, channelId, messageTs, question.slackThreadId);
 
-          await client.chat.postMessage({
+          const variables = buildTemplateVariables(question, target.escalationLevel, questionAge, threadLink);
+          const { text, blocks } = buildEscalationMessage(templates.channel_alert, variables, {
+            keywords,
+            includeQuestion: true,
+            questionId: question.id,
+          });
+          const posted = await client.chat.postMessage({
             channel: target.targetId,
-            text: `🚨 *Unanswered Question Alert*\n\nQuestion from <@${question.asker.slackUserId}> in <#${channelId}> (${questionAge} minutes old):\n\n> ${question.messageText}\n\n<${threadLink}|View Thread →>`,
+            text,
+            blocks,
             unfurl_links: false,
             unfurl_media: false,
           });
@@ -422,6 +918,8 @@ async function executeEscalationTarget(
             targetName: target.targetName,
             status: 'success',
             actionTaken: `channel_post_${target.targetId}`,
+            messageChannelId: posted.channel || target.targetId,
+            messageTs: posted.ts,
           };
         } catch (error: any) {
           return {
@@ -434,6 +932,71 @@ async function executeEscalationTarget(
         }
       }
 
+      case 'rotation': {
+        // Page whoever is on call right now, exactly as a user target would
+        const resolved = await resolveOnCall(target.targetId);
+        if (!resolved) {
+          return {
+            targetType: target.targetType,
+            targetId: target.targetId,
+            targetName: target.targetName,
+            status: 'failed',
+            errorMessage: 'On-call rotation not found or has nobody in it',
+          };
+        }
+
+        const { rotation, onCall } = resolved;
+        const result = await executeEscalationTarget(
+          client,
+          question,
+          { ...target, targetType: 'user', targetId: onCall.slackUserId },
+          questionAge,
+          templates
+        );
+
+        return {
+          ...result,
+          targetType: target.targetType,
+          targetId: target.targetId,
+          targetName: rotation.name,
+          actionTaken: result.actionTaken
+            ? `rotation_${rotation.id}${onCall.overrideId ? '_override' : ''}_${result.actionTaken}`
+            : undefined,
+        };
+      }
+
+      case 'webhook': {
+        // POST a signed payload to an external tool, retrying transient failures
+        try {
+          const { teamDomain } = await getWorkspaceMetadata(client, question.workspace.slackTeamId);
+          const threadLink = buildThreadLink(teamDomain, channelId, messageTs, question.slackThreadId);
+
+          const payload = buildWebhookPayload(
+            question,
+            question.workspace.slackTeamId,
+            target.escalationLevel,
+            questionAge,
+            threadLink
+          );
+          const status = await sendWebhook(target.targetId, payload, target.settings?.secret || '');
+          return {
+            targetType: target.targetType,
+            targetId: target.targetId,
+            targetName: target.targetName,
+            status: 'success',
+            actionTaken: `webhook_post_${status}`,
+          };
+        } catch (error: any) {
+          return {
+            targetType: target.targetType,
+            targetId: target.targetId,
+            targetName: target.targetName,
+            status: 'failed',
+            errorMessage: `Webhook failed after retries: ${error.message || 'unknown error'}`,
+          };
+        }
+      }
+
       default:
         console.warn(`Unknown target type: ${target.targetType}`);
         return {
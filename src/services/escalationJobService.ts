@@ -0,0 +1,180 @@
+/**
+ * Escalation Job Service
+ * Postgres-backed schedule of when each open question next needs the escalation engine's attention
+ *
+ * Each open question has one escalation_jobs row with a run_at time. Workers claim due rows with
+ * SELECT ... FOR UPDATE SKIP LOCKED, so several instances can share the queue without running a job
+ * twice, and the schedule survives restarts. A job whose worker died is picked up again once its
+ * lock is older than JOB_LOCK_TIMEOUT_MS.
+ */
+import { prisma } from '../utils/db.js';
+import { logger } from '../utils/logger.js';
+import { ESCALATION_ENGINE, ESCALATION_LEVEL, QUESTION_STATUS } from '../utils/constants.js';
+
+export interface ClaimedEscalationJob {
+  id: string;
+  questionId: string;
+  workspaceId: string;
+  attempts: number;
+}
+
+// What running a job's work came to: when to run it next (null when done), or the error it threw
+export type EscalationJobOutcome = { ok: true; nextRunAt: Date | null } | { ok: false; error: unknown };
+
+/**
+ * Make sure a question is checked at (or before) a time
+ * An earlier existing run_at is kept, so scheduling never delays a check that's already due sooner
+ */
+export async function scheduleEscalationJob(
+  questionId: string,
+  workspaceId: string,
+  runAt: Date = new Date()
+): Promise<void> {
+  const existing = await prisma.escalationJob.findUnique({ where: { questionId } });
+
+  if (!existing) {
+    try {
+      await prisma.escalationJob.create({ data: { questionId, workspaceId, runAt } });
+      return;
+    } catch (error: any) {
+      // Another request created it first - fall through and pull it forward instead
+      if (error?.code !== 'P2002') throw error;
+    }
+  }
+
+  await prisma.escalationJob.updateMany({
+    where: { questionId, runAt: { gt: runAt } },
+    data: { runAt },
+  });
+}
+
+/**
+ * Claim up to `limit` due jobs for a worker
+ * Rows locked by another worker's claim are skipped rather than waited on
+ */
+export async function claimDueJobs(
+  workerId: string,
+  limit: number = ESCALATION_ENGINE.JOB_BATCH_SIZE,
+  now: Date = new Date()
+): Promise<ClaimedEscalationJob[]> {
+  // Columns are timestamp without time zone holding UTC, so compare against UTC strings
+  const nowUtc = now.toISOString();
+  const staleBefore = new Date(now.getTime() - ESCALATION_ENGINE.JOB_LOCK_TIMEOUT_MS).toISOString();
+
+  return prisma.$queryRaw<ClaimedEscalationJob[]>`
+    UPDATE escalation_jobs
+    SET locked_at = ${nowUtc}::timestamp,
+        locked_by = ${workerId},
+        attempts = attempts + 1,
+        updated_at = ${nowUtc}::timestamp
+    WHERE id IN (
+      SELECT id FROM escalation_jobs
+      WHERE run_at <= ${nowUtc}::timestamp
+        AND (locked_at IS NULL OR locked_at < ${staleBefore}::timestamp)
+      ORDER BY run_at
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, question_id AS "questionId", workspace_id AS "workspaceId", attempts
+  `;
+}
+
+/**
+ * Finish a job: schedule its next run, or delete it when the question needs no more checks
+ * Only touches the row while this worker still holds it
+ */
+export async function completeJob(job: ClaimedEscalationJob, workerId: string, nextRunAt: Date | null): Promise<void> {
+  if (!nextRunAt) {
+    await prisma.escalationJob.deleteMany({ where: { id: job.id, lockedBy: workerId } });
+    return;
+  }
+
+  await prisma.escalationJob.updateMany({
+    where: { id: job.id, lockedBy: workerId },
+    data: { runAt: nextRunAt, lockedAt: null, lockedBy: null, attempts: 0, lastError: null },
+  });
+}
+
+/**
+ * How long to wait before retrying a job that has failed `attempts` times in a row
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const delay = ESCALATION_ENGINE.JOB_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+  return Math.min(delay, ESCALATION_ENGINE.MAX_JOB_RETRY_DELAY_MS);
+}
+
+/**
+ * When a job that has failed `attempts` times in a row is next tried
+ */
+export function getRetryRunAt(attempts: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() + getRetryDelayMs(attempts));
+}
+
+/**
+ * Run a claimed job's work, turning a thrown error into a failed outcome
+ * Failures must reach failJob so they back off, rather than being retried on every poll
+ */
+export async function runEscalationJobWork(
+  work: () => Promise<Date | null>,
+  now: Date = new Date()
+): Promise<EscalationJobOutcome> {
+  try {
+    const nextRunAt = await work();
+    return { ok: true, nextRunAt: nextRunAt ? capNextRunAt(nextRunAt, now) : null };
+  } catch (error) {
+    return { ok: false, error };
+  }
+}
+
+/**
+ * Release a failed job for a later retry, backing off with each consecutive failure
+ */
+export async function failJob(
+  job: ClaimedEscalationJob,
+  workerId: string,
+  error: unknown,
+  now: Date = new Date()
+): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+
+  await prisma.escalationJob.updateMany({
+    where: { id: job.id, lockedBy: workerId },
+    data: {
+      runAt: getRetryRunAt(job.attempts, now),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: message,
+    },
+  });
+
+  logger.warn('Escalation job failed', { jobId: job.id, questionId: job.questionId, attempts: job.attempts, error: message });
+}
+
+/**
+ * Keep a computed next-run time within MAX_JOB_DELAY_MS, so config changes reach open questions
+ */
+export function capNextRunAt(nextRunAt: Date, now: Date = new Date()): Date {
+  const latest = now.getTime() + ESCALATION_ENGINE.MAX_JOB_DELAY_MS;
+  return nextRunAt.getTime() > latest ? new Date(latest) : nextRunAt;
+}
+
+/**
+ * Give every open question without a job one, due now
+ * Run at startup to cover questions stored before the queue existed
+ * @returns Number of jobs created
+ */
+export async function backfillEscalationJobs(): Promise<number> {
+  const created = await prisma.$executeRaw`
+    INSERT INTO escalation_jobs (id, question_id, workspace_id, run_at, created_at, updated_at)
+    SELECT gen_random_uuid()::text, q.id::text, q.workspace_id::text, NOW() AT TIME ZONE 'UTC', NOW(), NOW()
+    FROM questions q
+    WHERE q.status IN (${QUESTION_STATUS.UNANSWERED}, ${QUESTION_STATUS.SNOOZED})
+      AND q.escalation_level < ${ESCALATION_LEVEL.PAUSED}
+    ON CONFLICT (question_id) DO NOTHING
+  `;
+
+  if (created > 0) {
+    logger.info('Backfilled escalation jobs', { created });
+  }
+  return created;
+}
@@ -0,0 +1,184 @@
+/**
+ * Escalation Ladder Service
+ * A ladder is the ordered list of escalation levels, each with the question age at which it fires
+ * Workspaces without an explicit ladder use the legacy first/second/final timings as a 3-level ladder
+ */
+import { ESCALATION_ENGINE } from '../utils/constants.js';
+import {
+  getWorkspaceConfig,
+  updateWorkspaceSettings,
+  type WorkspaceConfigData,
+  type WorkspaceSettings,
+} from './configService.js';
+import { prisma } from '../utils/db.js';
+
+// A type alias (not an interface) so ladders can be stored in Prisma Json columns
+export type EscalationLadderLevel = {
+  level: number; // 1-based, matches EscalationTarget.escalationLevel
+  afterMinutes: number; // Question age at which this level fires
+};
+
+/**
+ * Build the 3-level ladder implied by the legacy first/second/final timings
+ */
+export function buildLegacyLadder(
+  firstEscalationMinutes: number,
+  secondEscalationMinutes: number,
+  finalEscalationMinutes: number
+): EscalationLadderLevel[] {
+  return [
+    { level: 1, afterMinutes: firstEscalationMinutes },
+    { level: 2, afterMinutes: secondEscalationMinutes },
+    { level: 3, afterMinutes: finalEscalationMinutes },
+  ];
+}
+
+/**
+ * Check a ladder is usable
+ * @returns Error message, or null if the ladder is valid
+ */
+export function validateLadder(ladder: EscalationLadderLevel[]): string | null {
+  if (ladder.length === 0) {
+    return 'The ladder needs at least one level';
+  }
+  if (ladder.length > ESCALATION_ENGINE.MAX_LADDER_LEVELS) {
+    return `The ladder can have at most ${ESCALATION_ENGINE.MAX_LADDER_LEVELS} levels`;
+  }
+
+  for (let i = 0; i < ladder.length; i++) {
+    const { level, afterMinutes } = ladder[i];
+    if (level !== i + 1) {
+      return 'Levels must be numbered 1, 2, 3... without gaps';
+    }
+    if (!Number.isInteger(afterMinutes) || afterMinutes < 1) {
+      return `Level ${level} must fire after at least 1 minute`;
+    }
+    if (i > 0 && afterMinutes <= ladder[i - 1].afterMinutes) {
+      return `Level ${level} must fire later than level ${level - 1}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse ladder text like "5, 30, 240, 1440" (minutes after the question was asked, one per level)
+ * @returns The ladder, or an error message
+ */
+export function parseLadderText(text: string): { ladder?: EscalationLadderLevel[]; error?: string } {
+  const parts = text.split(/[,\s]+/).filter((p) => p.length > 0);
+  if (parts.some((p) => !/^\d+$/.test(p))) {
+    return { error: 'Use whole numbers of minutes separated by commas, e.g. 5, 30, 240' };
+  }
+
+  const ladder = parts.map((p, i) => ({ level: i + 1, afterMinutes: parseInt(p, 10) }));
+  const error = validateLadder(ladder);
+  return error ? { error } : { ladder };
+}
+
+/**
+ * Format a ladder as the same comma-separated text parseLadderText accepts
+ */
+export function formatLadderText(ladder: EscalationLadderLevel[]): string {
+  return ladder.map((l) => l.afterMinutes).join(', ');
+}
+
+/**
+ * The level that should fire next, if the question is old enough for it
+ *
+ * @param currentLevel - Question's current escalationLevel (0 = not escalated yet)
+ * @param questionAgeMs - Time since the escalation clock started
+ * @returns The next level, or null if nothing is due (or the ladder is exhausted)
+ */
+export function getDueLevel(
+  ladder: EscalationLadderLevel[],
+  currentLevel: number,
+  questionAgeMs: number
+): EscalationLadderLevel | null {
+  const next = ladder.find((l) => l.level === currentLevel + 1);
+  if (!next) return null;
+  return questionAgeMs >= next.afterMinutes * 60000 ? next : null;
+}
+
+/**
+ * The workspace ladder: an explicit one from settings, or the legacy 3-level timings
+ * Accepts either WorkspaceConfigData or a raw WorkspaceConfig row
+ */
+export function getWorkspaceLadder(
+  config: Pick<WorkspaceConfigData, 'firstEscalationMinutes' | 'secondEscalationMinutes' | 'finalEscalationMinutes'> & {
+    settings?: unknown;
+  }
+): EscalationLadderLevel[] {
+  const settings = (config.settings as WorkspaceSettings | null) || {};
+  return settings.escalationLadder ?? buildLegacyLadder(
+    config.firstEscalationMinutes,
+    config.secondEscalationMinutes,
+    config.finalEscalationMinutes
+  );
+}
+
+/**
+ * Save a workspace ladder
+ * The legacy timing columns are kept in step with levels 1-3 for older screens and stats
+ */
+export async function saveWorkspaceLadder(
+  workspaceId: string,
+  ladder: EscalationLadderLevel[]
+): Promise<void> {
+  const error = validateLadder(ladder);
+  if (error) {
+    throw new Error(error);
+  }
+
+  await updateWorkspaceSettings(workspaceId, { escalationLadder: ladder });
+
+  const timingFor = (level: number) => ladder.find((l) => l.level === level)?.afterMinutes;
+  await prisma.workspaceConfig.update({
+    where: { workspaceId },
+    data: {
+      ...(timingFor(1) !== undefined && { firstEscalationMinutes: timingFor(1) }),
+      ...(timingFor(2) !== undefined && { secondEscalationMinutes: timingFor(2) }),
+      ...(timingFor(3) !== undefined && { finalEscalationMinutes: timingFor(3) }),
+    },
+  });
+}
+
+/**
+ * Apply first/second escalation timings edited in /qr-config or /qr-setup to an explicit ladder
+ * Levels that would then fire out of order are pushed back so the ladder stays valid
+ */
+export async function syncLadderWithLegacyTimings(
+  workspaceId: string,
+  firstEscalationMinutes: number,
+  secondEscalationMinutes: number
+): Promise<void> {
+  const config = await getWorkspaceConfig(workspaceId);
+  const ladder = config.settings.escalationLadder;
+  if (!ladder) return;
+
+  const updated = ladder.map((l) =>
+    l.level === 1 ? { ...l, afterMinutes: firstEscalationMinutes } :
+    l.level === 2 ? { ...l, afterMinutes: secondEscalationMinutes } :
+    { ...l }
+  );
+  for (let i = 1; i < updated.length; i++) {
+    if (updated[i].afterMinutes <= updated[i - 1].afterMinutes) {
+      updated[i].afterMinutes = updated[i - 1].afterMinutes + 1;
+    }
+  }
+
+  await updateWorkspaceSettings(workspaceId, { escalationLadder: updated });
+}
+
+/**
+ * Short human-readable delay, e.g. "45m", "4h", "1d 2h"
+ */
+export function formatLadderDelay(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 1440) {
+    return minutes % 60 === 0 ? `${minutes / 60}h` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+}
@@ -0,0 +1,252 @@
+/**
+ * Escalation Message Service
+ * Edits the bot's escalation posts in place instead of leaving a stack of stale ones behind
+ *
+ * - When a question escalates further, earlier thread replies collapse to a one-line note
+ * - When it's answered or dismissed, every post (thread replies, DMs, channel alerts) shows the outcome
+ */
+import type { WebClient } from '@slack/web-api';
+import { prisma } from '../utils/db.js';
+import { logger } from '../utils/logger.js';
+import { QUESTION_STATUS } from '../utils/constants.js';
+import { buildThreadLink } from '../utils/slackHelpers.js';
+import { formatLadderDelay } from './escalationLadderService.js';
+import { quoteQuestion, type EscalationMessage } from './messageTemplateService.js';
+import { getWorkspaceMetadata } from './workspaceMetadataService.js';
+
+export interface TrackedMessage {
+  channel: string;
+  ts: string;
+  inThread: boolean; // Reply in the question's own thread (vs. a DM or escalation channel alert)
+}
+
+type TrackedEvent = {
+  messageChannelId: string | null;
+  messageTs: string | null;
+  dmChannelId: string | null;
+  dmMessageTs: string | null;
+};
+
+/**
+ * The Slack messages recorded on a question's escalation events
+ * @param questionChannelId - Slack channel the question was asked in, to tell thread replies apart
+ */
+export function getTrackedMessages(events: TrackedEvent[], questionChannelId: string): TrackedMessage[] {
+  const messages: TrackedMessage[] = [];
+  for (const event of events) {
+    if (event.messageChannelId && event.messageTs) {
+      messages.push({
+        channel: event.messageChannelId,
+        ts: event.messageTs,
+        inThread: event.messageChannelId === questionChannelId,
+      });
+    }
+    if (event.dmChannelId && event.dmMessageTs) {
+      messages.push({ channel: event.dmChannelId, ts: event.dmMessageTs, inThread: false });
+    }
+  }
+  return messages;
+}
+
+/**
+ * One-line status for a resolved question, e.g. "✅ Answered by <@U123> in 42m"
+ * @returns null while the question is still open
+ */
+export function formatResolutionStatus(question: {
+  status: string;
+  askedAt: Date;
+  answeredAt: Date | null;
+  answerer?: { slackUserId: string } | null;
+}): string | null {
+  if (question.status === QUESTION_STATUS.DISMISSED) {
+    return '🚫 Dismissed - not a question';
+  }
+  if (question.status !== QUESTION_STATUS.ANSWERED) {
+    return null;
+  }
+
+  const by = question.answerer ? ` by <@${question.answerer.slackUserId}>` : '';
+  if (!question.answeredAt) {
+    return `✅ Answered${by}`;
+  }
+  const minutes = Math.max(0, Math.round((question.answeredAt.getTime() - question.askedAt.getTime()) / 60000));
+  return `✅ Answered${by} in ${formatLadderDelay(minutes)}`;
+}
+
+/**
+ * What an earlier thread reply collapses to once a later level has posted
+ */
+export function buildSupersededMessage(level: number): EscalationMessage {
+  const text = `⬆️ Escalated to level ${level} - see below`;
+  return {
+    text,
+    blocks: [{ type: 'context', elements: [{ type: 'mrkdwn', text }] }],
+  };
+}
+
+/**
+ * What a post becomes once the question is resolved
+ * Posts outside the thread keep the question and a link so they still make sense on their own
+ */
+export function buildResolvedMessage(
+  statusText: string,
+  question: { messageText: string },
+  inThread: boolean,
+  threadLink?: string
+): EscalationMessage {
+  if (inThread) {
+    return {
+      text: statusText,
+      blocks: [{ type: 'context', elements: [{ type: 'mrkdwn', text: statusText }] }],
+    };
+  }
+
+  const blocks: any[] = [
+    { type: 'section', text: { type: 'mrkdwn', text: `*${statusText}*` } },
+    { type: 'section', text: { type: 'mrkdwn', text: quoteQuestion(question.messageText) } },
+  ];
+  if (threadLink) {
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `<${threadLink}|View thread →>` }] });
+  }
+  return { text: statusText, blocks };
+}
+
+/**
+ * What DMs and channel alerts become once the question itself has been deleted
+ * The question text is left out - whoever deleted it didn't want it shown any more
+ */
+export function buildDeletedMessage(): EscalationMessage {
+  const text = '🗑️ This question was deleted';
+  return {
+    text,
+    blocks: [{ type: 'context', elements: [{ type: 'mrkdwn', text }] }],
+  };
+}
+
+async function updateMessages(client: WebClient, messages: TrackedMessage[], build: (m: TrackedMessage) => EscalationMessage) {
+  await Promise.all(
+    messages.map(async (message) => {
+      try {
+        const { text, blocks } = build(message);
+        await client.chat.update({ channel: message.channel, ts: message.ts, text, blocks });
+      } catch (error) {
+        // The post may have been deleted - editing is best-effort
+        logger.warn('Could not update escalation message', {
+          channel: message.channel,
+          ts: message.ts,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    })
+  );
+}
+
+/**
+ * Collapse thread replies from earlier levels now that a new level has posted
+ */
+export async function supersedeEarlierPosts(client: WebClient, question: any, level: number): Promise<void> {
+  const events = await prisma.escalationEvent.findMany({
+    where: {
+      questionId: question.id,
+      messageTs: { not: null },
+      escalation: { escalationLevel: { lt: level } },
+    },
+  });
+
+  const threadPosts = getTrackedMessages(events, question.channel.slackChannelId).filter((m) => m.inThread);
+  await updateMessages(client, threadPosts, () => buildSupersededMessage(level));
+}
+
+/**
+ * Show a question's outcome on every escalation post it got
+ * Call after marking it answered or dismissed; does nothing while it's still open
+ */
+export async function resolveEscalationPosts(client: WebClient, questionId: string): Promise<void> {
+  try {
+    const question = await prisma.question.findUnique({
+      where: { id: questionId },
+      include: {
+        channel: true,
+        workspace: true,
+        answerer: true,
+        escalationEvents: {
+          where: {
+            OR: [{ messageTs: { not: null } }, { dmMessageTs: { not: null } }],
+          },
+        },
+      },
+    });
+    if (!question) return;
+
+    const statusText = formatResolutionStatus(question);
+    const messages = getTrackedMessages(question.escalationEvents, question.channel.slackChannelId);
+    if (!statusText || messages.length === 0) return;
+
+    let threadLink: string | undefined;
+    if (messages.some((m) => !m.inThread)) {
+      const { teamDomain } = await getWorkspaceMetadata(client, question.workspace.slackTeamId);
+      threadLink = buildThreadLink(
+        teamDomain,
+        question.channel.slackChannelId,
+        question.slackMessageId,
+        question.slackThreadId
+      );
+    }
+
+    await updateMessages(client, messages, (m) => buildResolvedMessage(statusText, question, m.inThread, threadLink));
+    logger.info('Escalation messages resolved', { questionId, count: messages.length });
+  } catch (error) {
+    logger.warn('Failed to update escalation messages for resolved question', {
+      questionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Clean up after a question whose Slack message was deleted
+ * Thread replies are deleted along with it; DMs and channel alerts say it's gone
+ */
+export async function removeEscalationPosts(client: WebClient, questionId: string): Promise<void> {
+  try {
+    const question = await prisma.question.findUnique({
+      where: { id: questionId },
+      include: {
+        channel: true,
+        escalationEvents: {
+          where: {
+            OR: [{ messageTs: { not: null } }, { dmMessageTs: { not: null } }],
+          },
+        },
+      },
+    });
+    if (!question) return;
+
+    const messages = getTrackedMessages(question.escalationEvents, question.channel.slackChannelId);
+    await Promise.all(
+      messages
+        .filter((m) => m.inThread)
+        .map(async (message) => {
+          try {
+            await client.chat.delete({ channel: message.channel, ts: message.ts });
+          } catch (error) {
+            logger.warn('Could not delete escalation message', {
+              channel: message.channel,
+              ts: message.ts,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        })
+    );
+    await updateMessages(client, messages.filter((m) => !m.inThread), () => buildDeletedMessage());
+
+    if (messages.length > 0) {
+      logger.info('Escalation messages removed for deleted question', { questionId, count: messages.length });
+    }
+  } catch (error) {
+    logger.warn('Failed to clean up escalation messages for deleted question', {
+      questionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -1,10 +1,12 @@
 /**
  * Escalation Target Service
- * Manages flexible escalation targets (users, groups, channels) for workspaces
+ * Manages flexible escalation targets (users, groups, channels, on-call rotations, webhooks) for workspaces
  */
 import { prisma } from '../utils/db.js';
+import { checkWebhookHost } from './webhookService.js';
+import type { CustomTargetMode } from './channelConfigService.js';
 
-export type EscalationTargetType = 'user' | 'user_group' | 'channel';
+export type EscalationTargetType = 'user' | 'user_group' | 'channel' | 'rotation' | 'webhook';
 
 export interface EscalationTargetData {
   id?: string;
@@ -15,6 +17,7 @@ export interface EscalationTargetData {
   priority: number;
   isActive: boolean;
   settings?: any;
+  channelId?: string; // Set for channel-specific targets
 }
 
 export interface CreateEscalationTargetInput {
@@ -24,34 +27,43 @@ export interface CreateEscalationTargetInput {
   escalationLevel: number;
   priority?: number;
   settings?: any;
+  channelId?: string; // Internal channel ID for a channel-specific target
+}
+
+function toTargetData(t: any): EscalationTargetData {
+  return {
+    id: t.id,
+    targetType: t.targetType as EscalationTargetType,
+    targetId: t.targetId,
+    targetName: t.targetName || undefined,
+    escalationLevel: t.escalationLevel,
+    priority: t.priority,
+    isActive: t.isActive,
+    settings: t.settings || undefined,
+    channelId: t.channelId || undefined,
+  };
 }
 
 /**
  * Get all escalation targets for a workspace
+ * @param channelId - Internal channel ID to get that channel's own targets; omit for workspace-wide targets
  */
 export async function getEscalationTargets(
   workspaceId: string,
-  escalationLevel?: number
+  escalationLevel?: number,
+  channelId?: string
 ): Promise<EscalationTargetData[]> {
   const targets = await prisma.escalationTarget.findMany({
     where: {
       workspaceId,
+      channelId: channelId ?? null,
       ...(escalationLevel !== undefined && { escalationLevel }),
       isActive: true,
     },
     orderBy: [{ escalationLevel: 'asc' }, { priority: 'asc' }],
   });
 
-  return targets.map((t) => ({
-    id: t.id,
-    targetType: t.targetType as EscalationTargetType,
-    targetId: t.targetId,
-    targetName: t.targetName || undefined,
-    escalationLevel: t.escalationLevel,
-    priority: t.priority,
-    isActive: t.isActive,
-    settings: t.settings || undefined,
-  }));
+  return targets.map(toTargetData);
 }
 
 /**
@@ -64,6 +76,43 @@ export async function getTargetsForLevel(
   return getEscalationTargets(workspaceId, escalationLevel);
 }
 
+/**
+ * Combine a channel's own targets with the workspace targets for one level
+ * 'override' uses the channel's targets wherever it has some for the level, and the workspace's otherwise;
+ * 'extend' notifies both (a target configured in both places is only notified once)
+ */
+export function mergeChannelTargets(
+  workspaceTargets: EscalationTargetData[],
+  channelTargets: EscalationTargetData[],
+  mode: CustomTargetMode
+): EscalationTargetData[] {
+  if (mode === 'override') {
+    return channelTargets.length > 0 ? channelTargets : workspaceTargets;
+  }
+
+  const seen = new Set(channelTargets.map((t) => `${t.targetType}:${t.targetId}`));
+  return [...channelTargets, ...workspaceTargets.filter((t) => !seen.has(`${t.targetType}:${t.targetId}`))];
+}
+
+/**
+ * Get the targets to notify for a question's channel at a level
+ * Channels only get their own targets when useCustomTargets is on
+ */
+export async function getTargetsForChannelLevel(
+  workspaceId: string,
+  escalationLevel: number,
+  channelId: string,
+  channelConfig: { useCustomTargets: boolean; customTargetMode: CustomTargetMode }
+): Promise<EscalationTargetData[]> {
+  const workspaceTargets = await getTargetsForLevel(workspaceId, escalationLevel);
+  if (!channelConfig.useCustomTargets) {
+    return workspaceTargets;
+  }
+
+  const channelTargets = await getEscalationTargets(workspaceId, escalationLevel, channelId);
+  return mergeChannelTargets(workspaceTargets, channelTargets, channelConfig.customTargetMode);
+}
+
 /**
  * Add a new escalation target
  */
@@ -75,6 +124,7 @@ export async function addEscalationTarget(
   const existingTargets = await prisma.escalationTarget.findMany({
     where: {
       workspaceId,
+      channelId: input.channelId ?? null,
       escalationLevel: input.escalationLevel,
     },
     orderBy: { priority: 'desc' },
@@ -83,6 +133,20 @@ export async function addEscalationTarget(
 
   const priority = input.priority ?? (existingTargets[0]?.priority ?? -1) + 1;
 
+  // The unique index treats NULL channel IDs as distinct, so workspace-wide duplicates are checked here
+  const duplicate = await prisma.escalationTarget.findFirst({
+    where: {
+      workspaceId,
+      channelId: input.channelId ?? null,
+      targetType: input.targetType,
+      targetId: input.targetId,
+      escalationLevel: input.escalationLevel,
+    },
+  });
+  if (duplicate) {
+    throw new Error('That target is already set up for this level');
+  }
+
   const target = await prisma.escalationTarget.create({
     data: {
       workspaceId,
@@ -92,19 +156,11 @@ export async function addEscalationTarget(
       escalationLevel: input.escalationLevel,
       priority,
       settings: input.settings,
+      channelId: input.channelId,
     },
   });
 
-  return {
-    id: target.id,
-    targetType: target.targetType as EscalationTargetType,
-    targetId: target.targetId,
-    targetName: target.targetName || undefined,
-    escalationLevel: target.escalationLevel,
-    priority: target.priority,
-    isActive: target.isActive,
-    settings: target.settings || undefined,
-  };
+  return toTargetData(target);
 }
 
 /**
@@ -241,6 +297,10 @@ export function getTargetDescription(target: EscalationTargetData): string {
       return `👥 Group: ${target.targetName || target.targetId}`;
     case 'channel':
       return `#️⃣ Channel: ${target.targetName || target.targetId}`;
+    case 'rotation':
+      return `🔄 On-call: ${target.targetName || target.targetId}`;
+    case 'webhook':
+      return `🔗 Webhook: ${target.targetName || target.targetId}`;
     default:
       return target.targetId;
   }
@@ -330,6 +390,31 @@ export async function validateTarget(
           throw error;
         }
 
+      case 'rotation': {
+        const rotation = await prisma.onCallRotation.findUnique({ where: { id: targetId } });
+        if (!rotation) {
+          return { valid: false, error: 'On-call rotation not found. Create one with /qr-oncall first.' };
+        }
+        if (rotation.memberIds.length === 0) {
+          return { valid: false, error: `The ${rotation.name} rotation has nobody in it. Add people with /qr-oncall first.` };
+        }
+        return {
+          valid: true,
+          name: rotation.name,
+        };
+      }
+
+      case 'webhook': {
+        const urlError = await checkWebhookHost(targetId);
+        if (urlError) {
+          return { valid: false, error: urlError };
+        }
+        return {
+          valid: true,
+          name: new URL(targetId).host,
+        };
+      }
+
       default:
         return { valid: false, error: `Unknown target type: ${targetType}. Please contact support.` };
     }
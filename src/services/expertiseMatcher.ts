@@ -2,6 +2,8 @@
  * Expertise Matching Service
  * Matches questions to users based on their expertise
  */
+import { prisma } from '../utils/db.js';
+import { EXPERTISE_MATCHING, QUESTION_STATUS } from '../utils/constants.js';
 
 export interface ExpertiseMatch {
   userId: string;
@@ -9,12 +11,174 @@ export interface ExpertiseMatch {
   reasons: string[];
 }
 
-// Placeholder - will implement in Phase 3
+export interface FindRespondersOptions {
+  excludeUserIds?: string[]; // Internal user IDs to leave out (e.g. the asker)
+  now?: Date;
+}
+
+/**
+ * Expertise row used for scoring (subset of UserExpertise)
+ */
+export interface ExpertiseRecord {
+  userId: string;
+  topic: string;
+  confidenceScore: number;
+  answerCount: number;
+  lastAnsweredAt: Date | null;
+}
+
+/**
+ * Recency multiplier in the range (0, 1], halving every RECENCY_HALF_LIFE_DAYS
+ */
+export function getRecencyWeight(lastAnsweredAt: Date | null, now: Date = new Date()): number {
+  if (!lastAnsweredAt) {
+    return EXPERTISE_MATCHING.NO_HISTORY_RECENCY_WEIGHT;
+  }
+
+  const daysSince = Math.max(0, (now.getTime() - lastAnsweredAt.getTime()) / 86400000);
+  return Math.pow(0.5, daysSince / EXPERTISE_MATCHING.RECENCY_HALF_LIFE_DAYS);
+}
+
+/**
+ * Score users against question keywords
+ * Pure function so the weighting can be tested without a database
+ *
+ * @param keywords - Keywords extracted from the question
+ * @param expertise - Expertise rows matching any of the keywords
+ * @param channelAnswerCounts - Answers per user in the question's channel
+ * @param now - Reference time for recency calculations
+ */
+export function scoreResponders(
+  keywords: string[],
+  expertise: ExpertiseRecord[],
+  channelAnswerCounts: Map<string, number>,
+  now: Date = new Date()
+): ExpertiseMatch[] {
+  const keywordSet = new Set(keywords.map((k) => k.toLowerCase()));
+  const matches = new Map<string, ExpertiseMatch>();
+
+  const getMatch = (userId: string): ExpertiseMatch => {
+    let match = matches.get(userId);
+    if (!match) {
+      match = { userId, score: 0, reasons: [] };
+      matches.set(userId, match);
+    }
+    return match;
+  };
+
+  // 1. Keyword expertise: confidence, weighted by answer volume and recency
+  for (const record of expertise) {
+    if (!keywordSet.has(record.topic.toLowerCase())) continue;
+
+    const volumeWeight = 1 + Math.log1p(record.answerCount);
+    const recencyWeight = getRecencyWeight(record.lastAnsweredAt, now);
+    const topicScore =
+      record.confidenceScore * EXPERTISE_MATCHING.KEYWORD_WEIGHT * volumeWeight * recencyWeight;
+
+    if (topicScore <= 0) continue;
+
+    const match = getMatch(record.userId);
+    match.score += topicScore;
+
+    const answered = record.answerCount > 0
+      ? `, ${record.answerCount} answer${record.answerCount !== 1 ? 's' : ''}`
+      : '';
+    match.reasons.push(
+      `${record.topic} expert (${Math.round(record.confidenceScore * 100)}%${answered})`
+    );
+  }
+
+  // 2. Channel history: people who answer in this channel tend to know its topics
+  for (const [userId, count] of channelAnswerCounts) {
+    if (count <= 0) continue;
+
+    const match = getMatch(userId);
+    match.score += Math.log1p(count) * EXPERTISE_MATCHING.CHANNEL_WEIGHT;
+    match.reasons.push(`${count} answer${count !== 1 ? 's' : ''} in this channel`);
+  }
+
+  // 3. Recent activity bonus across all matched topics
+  for (const match of matches.values()) {
+    const lastAnswered = expertise
+      .filter((e) => e.userId === match.userId && e.lastAnsweredAt)
+      .map((e) => e.lastAnsweredAt!.getTime())
+      .sort((a, b) => b - a)[0];
+
+    if (lastAnswered !== undefined) {
+      const daysSince = (now.getTime() - lastAnswered) / 86400000;
+      if (daysSince < EXPERTISE_MATCHING.RECENT_ACTIVITY_DAYS) {
+        match.score += EXPERTISE_MATCHING.RECENT_ACTIVITY_BONUS;
+        match.reasons.push('Active recently');
+      }
+    }
+  }
+
+  return Array.from(matches.values())
+    .filter((m) => m.score >= EXPERTISE_MATCHING.MIN_SCORE)
+    .map((m) => ({ ...m, score: Math.round(m.score * 100) / 100 }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Find the best people to answer a question
+ *
+ * @param questionKeywords - Question's extractedKeywords
+ * @param channelId - Internal channel ID the question was asked in
+ * @param limit - Maximum number of matches to return
+ * @param options - Users to exclude and reference time
+ * @returns Matches ordered by descending score, with reasons
+ */
 export async function findBestResponders(
   questionKeywords: string[],
   channelId: string,
-  limit: number = 3
+  limit: number = 3,
+  options: FindRespondersOptions = {}
 ): Promise<ExpertiseMatch[]> {
-  // TODO: Implement expertise matching algorithm
-  return [];
+  const now = options.now || new Date();
+  const excludeUserIds = options.excludeUserIds || [];
+
+  const channel = await prisma.channel.findUnique({
+    where: { id: channelId },
+  });
+
+  if (!channel) return [];
+
+  const topics = [...new Set(questionKeywords.map((k) => k.toLowerCase()))];
+
+  const [expertise, channelAnswers] = await Promise.all([
+    topics.length > 0
+      ? prisma.userExpertise.findMany({
+          where: {
+            topic: { in: topics },
+            userId: { notIn: excludeUserIds },
+            user: {
+              workspaceId: channel.workspaceId,
+              isActive: true,
+            },
+          },
+        })
+      : Promise.resolve([]),
+    prisma.question.groupBy({
+      by: ['answererId'],
+      where: {
+        channelId,
+        status: QUESTION_STATUS.ANSWERED,
+        answererId: { not: null, notIn: excludeUserIds },
+        answeredAt: {
+          gte: new Date(now.getTime() - EXPERTISE_MATCHING.CHANNEL_HISTORY_DAYS * 86400000),
+        },
+        answerer: { isActive: true },
+      },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const channelAnswerCounts = new Map<string, number>();
+  for (const row of channelAnswers) {
+    if (row.answererId) {
+      channelAnswerCounts.set(row.answererId, row._count._all);
+    }
+  }
+
+  return scoreResponders(topics, expertise, channelAnswerCounts, now).slice(0, limit);
 }
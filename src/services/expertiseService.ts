@@ -0,0 +1,255 @@
+/**
+ * Expertise Service
+ * Maintains UserExpertise records as people answer questions or declare topics
+ */
+import { prisma } from '../utils/db.js';
+import { logger } from '../utils/logger.js';
+import { EXPERTISE_LEARNING } from '../utils/constants.js';
+import { LANGUAGE_PACKS, detectLanguage, getStopWords, tokenizeWords } from './languageDetector.js';
+
+export type ExpertiseSource = 'auto' | 'manual';
+
+/**
+ * Apply time decay to a confidence score
+ * Confidence drifts toward DECAY_FLOOR, halving its distance every DECAY_HALF_LIFE_DAYS
+ *
+ * @param since - When the score was last changed (answer or previous decay)
+ */
+export function decayConfidence(
+  confidence: number,
+  since: Date | null,
+  now: Date = new Date()
+): number {
+  if (!since) return confidence;
+
+  const floor = EXPERTISE_LEARNING.DECAY_FLOOR;
+  if (confidence <= floor) return confidence;
+
+  const daysSince = Math.max(0, (now.getTime() - since.getTime()) / 86400000);
+  const factor = Math.pow(0.5, daysSince / EXPERTISE_LEARNING.DECAY_HALF_LIFE_DAYS);
+
+  return floor + (confidence - floor) * factor;
+}
+
+/**
+ * Confidence after one more answer on a topic
+ * Decays the previous score for staleness, then moves it toward 1 by LEARNING_RATE
+ */
+export function computeUpdatedConfidence(
+  current: number | null,
+  lastUpdatedAt: Date | null,
+  now: Date = new Date()
+): number {
+  const base = current === null
+    ? EXPERTISE_LEARNING.STARTING_CONFIDENCE
+    : decayConfidence(current, lastUpdatedAt, now);
+
+  const updated = base + (1 - base) * EXPERTISE_LEARNING.LEARNING_RATE;
+  return Math.min(EXPERTISE_LEARNING.MAX_CONFIDENCE, Math.round(updated * 1000) / 1000);
+}
+
+/**
+ * Record that a user answered a question about the given topics
+ * Upserts one UserExpertise row per keyword
+ *
+ * @param userId - Internal user ID of the answerer
+ * @param keywords - Question's extractedKeywords
+ * @param answeredAt - When the answer was given
+ */
+export async function recordAnswerExpertise(
+  userId: string,
+  keywords: string[],
+  answeredAt: Date = new Date()
+): Promise<void> {
+  const topics = [...new Set(keywords.map((k) => k.toLowerCase()))]
+    .slice(0, EXPERTISE_LEARNING.MAX_TOPICS_PER_ANSWER);
+
+  if (topics.length === 0) return;
+
+  const existing = await prisma.userExpertise.findMany({
+    where: {
+      userId,
+      topic: { in: topics },
+    },
+  });
+  const existingByTopic = new Map(existing.map((e) => [e.topic, e]));
+
+  await prisma.$transaction(
+    topics.map((topic) => {
+      const current = existingByTopic.get(topic);
+      const confidenceScore = computeUpdatedConfidence(
+        current ? current.confidenceScore : null,
+        current ? current.updatedAt : null,
+        answeredAt
+      );
+
+      return prisma.userExpertise.upsert({
+        where: {
+          userId_topic: { userId, topic },
+        },
+        update: {
+          confidenceScore,
+          answerCount: { increment: 1 },
+          lastAnsweredAt: answeredAt,
+        },
+        create: {
+          userId,
+          topic,
+          confidenceScore,
+          answerCount: 1,
+          lastAnsweredAt: answeredAt,
+          source: 'auto',
+        },
+      });
+    })
+  );
+
+  logger.debug('Updated user expertise from answer', {
+    userId,
+    topics,
+  });
+}
+
+/**
+ * Decay automatically learned topics that have not been answered recently
+ * Manual topics are left alone since the user declared them explicitly
+ * @returns Number of expertise rows updated
+ */
+export async function decayStaleExpertise(now: Date = new Date()): Promise<number> {
+  const staleBefore = new Date(now.getTime() - EXPERTISE_LEARNING.STALE_AFTER_DAYS * 86400000);
+
+  const staleRows = await prisma.userExpertise.findMany({
+    where: {
+      source: 'auto',
+      lastAnsweredAt: { lt: staleBefore },
+      confidenceScore: { gt: EXPERTISE_LEARNING.DECAY_FLOOR },
+    },
+  });
+
+  let updated = 0;
+  for (const row of staleRows) {
+    // Decay from updatedAt so each run only applies the time since the last change
+    const decayed = decayConfidence(row.confidenceScore, row.updatedAt, now);
+    const rounded = Math.round(decayed * 1000) / 1000;
+
+    if (rounded < row.confidenceScore) {
+      await prisma.userExpertise.update({
+        where: { id: row.id },
+        data: { confidenceScore: rounded },
+      });
+      updated++;
+    }
+  }
+
+  if (updated > 0) {
+    logger.info('Decayed stale expertise topics', { updated });
+  }
+
+  return updated;
+}
+
+export interface ExpertiseTopicData {
+  topic: string;
+  confidenceScore: number;
+  answerCount: number;
+  lastAnsweredAt: Date | null;
+  source: ExpertiseSource;
+}
+
+/**
+ * Turn free-form topic input into topics that can match question keywords
+ * Uses the same rules as keyword extraction: lowercased words of the input's language, long enough
+ * and not stop words, so accented and Japanese topics are kept
+ */
+export function normalizeTopics(input: string): string[] {
+  const language = detectLanguage(input);
+  const stopWords = getStopWords(language);
+  const { minKeywordLength } = LANGUAGE_PACKS[language];
+
+  const topics = tokenizeWords(input.toLowerCase())
+    .flatMap((word) => word.split(/['’]/))
+    .filter((word) => [...word].length >= minKeywordLength && !stopWords.has(word));
+
+  return [...new Set(topics)];
+}
+
+/**
+ * Get a user's expertise topics, strongest first
+ */
+export async function getUserExpertise(userId: string): Promise<ExpertiseTopicData[]> {
+  const rows = await prisma.userExpertise.findMany({
+    where: { userId },
+    orderBy: [{ confidenceScore: 'desc' }, { topic: 'asc' }],
+  });
+
+  return rows.map((r) => ({
+    topic: r.topic,
+    confidenceScore: r.confidenceScore,
+    answerCount: r.answerCount,
+    lastAnsweredAt: r.lastAnsweredAt,
+    source: r.source as ExpertiseSource,
+  }));
+}
+
+/**
+ * Apply edits from the expertise modal
+ * Topics not in keepTopics are removed; addTopics are declared manually
+ *
+ * @param userId - Internal user ID being edited
+ * @param keepTopics - Existing topics the user kept selected
+ * @param addTopics - New topics to declare
+ * @returns Topics added and removed
+ */
+export async function updateManualExpertise(
+  userId: string,
+  keepTopics: string[],
+  addTopics: string[]
+): Promise<{ added: string[]; removed: string[] }> {
+  const existing = await prisma.userExpertise.findMany({
+    where: { userId },
+  });
+  const existingTopics = new Set(existing.map((e) => e.topic));
+  const keep = new Set(keepTopics);
+
+  const removed = existing.map((e) => e.topic).filter((t) => !keep.has(t) && !addTopics.includes(t));
+  const added = addTopics.filter((t) => !existingTopics.has(t));
+  // Adding a topic that was only learned automatically makes it a declared topic
+  const promoted = existing
+    .filter((e) => addTopics.includes(e.topic) && e.source !== 'manual')
+    .map((e) => e.topic);
+
+  await prisma.$transaction([
+    prisma.userExpertise.deleteMany({
+      where: {
+        userId,
+        topic: { in: removed },
+      },
+    }),
+    ...added.map((topic) =>
+      prisma.userExpertise.create({
+        data: {
+          userId,
+          topic,
+          confidenceScore: EXPERTISE_LEARNING.MANUAL_CONFIDENCE,
+          source: 'manual',
+        },
+      })
+    ),
+    prisma.userExpertise.updateMany({
+      where: {
+        userId,
+        topic: { in: promoted },
+      },
+      data: { source: 'manual' },
+    }),
+  ]);
+
+  logger.info('Updated manual expertise', {
+    userId,
+    added: added.length,
+    removed: removed.length,
+    promoted: promoted.length,
+  });
+
+  return { added, removed };
+}
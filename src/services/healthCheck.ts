@@ -7,6 +7,8 @@ import boltPkg from '@slack/bolt';
 import type { App } from '@slack/bolt';
 import { prisma } from '../utils/db.js';
 import { logger } from '../utils/logger.js';
+import { LEADER_ELECTION } from '../utils/constants.js';
+import { INSTANCE_ID, getLeadershipState } from './leaderElection.js';
 
 interface HealthStatus {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -25,11 +27,24 @@ interface HealthStatus {
       error?: string;
     };
     escalationEngine: {
-      status: 'running' | 'stopped';
+      status: 'running' | 'standby' | 'stopped'; // standby: another instance holds the lease
     };
+    leadership: LeadershipHealth;
   };
 }
 
+interface LeadershipHealth {
+  instanceId: string;
+  jobs: Record<string, {
+    isLeader: boolean;
+    leader: string | null;
+    leaderSince?: string;
+    leaseExpiresAt?: string;
+    lastCheckedAt?: string;
+    error?: string;
+  }>;
+}
+
 let server: http.Server | null = null;
 let slackApp: App | null = null;
 let escalationEngineRunning = false;
@@ -106,6 +121,24 @@ export function setEscalationEngineStatus(running: boolean): void {
   escalationEngineRunning = running;
 }
 
+/**
+ * Which periodic jobs this instance runs, and who runs the rest
+ */
+export function getLeadershipHealth(): LeadershipHealth {
+  const jobs: LeadershipHealth['jobs'] = {};
+  for (const [name, state] of Object.entries(getLeadershipState())) {
+    jobs[name] = {
+      isLeader: state.isLeader,
+      leader: state.leader,
+      leaderSince: state.leaderSince?.toISOString(),
+      leaseExpiresAt: state.leaseExpiresAt?.toISOString(),
+      lastCheckedAt: state.lastCheckedAt?.toISOString(),
+      error: state.error,
+    };
+  }
+  return { instanceId: INSTANCE_ID, jobs };
+}
+
 /**
  * Get comprehensive health status
  */
@@ -116,13 +149,20 @@ async function getHealthStatus(): Promise<HealthStatus> {
   ]);
 
   const [database, slack] = checks;
+  const leadership = getLeadershipHealth();
+  const engineLease = leadership.jobs[LEADER_ELECTION.ESCALATION_ENGINE_LEASE];
+  const engineStatus = escalationEngineRunning
+    ? 'running'
+    : engineLease?.leader && engineLease.leader !== INSTANCE_ID
+      ? 'standby'
+      : 'stopped';
 
   // Determine overall status
   let status: 'healthy' | 'degraded' | 'unhealthy' = 'healthy';
 
   if (database.status === 'down' || slack.status === 'disconnected') {
     status = 'unhealthy';
-  } else if (!escalationEngineRunning) {
+  } else if (engineStatus === 'stopped') {
     status = 'degraded';
   }
 
@@ -134,8 +174,9 @@ async function getHealthStatus(): Promise<HealthStatus> {
       database,
       slack,
       escalationEngine: {
-        status: escalationEngineRunning ? 'running' : 'stopped',
+        status: engineStatus,
       },
+      leadership,
     },
   };
 }
@@ -0,0 +1,333 @@
+/**
+ * Language Detector
+ * Works out which language a message is written in, and holds each language's rule pack
+ *
+ * A pack has the question words, help phrases, question marks and stop words question detection and
+ * keyword extraction use for that language. English is always on - its phrases are the editable
+ * defaults in DetectionConfig - and the other packs can be switched off per workspace or channel.
+ * Detection is a heuristic over each language's common words and letters, which is plenty for
+ * choosing a pack; anything it can't place is treated as English.
+ */
+
+export type DetectionLanguage = 'en' | 'es' | 'fr' | 'de' | 'pt' | 'ja';
+
+export interface LanguagePack {
+  name: string;
+  questionWords: string[]; // Openers that make a message a question
+  helpPatterns: string[]; // Phrases anywhere in a message
+  requestPatterns: string[]; // Openers that ask for something without a question
+  questionMarks: string[]; // Marks that make a message a question wherever they appear
+  questionEnding?: RegExp; // Sentence-final particle that works like a question mark (captured as group 1)
+  stopWords: string[]; // Common words: never keywords, and counted to recognise the language
+  letters: string; // Letters that point to this language rather than another Latin-script one
+  spaced: boolean; // Words are separated by spaces, so openers match whole words and accents are optional
+  minLengthScale: number; // Applied to the minimum length - Japanese says more in fewer characters
+  minKeywordLength: number;
+}
+
+export const LANGUAGE_PACKS: Record<DetectionLanguage, LanguagePack> = {
+  en: {
+    name: 'English',
+    questionWords: [
+      'how do', 'how can', 'how to', 'how does', 'how would',
+      'what is', 'what are', 'what does', 'what\'s',
+      'where is', 'where can', 'where do',
+      'when should', 'when does', 'when can',
+      'why does', 'why is', 'why can\'t',
+      'who can', 'who should', 'who knows',
+      'which', 'is there', 'are there',
+      'could you', 'could i', 'would you', 'would it',
+      'can you', 'can i', 'can we',
+      'does anyone', 'does this', 'does it',
+    ],
+    helpPatterns: [
+      'does anyone know',
+      'can someone',
+      'anyone know',
+      'could someone',
+      'help with',
+      'need help',
+    ],
+    requestPatterns: [
+      'please', 'pls', 'plz',
+      'let me know', 'tell me', 'show me', 'explain',
+      'looking for', 'i\'m looking for', 'trying to figure out',
+    ],
+    questionMarks: ['?'],
+    stopWords: [
+      'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at',
+      'to', 'for', 'of', 'with', 'by', 'from', 'is', 'are',
+      'how', 'what', 'when', 'where', 'why', 'who', 'does',
+      'can', 'could', 'should', 'would', 'i', 'you', 'we',
+      'it', 'this', 'that', 'my', 'do', 'have', 'there', 'not',
+    ],
+    letters: '',
+    spaced: true,
+    minLengthScale: 1,
+    minKeywordLength: 4,
+  },
+  es: {
+    name: 'Spanish',
+    questionWords: [
+      'cómo', 'qué', 'dónde', 'cuándo', 'por qué', 'quién', 'quiénes',
+      'cuál', 'cuáles', 'cuánto', 'cuántos', 'hay',
+      'puedo', 'puedes', 'puede', 'podemos', 'podrías', 'podría',
+      'se puede', 'es posible', 'alguien sabe', 'alguien tiene',
+    ],
+    helpPatterns: [
+      'alguien sabe',
+      'alguien puede',
+      'alguien me puede',
+      'me pueden ayudar',
+      'necesito ayuda',
+      'ayuda con',
+    ],
+    requestPatterns: [
+      'por favor', 'porfa',
+      'avísame', 'avísenme', 'dime', 'díganme', 'explica',
+      'estoy buscando', 'busco', 'necesito',
+    ],
+    questionMarks: ['?', '¿'],
+    stopWords: [
+      'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'y', 'o', 'pero',
+      'en', 'de', 'del', 'al', 'con', 'por', 'para', 'es', 'son', 'está', 'están',
+      'que', 'qué', 'cómo', 'como', 'cuándo', 'dónde', 'quién', 'cuál',
+      'se', 'me', 'mi', 'tu', 'yo', 'lo', 'le', 'hay', 'este', 'esta', 'esto', 'puedo', 'puede',
+    ],
+    letters: 'ñ¿¡',
+    spaced: true,
+    minLengthScale: 1,
+    minKeywordLength: 4,
+  },
+  fr: {
+    name: 'French',
+    questionWords: [
+      'comment', 'qu\'est-ce', 'que faire', 'quoi', 'où', 'quand', 'pourquoi',
+      'qui peut', 'qui sait', 'quel', 'quelle', 'quels', 'quelles', 'combien',
+      'est-ce que', 'est-ce qu\'', 'y a-t-il', 'est-il', 'peut-on',
+      'puis-je', 'pouvez-vous', 'peux-tu', 'savez-vous', 'sais-tu',
+    ],
+    helpPatterns: [
+      'quelqu\'un sait',
+      'quelqu\'un peut',
+      'quelqu\'un a',
+      'qui peut m\'aider',
+      'besoin d\'aide',
+      'aide pour',
+    ],
+    requestPatterns: [
+      's\'il vous plaît', 's\'il te plaît', 'svp', 'stp',
+      'merci de', 'dites-moi', 'dis-moi', 'montrez-moi', 'expliquez',
+      'je cherche', 'j\'essaie de',
+    ],
+    questionMarks: ['?'],
+    stopWords: [
+      'le', 'la', 'les', 'un', 'une', 'des', 'et', 'ou', 'mais', 'dans', 'sur',
+      'de', 'du', 'au', 'aux', 'avec', 'pour', 'par', 'est', 'sont', 'que', 'qui',
+      'quoi', 'comment', 'quand', 'où', 'pourquoi', 'je', 'il', 'elle', 'nous', 'vous',
+      'ils', 'ce', 'cette', 'ces', 'pas', 'ne', 'on', 'mon', 'ma', 'mes', 'votre',
+      'qu', 'l', 'd', 'j', 'c', 'n', 'y',
+    ],
+    letters: 'èëîïûùœ',
+    spaced: true,
+    minLengthScale: 1,
+    minKeywordLength: 4,
+  },
+  de: {
+    name: 'German',
+    questionWords: [
+      'wie', 'was', 'wo', 'wann', 'warum', 'wieso', 'weshalb', 'wer',
+      'welche', 'welcher', 'welches', 'gibt es',
+      'kann ich', 'kann man', 'kannst du', 'können sie', 'könnt ihr',
+      'weiß jemand', 'hat jemand', 'ist es', 'ist das', 'muss ich', 'soll ich', 'darf ich',
+    ],
+    helpPatterns: [
+      'weiß jemand',
+      'kann jemand',
+      'hat jemand',
+      'brauche hilfe',
+      'hilfe bei',
+    ],
+    requestPatterns: [
+      'bitte', 'sag mir', 'sagt mir', 'zeig mir', 'erklär mir', 'erkläre mir',
+      'ich suche', 'ich versuche',
+    ],
+    questionMarks: ['?'],
+    stopWords: [
+      'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem',
+      'und', 'oder', 'aber', 'in', 'im', 'auf', 'an', 'am', 'zu', 'zum', 'zur',
+      'für', 'von', 'vom', 'mit', 'bei', 'ist', 'sind', 'wie', 'was', 'wo', 'wann',
+      'warum', 'wer', 'welche', 'ich', 'du', 'er', 'sie', 'es', 'wir', 'ihr',
+      'nicht', 'kein', 'keine', 'kann', 'können', 'gibt', 'hat', 'habe', 'dass', 'auch', 'noch',
+    ],
+    letters: 'äöüß',
+    spaced: true,
+    minLengthScale: 1,
+    minKeywordLength: 4,
+  },
+  pt: {
+    name: 'Portuguese',
+    questionWords: [
+      'como', 'o que', 'onde', 'quando', 'por que', 'por quê', 'quem',
+      'qual', 'quais', 'quanto', 'quantos', 'tem como', 'existe',
+      'é possível', 'posso', 'pode', 'podem', 'vocês sabem', 'você sabe',
+    ],
+    helpPatterns: [
+      'alguém sabe',
+      'alguém pode',
+      'alguém consegue',
+      'preciso de ajuda',
+      'ajuda com',
+    ],
+    requestPatterns: [
+      'por favor', 'pfv', 'pfvr',
+      'me avisa', 'me diga', 'me diz', 'me mostra', 'explica',
+      'estou procurando', 'procuro', 'preciso',
+    ],
+    questionMarks: ['?'],
+    stopWords: [
+      'o', 'a', 'os', 'as', 'um', 'uma', 'uns', 'umas', 'e', 'ou', 'mas',
+      'em', 'no', 'na', 'nos', 'nas', 'de', 'do', 'da', 'dos', 'das', 'com', 'por',
+      'para', 'pelo', 'pela', 'é', 'são', 'está', 'estão', 'que', 'como', 'quando',
+      'onde', 'quem', 'qual', 'quais', 'eu', 'você', 'vocês', 'ele', 'ela', 'nós',
+      'não', 'sim', 'se', 'me', 'meu', 'minha', 'isso', 'este', 'esta', 'tem', 'posso', 'pode',
+    ],
+    letters: 'ãõ',
+    spaced: true,
+    minLengthScale: 1,
+    minKeywordLength: 4,
+  },
+  ja: {
+    name: 'Japanese',
+    questionWords: [
+      'どうやって', 'どうすれば', 'どうしたら', 'どうして', 'なぜ', 'なんで',
+      '何が', '何を', '何で', 'どこ', 'いつから', 'いつまで', 'どれ', 'どの', 'どちら',
+      'いくら', 'どのくらい', 'ありますか', 'できますか', 'いいですか',
+    ],
+    helpPatterns: [
+      '教えてください',
+      '教えて下さい',
+      '誰か',
+      'どなたか',
+      'わかる方',
+      '分かる方',
+      'ご存知の方',
+      '助けて',
+      '手伝って',
+    ],
+    requestPatterns: [
+      'お願いします', 'お願いいたします', 'ください', '下さい',
+    ],
+    questionMarks: ['?', '？'],
+    questionEnding: /(か(?:な|ね)?)[\s。．.!！]*$/u,
+    stopWords: [
+      'これ', 'それ', 'あれ', 'この', 'その', 'あの', 'ここ', 'そこ',
+      'です', 'ます', 'でした', 'ました', 'ません', 'でしょう', 'する', 'して', 'します', 'した',
+      'いる', 'ある', 'なる', 'こと', 'もの', 'ため', 'よう', 'どう', 'なに', '何', 'どこ', 'いつ',
+      '誰', 'だれ', 'ください', 'お願い', 'いい', 'など', 'から', 'まで', 'けど',
+    ],
+    letters: '',
+    spaced: false,
+    minLengthScale: 0.5,
+    minKeywordLength: 2,
+  },
+};
+
+/**
+ * Languages with a pack besides English, which every message can be read as
+ */
+export const OPTIONAL_LANGUAGES: Exclude<DetectionLanguage, 'en'>[] = ['es', 'fr', 'de', 'pt', 'ja'];
+
+const stopWordSets = new Map(
+  (Object.keys(LANGUAGE_PACKS) as DetectionLanguage[]).map((language) => [
+    language,
+    new Set(LANGUAGE_PACKS[language].stopWords),
+  ])
+);
+
+// Unicode word boundaries, including dictionary-based ones for Japanese, which has no spaces
+const wordSegmenter = new Intl.Segmenter('en', { granularity: 'word' });
+
+/**
+ * Split text into words in any script
+ */
+export function tokenizeWords(text: string): string[] {
+  return [...wordSegmenter.segment(text)].filter((s) => s.isWordLike).map((s) => s.segment);
+}
+
+/**
+ * Stop words for a language, always with the English ones (mixed-language messages are common)
+ */
+export function getStopWords(language: DetectionLanguage): Set<string> {
+  return language === 'en'
+    ? stopWordSets.get('en')!
+    : new Set([...stopWordSets.get('en')!, ...stopWordSets.get(language)!]);
+}
+
+/**
+ * The language a message is most likely written in
+ * @param languages - Packs that may be chosen besides English
+ */
+export function detectLanguage(
+  text: string,
+  languages: readonly DetectionLanguage[] = OPTIONAL_LANGUAGES
+): DetectionLanguage {
+  if (languages.includes('ja') && /[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text)) {
+    return 'ja';
+  }
+
+  const lower = text.toLowerCase();
+  const words = tokenizeWords(lower).flatMap((word) => word.split(/['’]/));
+
+  // Common words count once each, telltale letters once per occurrence; English wins ties
+  let best: DetectionLanguage = 'en';
+  let bestScore = words.filter((word) => stopWordSets.get('en')!.has(word)).length;
+  for (const language of languages) {
+    if (language === 'en' || language === 'ja') continue;
+
+    const pack = LANGUAGE_PACKS[language];
+    const stopWords = stopWordSets.get(language)!;
+    let score = words.filter((word) => stopWords.has(word)).length;
+    for (const char of lower) {
+      if (pack.letters.includes(char)) score++;
+    }
+
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Lowercase text without accents, so "como" matches "cómo" (spaced languages only)
+ */
+export function foldForMatching(text: string, pack: LanguagePack): string {
+  const lower = text.toLowerCase();
+  return pack.spaced ? lower.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC') : lower;
+}
+
+/**
+ * Whether folded text opens with a phrase - as whole words for spaced languages, anywhere for Japanese,
+ * whose question words come mid-sentence
+ */
+export function opensWithPhrase(folded: string, phrase: string, pack: LanguagePack): boolean {
+  const target = foldForMatching(phrase, pack);
+  if (!target) return false;
+  if (!pack.spaced) return folded.includes(target);
+
+  // Skip leading punctuation such as the inverted "¿" of a Spanish question
+  const opening = folded.replace(/^[^\p{L}\p{N}]+/u, '');
+  if (!opening.startsWith(target)) return false;
+  // "can i" shouldn't match "can it"; phrases like "est-ce qu'" are meant to run on
+  return !/[\p{L}\p{N}]$/u.test(target) || !/^[\p{L}\p{N}]/u.test(opening.slice(target.length));
+}
+
+/**
+ * Whether folded text contains a phrase anywhere
+ */
+export function containsPhrase(folded: string, phrase: string, pack: LanguagePack): boolean {
+  const target = foldForMatching(phrase, pack);
+  return target !== '' && folded.includes(target);
+}
@@ -0,0 +1,219 @@
+/**
+ * Leader Election Service
+ * Makes sure each periodic job runs on only one instance when several replicas are deployed
+ *
+ * Every job has a row in leader_leases. The instance holding an unexpired lease runs the job and
+ * renews it every RENEW_INTERVAL_MS; the others keep trying to take it, which succeeds once the
+ * leader stops renewing (crash, shutdown, lost database connection) and its lease lapses.
+ * Lease times come from the database clock, so clock drift between instances doesn't matter.
+ */
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { prisma } from '../utils/db.js';
+import { logger } from '../utils/logger.js';
+import { LEADER_ELECTION } from '../utils/constants.js';
+
+// Identifies this process as a lease holder
+export const INSTANCE_ID = `${hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+
+export interface LeaderTask {
+  start: () => void;
+  stop: () => void;
+}
+
+export interface LeadershipState {
+  isLeader: boolean;
+  leader: string | null; // Instance holding the lease when last checked (null if nobody does)
+  leaderSince: Date | null;
+  leaseExpiresAt: Date | null;
+  lastCheckedAt: Date | null;
+  error?: string;
+}
+
+interface LeaseRow {
+  holder: string;
+  acquiredAt: Date;
+  expiresAt: Date;
+}
+
+interface Election {
+  task: LeaderTask;
+  state: LeadershipState;
+  lastRenewedAt: Date | null; // When this instance last successfully renewed its lease
+  timeout: NodeJS.Timeout | null;
+}
+
+const elections = new Map<string, Election>();
+
+/**
+ * Take or renew a lease
+ * Succeeds if nobody holds it, this instance already does, or the holder's lease has lapsed
+ * @returns The lease as it now stands - held by this instance or not
+ */
+export async function tryAcquireLease(
+  name: string,
+  holder: string = INSTANCE_ID,
+  ttlMs: number = LEADER_ELECTION.LEASE_TTL_MS
+): Promise<LeaseRow | null> {
+  const acquired = await prisma.$queryRaw<LeaseRow[]>`
+    INSERT INTO leader_leases (name, holder, acquired_at, expires_at, updated_at)
+    VALUES (
+      ${name},
+      ${holder},
+      NOW() AT TIME ZONE 'UTC',
+      NOW() AT TIME ZONE 'UTC' + make_interval(secs => ${ttlMs / 1000}),
+      NOW()
+    )
+    ON CONFLICT (name) DO UPDATE
+    SET holder = EXCLUDED.holder,
+        acquired_at = CASE WHEN leader_leases.holder = EXCLUDED.holder
+                           THEN leader_leases.acquired_at ELSE EXCLUDED.acquired_at END,
+        expires_at = EXCLUDED.expires_at,
+        updated_at = NOW()
+    WHERE leader_leases.holder = EXCLUDED.holder
+       OR leader_leases.expires_at < NOW() AT TIME ZONE 'UTC'
+    RETURNING holder, acquired_at AS "acquiredAt", expires_at AS "expiresAt"
+  `;
+  if (acquired.length > 0) {
+    return acquired[0];
+  }
+
+  return prisma.leaderLease.findUnique({
+    where: { name },
+    select: { holder: true, acquiredAt: true, expiresAt: true },
+  });
+}
+
+/**
+ * Give up a lease so another instance can take over straight away
+ */
+export async function releaseLease(name: string, holder: string = INSTANCE_ID): Promise<void> {
+  await prisma.leaderLease.deleteMany({ where: { name, holder } });
+}
+
+/**
+ * Whether a leader that couldn't renew should stop its job
+ * It steps down before its lease can lapse, so two instances never run the job at once
+ */
+export function shouldStepDown(lastRenewedAt: Date | null, now: Date = new Date()): boolean {
+  if (!lastRenewedAt) return true;
+  const safeFor = LEADER_ELECTION.LEASE_TTL_MS - LEADER_ELECTION.RENEW_INTERVAL_MS;
+  return now.getTime() - lastRenewedAt.getTime() >= safeFor;
+}
+
+function becomeLeader(name: string, election: Election) {
+  if (election.state.isLeader) return;
+  election.state.isLeader = true;
+  logger.info('Acquired leadership', { job: name, instanceId: INSTANCE_ID });
+  election.task.start();
+}
+
+function stepDown(name: string, election: Election, reason: string) {
+  if (!election.state.isLeader) return;
+  election.state.isLeader = false;
+  logger.warn('Lost leadership', { job: name, instanceId: INSTANCE_ID, reason });
+  election.task.stop();
+}
+
+async function runElection(name: string, election: Election) {
+  // Measured before the query so the step-down check errs on the early side
+  const attemptedAt = new Date();
+
+  try {
+    const lease = await tryAcquireLease(name);
+    election.state.leader = lease?.holder ?? null;
+    election.state.leaderSince = lease?.acquiredAt ?? null;
+    election.state.leaseExpiresAt = lease?.expiresAt ?? null;
+    election.state.lastCheckedAt = attemptedAt;
+    delete election.state.error;
+
+    if (elections.get(name) !== election) {
+      // Stopped while the query was in flight
+      return;
+    }
+    if (lease?.holder === INSTANCE_ID) {
+      election.lastRenewedAt = attemptedAt;
+      becomeLeader(name, election);
+    } else {
+      stepDown(name, election, `lease held by ${lease?.holder ?? 'nobody'}`);
+    }
+  } catch (error) {
+    election.state.error = error instanceof Error ? error.message : String(error);
+    logger.error('Leader election failed', { job: name, error: election.state.error });
+
+    if (election.state.isLeader && shouldStepDown(election.lastRenewedAt)) {
+      stepDown(name, election, 'could not renew lease');
+    }
+  }
+}
+
+function scheduleElection(name: string, election: Election, delayMs: number) {
+  election.timeout = setTimeout(async () => {
+    await runElection(name, election);
+    // Stopped while the query was in flight
+    if (elections.get(name) !== election) return;
+    scheduleElection(name, election, LEADER_ELECTION.RENEW_INTERVAL_MS);
+  }, delayMs);
+}
+
+/**
+ * Run a periodic job only while this instance holds its lease
+ * task.start() is called on becoming leader and task.stop() on losing leadership
+ */
+export function runAsLeader(name: string, task: LeaderTask): void {
+  if (elections.has(name)) {
+    logger.warn('Leader election already running', { job: name });
+    return;
+  }
+
+  const election: Election = {
+    task,
+    state: {
+      isLeader: false,
+      leader: null,
+      leaderSince: null,
+      leaseExpiresAt: null,
+      lastCheckedAt: null,
+    },
+    lastRenewedAt: null,
+    timeout: null,
+  };
+  elections.set(name, election);
+  scheduleElection(name, election, 0);
+}
+
+/**
+ * Stop every job this instance leads and release the leases (graceful shutdown)
+ */
+export async function stopLeaderElection(): Promise<void> {
+  const running = [...elections.entries()];
+  elections.clear();
+
+  await Promise.all(
+    running.map(async ([name, election]) => {
+      if (election.timeout) clearTimeout(election.timeout);
+      if (!election.state.isLeader) return;
+
+      election.state.isLeader = false;
+      election.task.stop();
+      try {
+        await releaseLease(name);
+        logger.info('Released leadership', { job: name, instanceId: INSTANCE_ID });
+      } catch (error) {
+        // It will lapse on its own after LEASE_TTL_MS
+        logger.warn('Could not release lease', { job: name, error: error instanceof Error ? error.message : String(error) });
+      }
+    })
+  );
+}
+
+/**
+ * This instance's view of who leads each job
+ */
+export function getLeadershipState(): Record<string, LeadershipState> {
+  const state: Record<string, LeadershipState> = {};
+  for (const [name, election] of elections) {
+    state[name] = { ...election.state };
+  }
+  return state;
+}
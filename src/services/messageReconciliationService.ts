@@ -0,0 +1,124 @@
+/**
+ * Message Reconciliation Service
+ * Keeps tracked questions in step with their Slack message when it's edited or deleted
+ *
+ * Driven by message_changed / message_deleted events, and by the escalation engine, which notices
+ * edits and deletions it missed (e.g. during downtime) when it next reads the question's thread.
+ */
+import type { WebClient } from '@slack/web-api';
+import { prisma } from '../utils/db.js';
+import { logger } from '../utils/logger.js';
+import { sanitizeMessageText } from '../utils/sanitize.js';
+import { ESCALATION_LEVEL, QUESTION_STATUS } from '../utils/constants.js';
+import { extractKeywords, isQuestion } from './questionDetector.js';
+import { getQuestionDetector } from './questionClassifierService.js';
+import { removeEscalationPosts, resolveEscalationPosts } from './escalationMessageService.js';
+
+export type EditAction = 'unchanged' | 'update' | 'dismiss';
+
+type ReconciledQuestion = {
+  id: string;
+  workspaceId: string;
+  status: string;
+  messageText: string;
+  isSideConversation: boolean;
+  slackMessageId: string;
+  channel: { slackChannelId: string };
+};
+
+/**
+ * Decide what an edit means for a tracked question
+ * Open questions edited into something that isn't a question are dismissed; everything else
+ * just picks up the new text. Zendesk side conversations are tracked whatever their wording.
+ * @param detectQuestion - The workspace's question test (defaults to the rules at the default threshold)
+ */
+export function getEditAction(
+  question: Pick<ReconciledQuestion, 'status' | 'messageText' | 'isSideConversation'>,
+  newText: string,
+  detectQuestion: (text: string) => boolean = isQuestion
+): EditAction {
+  if (sanitizeMessageText(newText) === question.messageText) {
+    return 'unchanged';
+  }
+
+  const isOpen = question.status === QUESTION_STATUS.UNANSWERED || question.status === QUESTION_STATUS.SNOOZED;
+  if (isOpen && !question.isSideConversation && !detectQuestion(newText)) {
+    return 'dismiss';
+  }
+  return 'update';
+}
+
+/**
+ * Find the tracked question for a Slack message, if there is one
+ */
+export async function findTrackedQuestion(slackTeamId: string, slackChannelId: string, slackMessageId: string) {
+  return prisma.question.findFirst({
+    where: {
+      slackMessageId,
+      workspace: { slackTeamId },
+      channel: { slackChannelId },
+    },
+    include: { channel: true },
+  });
+}
+
+/**
+ * Apply an edit to a tracked question
+ * @returns What was done
+ */
+export async function reconcileQuestionEdit(
+  client: WebClient,
+  question: ReconciledQuestion,
+  newText: string
+): Promise<EditAction> {
+  const detector = await getQuestionDetector(question.workspaceId, question.channel.slackChannelId);
+  const action = getEditAction(question, newText, (text) => detector.detect(text).isQuestion);
+  if (action === 'unchanged') {
+    return action;
+  }
+
+  const messageText = sanitizeMessageText(newText);
+  await prisma.question.update({
+    where: { id: question.id },
+    data: {
+      messageText,
+      extractedKeywords: extractKeywords(messageText),
+      ...(action === 'dismiss' ? { status: QUESTION_STATUS.DISMISSED } : {}),
+    },
+  });
+
+  if (action === 'dismiss') {
+    await resolveEscalationPosts(client, question.id);
+    try {
+      await client.reactions.remove({
+        channel: question.channel.slackChannelId,
+        timestamp: question.slackMessageId,
+        name: 'question',
+      });
+    } catch (error) {
+      // Never added, or already removed
+    }
+  }
+
+  logger.info('Question edited in Slack', { questionId: question.id, action });
+  return action;
+}
+
+/**
+ * Close a question whose Slack message was deleted, and clean up the bot's posts about it
+ */
+export async function reconcileQuestionDeletion(client: WebClient, question: ReconciledQuestion): Promise<void> {
+  const isOpen = question.status === QUESTION_STATUS.UNANSWERED || question.status === QUESTION_STATUS.SNOOZED;
+
+  await prisma.question.update({
+    where: { id: question.id },
+    data: {
+      // Answered questions keep their outcome; open ones are closed
+      ...(isOpen ? { status: QUESTION_STATUS.DISMISSED } : {}),
+      escalationLevel: ESCALATION_LEVEL.PAUSED,
+    },
+  });
+  await removeEscalationPosts(client, question.id);
+
+  logger.info('Question deleted in Slack', { questionId: question.id, previousStatus: question.status });
+}
@@ -0,0 +1,168 @@
+/**
+ * Message Template Service
+ * Per-workspace wording for escalation messages, rendered into Block Kit layouts
+ *
+ * Templates are mrkdwn with {{placeholder}} variables; anything not customised uses the default wording
+ */
+import { MESSAGE_TEMPLATES } from '../utils/constants.js';
+import { formatLadderDelay } from './escalationLadderService.js';
+import { buildQuestionActionsBlock } from './questionActions.js';
+
+export type EscalationTemplateKey = 'thread_user_group' | 'thread_user' | 'user_dm' | 'channel_alert';
+
+export type EscalationTemplates = Record<EscalationTemplateKey, string>;
+
+export const DEFAULT_ESCALATION_TEMPLATES: EscalationTemplates = {
+  thread_user_group: '⚠️ This question has been unanswered for {{age}}.\n\n{{target}} - Can someone help with this?',
+  thread_user: '⚠️ This question has been unanswered for {{age}}.\n\n{{target}} - Can you help with this?',
+  user_dm: "🔔 You've been assigned to help with an unanswered question from {{asker}} in {{channel}}",
+  channel_alert: '🚨 *Unanswered Question Alert*\n\nQuestion from {{asker}} in {{channel}} ({{age}} old)',
+};
+
+export const ESCALATION_TEMPLATE_LABELS: Record<EscalationTemplateKey, string> = {
+  thread_user_group: 'Thread reply mentioning a user group',
+  thread_user: 'Thread reply mentioning a person',
+  user_dm: 'Direct message to a person',
+  channel_alert: 'Alert in an escalation channel',
+};
+
+export const TEMPLATE_PLACEHOLDERS = ['age', 'asker', 'channel', 'target', 'level', 'question', 'link'] as const;
+
+export type TemplateVariables = Record<(typeof TEMPLATE_PLACEHOLDERS)[number], string>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_]+)\s*\}\}/g;
+
+/**
+ * The workspace's templates, with defaults filled in for any it hasn't customised
+ */
+export function getEscalationTemplates(custom?: Partial<EscalationTemplates>): EscalationTemplates {
+  const templates = { ...DEFAULT_ESCALATION_TEMPLATES };
+  for (const key of Object.keys(templates) as EscalationTemplateKey[]) {
+    if (custom?.[key]?.trim()) {
+      templates[key] = custom[key]!;
+    }
+  }
+  return templates;
+}
+
+/**
+ * Substitute {{placeholders}}
+ * Unknown placeholders are left as typed so a mistake shows up in the message rather than vanishing
+ */
+export function renderTemplate(template: string, variables: Partial<TemplateVariables>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const value = variables[name.toLowerCase() as keyof TemplateVariables];
+    return value !== undefined ? value : match;
+  });
+}
+
+/**
+ * Check a template can be saved
+ * @returns Error message, or null if the template is valid
+ */
+export function validateTemplate(template: string): string | null {
+  if (template.length > MESSAGE_TEMPLATES.MAX_LENGTH) {
+    return `Templates can be at most ${MESSAGE_TEMPLATES.MAX_LENGTH} characters`;
+  }
+
+  const unknown = [...template.matchAll(PLACEHOLDER_PATTERN)]
+    .map((m) => m[1].toLowerCase())
+    .filter((name) => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    return `Unknown placeholder {{${unknown[0]}}} - use ${TEMPLATE_PLACEHOLDERS.map((p) => `{{${p}}}`).join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Build the placeholder values for an escalated question
+ * @param target - Mention of whoever is being escalated to (empty for channel alerts)
+ */
+export function buildTemplateVariables(
+  question: any,
+  level: number,
+  ageMinutes: number,
+  threadLink: string,
+  target: string = ''
+): TemplateVariables {
+  return {
+    age: formatLadderDelay(Math.max(0, ageMinutes)),
+    asker: `<@${question.asker.slackUserId}>`,
+    channel: `<#${question.channel.slackChannelId}>`,
+    target,
+    level: level.toString(),
+    question: question.messageText,
+    link: threadLink,
+  };
+}
+
+/**
+ * Quote a question as mrkdwn, cutting very long ones short
+ */
+export function quoteQuestion(text: string): string {
+  const trimmed = text.length > MESSAGE_TEMPLATES.MAX_QUOTED_QUESTION_LENGTH
+    ? `${text.slice(0, MESSAGE_TEMPLATES.MAX_QUOTED_QUESTION_LENGTH)}…`
+    : text;
+  return trimmed.split('\n').map((line) => `> ${line}`).join('\n');
+}
+
+export interface EscalationMessage {
+  text: string; // Notification / fallback text
+  blocks: any[];
+}
+
+/**
+ * Lay out an escalation message: the templated wording, the question (outside its own thread),
+ * a details line with asker, channel, age and keywords, then the action buttons
+ * @param questionId - Omit to leave out the buttons (previews)
+ */
+export function buildEscalationMessage(
+  template: string,
+  variables: TemplateVariables,
+  options: { keywords?: string[]; includeQuestion?: boolean; questionId?: string } = {}
+): EscalationMessage {
+  const headline = renderTemplate(template, variables);
+  const blocks: any[] = [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: headline },
+    },
+  ];
+
+  if (options.includeQuestion) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: quoteQuestion(variables.question) },
+    });
+  }
+
+  const details = [
+    `👤 ${variables.asker}`,
+    `📍 ${variables.channel}`,
+    `⏱️ ${variables.age} old`,
+    `⬆️ Level ${variables.level}`,
+  ];
+  if (options.includeQuestion && variables.link) {
+    details.push(`<${variables.link}|View thread →>`);
+  }
+  blocks.push({
+    type: 'context',
+    elements: [{ type: 'mrkdwn', text: details.join('  •  ') }],
+  });
+
+  const keywords = (options.keywords || []).slice(0, MESSAGE_TEMPLATES.MAX_KEYWORDS_SHOWN);
+  if (keywords.length > 0) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `🏷️ ${keywords.map((k) => `\`${k}\``).join(' ')}` }],
+    });
+  }
+
+  if (options.questionId) {
+    blocks.push(buildQuestionActionsBlock(options.questionId));
+  }
+
+  const text = options.includeQuestion ? `${headline}\n\n${quoteQuestion(variables.question)}` : headline;
+  return { text, blocks };
+}
@@ -0,0 +1,356 @@
+/**
+ * On-Call Service
+ * Weekly or daily rotations of Slack users, with temporary overrides
+ * A 'rotation' escalation target resolves to whoever is on call when the escalation fires
+ */
+import { prisma } from '../utils/db.js';
+import { logger } from '../utils/logger.js';
+import { ONCALL } from '../utils/constants.js';
+import {
+  addDays,
+  formatDateKey,
+  getZonedParts,
+  isValidTimezone,
+  zonedTimeToUtc,
+  type LocalDate,
+} from './businessHoursService.js';
+
+export type RotationType = (typeof ONCALL.ROTATION_TYPES)[number];
+
+export interface OnCallRotationData {
+  id: string;
+  workspaceId: string;
+  name: string;
+  rotationType: RotationType;
+  memberIds: string[]; // Slack user IDs in rotation order
+  startDate: string; // "YYYY-MM-DD" of the first member's first shift
+  handoffTime: string; // "HH:MM" in the rotation's timezone
+  timezone: string;
+}
+
+export interface OnCallOverrideData {
+  id: string;
+  rotationId: string;
+  slackUserId: string;
+  startsAt: Date;
+  endsAt: Date;
+  reason?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export type RotationInput = Omit<OnCallRotationData, 'id' | 'workspaceId'>;
+
+export interface OverrideInput {
+  slackUserId: string;
+  startsAt: Date;
+  endsAt: Date;
+  reason?: string;
+  createdBy: string;
+}
+
+export interface OnCallResult {
+  slackUserId: string;
+  overrideId?: string; // Set when an override, not the schedule, put them on call
+}
+
+type RotationSchedule = Pick<OnCallRotationData, 'rotationType' | 'memberIds' | 'startDate' | 'handoffTime' | 'timezone'>;
+
+function parseDate(date: string): LocalDate {
+  const [year, month, day] = date.split('-').map((p) => parseInt(p, 10));
+  return { year, month, day };
+}
+
+function shiftLengthDays(rotationType: RotationType): number {
+  return rotationType === 'daily' ? 1 : 7;
+}
+
+/**
+ * Which shift (0 = the first member's first shift) covers an instant
+ * Counted in local calendar days so handoffs stay at the same wall-clock time across DST
+ */
+function getShiftIndex(rotation: RotationSchedule, now: Date): number {
+  const p = getZonedParts(now, rotation.timezone);
+  let local: LocalDate = { year: p.year, month: p.month, day: p.day };
+
+  // Before today's handoff, yesterday's shift is still running
+  const localTime = `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+  if (localTime < rotation.handoffTime) {
+    local = addDays(local, -1);
+  }
+
+  const start = parseDate(rotation.startDate);
+  const days = Math.round(
+    (Date.UTC(local.year, local.month - 1, local.day) - Date.UTC(start.year, start.month - 1, start.day)) / 86400000
+  );
+  return Math.floor(days / shiftLengthDays(rotation.rotationType));
+}
+
+/**
+ * The member the schedule puts on call at an instant (ignoring overrides)
+ * Before the rotation starts, the first member covers
+ */
+export function getScheduledOnCall(rotation: RotationSchedule, now: Date = new Date()): string | null {
+  if (rotation.memberIds.length === 0) return null;
+
+  const shift = Math.max(0, getShiftIndex(rotation, now));
+  return rotation.memberIds[shift % rotation.memberIds.length];
+}
+
+/**
+ * When the current shift ends
+ */
+export function getNextHandoff(rotation: RotationSchedule, now: Date = new Date()): Date {
+  const shift = Math.max(0, getShiftIndex(rotation, now));
+  const [hour, minute] = rotation.handoffTime.split(':').map((p) => parseInt(p, 10));
+  const nextStart = addDays(parseDate(rotation.startDate), (shift + 1) * shiftLengthDays(rotation.rotationType));
+  return zonedTimeToUtc(nextStart, hour, minute, rotation.timezone);
+}
+
+/**
+ * Who is on call at an instant
+ * An override covering the instant wins over the schedule; the most recently added one wins if several overlap
+ */
+export function getOnCallAt(
+  rotation: RotationSchedule,
+  overrides: Pick<OnCallOverrideData, 'id' | 'slackUserId' | 'startsAt' | 'endsAt' | 'createdAt'>[],
+  now: Date = new Date()
+): OnCallResult | null {
+  const active = overrides
+    .filter((o) => o.startsAt <= now && o.endsAt > now)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  if (active.length > 0) {
+    return { slackUserId: active[0].slackUserId, overrideId: active[0].id };
+  }
+
+  const slackUserId = getScheduledOnCall(rotation, now);
+  return slackUserId ? { slackUserId } : null;
+}
+
+/**
+ * Check a rotation is usable
+ * @returns Error message, or null if the rotation is valid
+ */
+export function validateRotation(input: RotationInput): string | null {
+  const name = input.name.trim();
+  if (!name) {
+    return 'Give the rotation a name';
+  }
+  if (name.length > ONCALL.MAX_NAME_LENGTH) {
+    return `Rotation names can be at most ${ONCALL.MAX_NAME_LENGTH} characters`;
+  }
+  if (!ONCALL.ROTATION_TYPES.includes(input.rotationType)) {
+    return `Unknown rotation type "${input.rotationType}"`;
+  }
+  if (input.memberIds.length === 0) {
+    return 'Add at least one person to the rotation';
+  }
+  if (input.memberIds.length > ONCALL.MAX_MEMBERS) {
+    return `A rotation can have at most ${ONCALL.MAX_MEMBERS} people`;
+  }
+  // Round-trip the date, since Date.UTC rolls impossible dates like 2026-02-30 over into the next month
+  const start = /^\d{4}-\d{2}-\d{2}$/.test(input.startDate) ? parseDate(input.startDate) : null;
+  const startUtc = start ? new Date(Date.UTC(start.year, start.month - 1, start.day)) : null;
+  if (
+    !startUtc ||
+    formatDateKey({ year: startUtc.getUTCFullYear(), month: startUtc.getUTCMonth() + 1, day: startUtc.getUTCDate() }) !==
+      input.startDate
+  ) {
+    return 'The start date must be YYYY-MM-DD';
+  }
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(input.handoffTime)) {
+    return 'The handoff time must be HH:MM, from 00:00 to 23:59';
+  }
+  if (!isValidTimezone(input.timezone)) {
+    return `Unknown timezone "${input.timezone}" - use a name like America/New_York`;
+  }
+  return null;
+}
+
+/**
+ * One-line schedule summary, e.g. "Weekly, hands off Mon 09:00 Europe/London"
+ */
+export function describeRotationSchedule(rotation: RotationSchedule): string {
+  if (rotation.rotationType === 'daily') {
+    return `Daily, hands off ${rotation.handoffTime} ${rotation.timezone}`;
+  }
+
+  const start = parseDate(rotation.startDate);
+  const weekday = new Date(Date.UTC(start.year, start.month - 1, start.day)).getUTCDay();
+  const names = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  return `Weekly, hands off ${names[weekday]} ${rotation.handoffTime} ${rotation.timezone}`;
+}
+
+function toRotationData(r: any): OnCallRotationData {
+  return {
+    id: r.id,
+    workspaceId: r.workspaceId,
+    name: r.name,
+    rotationType: r.rotationType as RotationType,
+    memberIds: r.memberIds,
+    startDate: r.startDate,
+    handoffTime: r.handoffTime,
+    timezone: r.timezone,
+  };
+}
+
+function toOverrideData(o: any): OnCallOverrideData {
+  return {
+    id: o.id,
+    rotationId: o.rotationId,
+    slackUserId: o.slackUserId,
+    startsAt: o.startsAt,
+    endsAt: o.endsAt,
+    reason: o.reason || undefined,
+    createdBy: o.createdBy,
+    createdAt: o.createdAt,
+  };
+}
+
+/**
+ * Get all rotations for a workspace
+ */
+export async function getRotations(workspaceId: string): Promise<OnCallRotationData[]> {
+  const rotations = await prisma.onCallRotation.findMany({
+    where: { workspaceId },
+    orderBy: { name: 'asc' },
+  });
+
+  return rotations.map(toRotationData);
+}
+
+/**
+ * Get a rotation by ID
+ */
+export async function getRotation(rotationId: string): Promise<OnCallRotationData | null> {
+  const rotation = await prisma.onCallRotation.findUnique({ where: { id: rotationId } });
+  return rotation ? toRotationData(rotation) : null;
+}
+
+/**
+ * Create a rotation, or update it when rotationId is given
+ * @throws Error if the rotation is invalid or the name is taken
+ */
+export async function saveRotation(
+  workspaceId: string,
+  input: RotationInput,
+  rotationId?: string
+): Promise<OnCallRotationData> {
+  const error = validateRotation(input);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const name = input.name.trim();
+  const existing = await prisma.onCallRotation.findUnique({
+    where: { workspaceId_name: { workspaceId, name } },
+  });
+  if (existing && existing.id !== rotationId) {
+    throw new Error(`A rotation called "${name}" already exists`);
+  }
+
+  const data = {
+    name,
+    rotationType: input.rotationType,
+    memberIds: input.memberIds,
+    startDate: input.startDate,
+    handoffTime: input.handoffTime,
+    timezone: input.timezone,
+  };
+
+  const rotation = rotationId
+    ? await prisma.onCallRotation.update({ where: { id: rotationId }, data })
+    : await prisma.onCallRotation.create({ data: { workspaceId, ...data } });
+
+  // Keep target labels in /qr-targets in step with renames
+  await prisma.escalationTarget.updateMany({
+    where: { targetType: 'rotation', targetId: rotation.id },
+    data: { targetName: rotation.name },
+  });
+
+  logger.info('On-call rotation saved', { workspaceId, rotationId: rotation.id, name });
+  return toRotationData(rotation);
+}
+
+/**
+ * Delete a rotation, its overrides and any escalation targets pointing at it
+ */
+export async function deleteRotation(rotationId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.escalationTarget.deleteMany({ where: { targetType: 'rotation', targetId: rotationId } }),
+    prisma.onCallOverride.deleteMany({ where: { rotationId } }),
+    prisma.onCallRotation.delete({ where: { id: rotationId } }),
+  ]);
+
+  logger.info('On-call rotation deleted', { rotationId });
+}
+
+/**
+ * Get a rotation's current and upcoming overrides (soonest first)
+ */
+export async function getUpcomingOverrides(
+  rotationId: string,
+  now: Date = new Date()
+): Promise<OnCallOverrideData[]> {
+  const overrides = await prisma.onCallOverride.findMany({
+    where: { rotationId, endsAt: { gt: now } },
+    orderBy: { startsAt: 'asc' },
+  });
+
+  return overrides.map(toOverrideData);
+}
+
+/**
+ * Put someone on call instead of the schedule for a period
+ * @throws Error if the period is empty or already over
+ */
+export async function addOverride(
+  rotationId: string,
+  input: OverrideInput,
+  now: Date = new Date()
+): Promise<OnCallOverrideData> {
+  if (input.endsAt <= input.startsAt) {
+    throw new Error('The override must end after it starts');
+  }
+  if (input.endsAt <= now) {
+    throw new Error('The override is already over');
+  }
+
+  const override = await prisma.onCallOverride.create({
+    data: {
+      rotationId,
+      slackUserId: input.slackUserId,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      reason: input.reason,
+      createdBy: input.createdBy,
+    },
+  });
+
+  logger.info('On-call override added', { rotationId, overrideId: override.id, slackUserId: input.slackUserId });
+  return toOverrideData(override);
+}
+
+/**
+ * Remove an override
+ */
+export async function removeOverride(overrideId: string): Promise<void> {
+  await prisma.onCallOverride.delete({ where: { id: overrideId } });
+}
+
+/**
+ * Resolve who is on call for a rotation right now
+ * @returns The rotation and the on-call user, or null if the rotation is gone or empty
+ */
+export async function resolveOnCall(
+  rotationId: string,
+  now: Date = new Date()
+): Promise<{ rotation: OnCallRotationData; onCall: OnCallResult } | null> {
+  const rotation = await getRotation(rotationId);
+  if (!rotation) return null;
+
+  const overrides = await getUpcomingOverrides(rotationId, now);
+  const onCall = getOnCallAt(rotation, overrides, now);
+  return onCall ? { rotation, onCall } : null;
+}
@@ -0,0 +1,255 @@
+/**
+ * Question Actions
+ * Block Kit buttons on the bot's escalation posts and the state changes behind them
+ */
+import { QUESTION_STATUS } from '../utils/constants.js';
+import { findWorkspaceQuestion, markQuestionAnswered, markQuestionDismissed } from './questionStorage.js';
+import { snoozeQuestionUntil } from './snoozeService.js';
+import { claimQuestion, getClaimTimeoutMinutes } from './claimService.js';
+
+export const QUESTION_ACTION_IDS = {
+  MARK_ANSWERED: 'question_mark_answered',
+  SNOOZE: 'question_snooze',
+  DISMISS: 'question_dismiss',
+  CLAIM: 'question_claim',
+} as const;
+
+// block_id of the actions row, so it can be found and replaced when the message is edited
+export const QUESTION_ACTIONS_BLOCK_ID = 'question_actions';
+const QUESTION_STATUS_BLOCK_ID = 'question_status';
+
+export type SnoozeChoice = '1h' | '4h' | 'tomorrow';
+
+const SNOOZE_CHOICES: { value: SnoozeChoice; label: string }[] = [
+  { value: '1h', label: '1 hour' },
+  { value: '4h', label: '4 hours' },
+  { value: 'tomorrow', label: 'Tomorrow morning' },
+];
+
+// Local hour that "tomorrow" snoozes wake up at
+const TOMORROW_WAKE_HOUR = 9;
+
+/**
+ * Start of the working day tomorrow in the user's timezone
+ * @param tzOffsetSeconds - Offset from UTC as returned by users.info (tz_offset)
+ */
+export function getTomorrowMorning(now: Date, tzOffsetSeconds: number = 0): Date {
+  const local = new Date(now.getTime() + tzOffsetSeconds * 1000);
+  const wakeLocal = Date.UTC(
+    local.getUTCFullYear(),
+    local.getUTCMonth(),
+    local.getUTCDate() + 1,
+    TOMORROW_WAKE_HOUR
+  );
+  return new Date(wakeLocal - tzOffsetSeconds * 1000);
+}
+
+/**
+ * When a snooze choice from the button menu ends
+ */
+export function getSnoozeUntil(choice: SnoozeChoice, now: Date, tzOffsetSeconds: number = 0): Date {
+  switch (choice) {
+    case '1h':
+      return new Date(now.getTime() + 60 * 60000);
+    case '4h':
+      return new Date(now.getTime() + 4 * 60 * 60000);
+    case 'tomorrow':
+      return getTomorrowMorning(now, tzOffsetSeconds);
+  }
+}
+
+export function isSnoozeChoice(value: string | undefined): value is SnoozeChoice {
+  return SNOOZE_CHOICES.some((c) => c.value === value);
+}
+
+/**
+ * Actions row for a question
+ * Every element carries the question ID as its value
+ */
+export function buildQuestionActionsBlock(questionId: string) {
+  return {
+    type: 'actions',
+    block_id: QUESTION_ACTIONS_BLOCK_ID,
+    elements: [
+      {
+        type: 'button',
+        action_id: QUESTION_ACTION_IDS.MARK_ANSWERED,
+        text: { type: 'plain_text', text: '✅ Mark answered', emoji: true },
+        style: 'primary',
+        value: questionId,
+      },
+      {
+        type: 'button',
+        action_id: QUESTION_ACTION_IDS.CLAIM,
+        text: { type: 'plain_text', text: "🙋 I'll take it", emoji: true },
+        value: questionId,
+      },
+      {
+        type: 'static_select',
+        action_id: QUESTION_ACTION_IDS.SNOOZE,
+        placeholder: { type: 'plain_text', text: '🔕 Snooze', emoji: true },
+        options: SNOOZE_CHOICES.map((c) => ({
+          text: { type: 'plain_text', text: c.label },
+          value: `${questionId}:${c.value}`,
+        })),
+      },
+      {
+        type: 'button',
+        action_id: QUESTION_ACTION_IDS.DISMISS,
+        text: { type: 'plain_text', text: '🚫 Dismiss (not a question)', emoji: true },
+        style: 'danger',
+        value: questionId,
+        confirm: {
+          title: { type: 'plain_text', text: 'Dismiss question?' },
+          text: { type: 'plain_text', text: 'It will stop escalating and be excluded from stats.' },
+          confirm: { type: 'plain_text', text: 'Dismiss' },
+          deny: { type: 'plain_text', text: 'Cancel' },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Message blocks for a bot post: the text as a section followed by the actions row
+ */
+export function buildActionableMessageBlocks(text: string, questionId: string): any[] {
+  return [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text },
+    },
+    buildQuestionActionsBlock(questionId),
+  ];
+}
+
+/**
+ * Rewrite a bot post's blocks after an action
+ * Adds (or replaces) a status line, and drops the buttons once the question is resolved
+ */
+export function applyStatusToBlocks(blocks: any[], statusText: string, resolved: boolean): any[] {
+  const kept = blocks.filter(
+    (b) => b.block_id !== QUESTION_STATUS_BLOCK_ID && !(resolved && b.block_id === QUESTION_ACTIONS_BLOCK_ID)
+  );
+
+  const statusBlock = {
+    type: 'context',
+    block_id: QUESTION_STATUS_BLOCK_ID,
+    elements: [{ type: 'mrkdwn', text: statusText }],
+  };
+
+  // Status goes just above the buttons so they stay at the bottom
+  const actionsIndex = kept.findIndex((b) => b.block_id === QUESTION_ACTIONS_BLOCK_ID);
+  if (actionsIndex === -1) {
+    return [...kept, statusBlock];
+  }
+  return [...kept.slice(0, actionsIndex), statusBlock, ...kept.slice(actionsIndex)];
+}
+
+/**
+ * Find the question ID carried by a message's action buttons
+ * Lets the message shortcut work on the bot's own escalation posts
+ */
+export function findQuestionIdInBlocks(blocks: any[] | undefined): string | null {
+  const actions = blocks?.find((b) => b.block_id === QUESTION_ACTIONS_BLOCK_ID);
+  const button = actions?.elements?.find((e: any) => e.action_id === QUESTION_ACTION_IDS.MARK_ANSWERED);
+  return button?.value || null;
+}
+
+export interface QuestionActionResult {
+  statusText: string;
+  resolved: boolean;
+}
+
+/**
+ * Load a question and make sure it can still be acted on
+ * @param workspaceId - Workspace the action came from; questions of other workspaces are treated as unknown
+ * @throws Error with a user-facing message if it can't
+ */
+async function getOpenQuestion(workspaceId: string, questionId: string) {
+  const question = await findWorkspaceQuestion(workspaceId, questionId);
+
+  if (!question) {
+    throw new Error('This question is no longer tracked');
+  }
+  if (question.status === QUESTION_STATUS.ANSWERED || question.status === QUESTION_STATUS.DISMISSED) {
+    throw new Error(`This question was already ${question.status}`);
+  }
+
+  return question;
+}
+
+/**
+ * Mark the question answered, credited to the user who pressed the button
+ */
+export async function markAnsweredFromAction(
+  workspaceId: string,
+  questionId: string,
+  userId: string,
+  slackUserId: string
+): Promise<QuestionActionResult> {
+  await getOpenQuestion(workspaceId, questionId);
+  await markQuestionAnswered(questionId, userId);
+
+  return {
+    statusText: `✅ Marked answered by <@${slackUserId}>`,
+    resolved: true,
+  };
+}
+
+/**
+ * Snooze the question; the escalation engine wakes it when the snooze ends
+ */
+export async function snoozeFromAction(
+  workspaceId: string,
+  questionId: string,
+  slackUserId: string,
+  snoozedUntil: Date
+): Promise<QuestionActionResult> {
+  await getOpenQuestion(workspaceId, questionId);
+  await snoozeQuestionUntil(questionId, snoozedUntil);
+
+  const unix = Math.floor(snoozedUntil.getTime() / 1000);
+  return {
+    statusText: `🔕 Snoozed by <@${slackUserId}> until <!date^${unix}^{date_short_pretty} at {time}|${snoozedUntil.toISOString()}>`,
+    resolved: false,
+  };
+}
+
+/**
+ * Dismiss the question as a false positive
+ */
+export async function dismissFromAction(
+  workspaceId: string,
+  questionId: string,
+  slackUserId: string
+): Promise<QuestionActionResult> {
+  await getOpenQuestion(workspaceId, questionId);
+  await markQuestionDismissed(questionId);
+
+  return {
+    statusText: `🚫 Dismissed as not a question by <@${slackUserId}>`,
+    resolved: true,
+  };
+}
+
+/**
+ * Take ownership of the question
+ * Holds escalation until the claimer answers or the workspace's claim timeout passes
+ */
+export async function claimFromAction(
+  workspaceId: string,
+  questionId: string,
+  userId: string,
+  slackUserId: string
+): Promise<QuestionActionResult> {
+  const question = await getOpenQuestion(workspaceId, questionId);
+  const timeoutMinutes = await getClaimTimeoutMinutes(question.workspaceId);
+  const claimExpiresAt = await claimQuestion(questionId, userId, timeoutMinutes);
+
+  const unix = Math.floor(claimExpiresAt.getTime() / 1000);
+  return {
+    statusText: `🙋 <@${slackUserId}> is on it - escalation paused until <!date^${unix}^{time}|${claimExpiresAt.toISOString()}>`,
+    resolved: false,
+  };
+}
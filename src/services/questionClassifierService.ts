@@ -0,0 +1,390 @@
+/**
+ * Question Classifier Service
+ * Picks the classifier and threshold each workspace detects questions with
+ *
+ * Besides the default rules, a workspace can opt into a statistical classifier: naive Bayes over the
+ * words and question signals of its own history, where answered questions are the real ones and
+ * dismissed questions the false positives. Models are trained in-process from the database and
+ * cached per workspace for QUESTION_DETECTION.MODEL_CACHE_TTL_MS.
+ *
+ * Either classifier runs with the workspace's and channel's detection rules (see detectionRulesService),
+ * and with the threshold and phrase penalties a channel was tuned to from its dismissals (see
+ * detectionFeedbackService) unless the workspace turned auto-tuning off.
+ */
+import { prisma } from '../utils/db.js';
+import { logger } from '../utils/logger.js';
+import { QUESTION_DETECTION, QUESTION_STATUS } from '../utils/constants.js';
+import { getWorkspaceConfig } from './configService.js';
+import { getChannelConfigBySlackId } from './channelConfigService.js';
+import {
+  DEFAULT_DETECTION_RULES,
+  getEffectiveDetectionRules,
+  getUserRuleBlock,
+  toDetectionConfig,
+  type DetectionRules,
+} from './detectionRulesService.js';
+import type { DetectionTuning } from './detectionFeedbackService.js';
+import {
+  createRuleBasedClassifier,
+  defaultConfig,
+  describeFeature,
+  describeFeedbackFeature,
+  extractDetectionFeatures,
+  getFeedbackFeatures,
+  ignoredPhraseReasons,
+  type ClassificationReason,
+  type DetectionConfig,
+  type QuestionClassification,
+  type QuestionClassifier,
+} from './questionDetector.js';
+import { tokenizeWords } from './languageDetector.js';
+
+export type QuestionClassifierName = 'rules' | 'statistical';
+
+type Label = 'answered' | 'dismissed';
+
+export interface TrainingSample {
+  text: string;
+  label: Label;
+}
+
+export interface QuestionModel {
+  samples: Record<Label, number>;
+  termCounts: Map<string, Record<Label, number>>; // Messages of each label containing the term
+  totalTerms: Record<Label, number>;
+  trainedAt: Date;
+}
+
+export interface QuestionDetection extends QuestionClassification {
+  isQuestion: boolean;
+  threshold: number;
+  features: string[]; // What it was detected by, recorded with its outcome (see getFeedbackFeatures)
+}
+
+export interface QuestionDetector {
+  classifier: QuestionClassifier;
+  threshold: number;
+  rules: Required<DetectionRules>;
+  /**
+   * @param slackUserId - Author of the message, checked against the allow/deny lists when given
+   */
+  detect(text: string, slackUserId?: string): QuestionDetection;
+}
+
+interface CacheEntry {
+  model: QuestionModel;
+  configKey: string; // The detection config it was trained with
+  expiresAt: number;
+}
+
+// Shown when detection settings are saved, since only this instance's caches are cleared straight away
+export const DETECTION_PROPAGATION_NOTE = `_Other app instances pick up detection changes within ${Math.round(
+  QUESTION_DETECTION.DETECTOR_CACHE_TTL_MS / 1000
+)} seconds._`;
+
+// Caches are per process. Invalidation only reaches the instance that made a change; the others
+// rebuild their detectors from the stored settings within DETECTOR_CACHE_TTL_MS, and a model trained
+// with rules that have since changed is retrained when its detector is rebuilt.
+const modelCache = new Map<string, CacheEntry>();
+// Trainings in flight, so concurrent messages in one workspace share a single query
+const pendingTraining = new Map<string, { training: Promise<QuestionModel>; configKey: string }>();
+// Detectors by workspaceId:slackChannelId, so every message doesn't re-read the settings
+const detectorCache = new Map<string, { detector: QuestionDetector; expiresAt: number }>();
+
+/**
+ * Keep a configured threshold inside the range the settings allow
+ */
+export function normalizeDetectionThreshold(threshold: number | undefined | null): number {
+  if (threshold === undefined || threshold === null || !Number.isFinite(threshold)) {
+    return QUESTION_DETECTION.DEFAULT_THRESHOLD;
+  }
+  return Math.min(QUESTION_DETECTION.MAX_THRESHOLD, Math.max(QUESTION_DETECTION.MIN_THRESHOLD, threshold));
+}
+
+/**
+ * Terms the model sees in a message: its question signals plus each distinct word
+ */
+export function tokenizeForModel(text: string, config: DetectionConfig = defaultConfig): string[] {
+  const signals = extractDetectionFeatures(text, config).features.map(({ feature }) => `signal:${feature}`);
+  const words = tokenizeWords(text.toLowerCase()).filter((word) => [...word].length > 1);
+
+  return [...new Set([...signals, ...words])];
+}
+
+/**
+ * Train a naive Bayes model on answered vs dismissed questions
+ */
+export function trainQuestionModel(
+  samples: TrainingSample[],
+  config: DetectionConfig = defaultConfig,
+  now: Date = new Date()
+): QuestionModel {
+  const model: QuestionModel = {
+    samples: { answered: 0, dismissed: 0 },
+    termCounts: new Map(),
+    totalTerms: { answered: 0, dismissed: 0 },
+    trainedAt: now,
+  };
+
+  for (const sample of samples) {
+    model.samples[sample.label]++;
+    for (const term of tokenizeForModel(sample.text, config)) {
+      const counts = model.termCounts.get(term) ?? { answered: 0, dismissed: 0 };
+      counts[sample.label]++;
+      model.termCounts.set(term, counts);
+      model.totalTerms[sample.label]++;
+    }
+  }
+
+  return model;
+}
+
+/**
+ * Whether a model has seen enough of both outcomes to be trusted over the rules
+ */
+export function hasEnoughTrainingData(model: QuestionModel): boolean {
+  return (
+    model.samples.answered >= QUESTION_DETECTION.MODEL_MIN_SAMPLES_PER_CLASS &&
+    model.samples.dismissed >= QUESTION_DETECTION.MODEL_MIN_SAMPLES_PER_CLASS
+  );
+}
+
+/**
+ * Classifier scoring messages by how much they resemble answered rather than dismissed questions
+ * Only messages with at least one question signal are scored; the rest stay at 0, as with the rules
+ */
+export function createStatisticalClassifier(
+  model: QuestionModel,
+  config: DetectionConfig = defaultConfig
+): QuestionClassifier {
+  const vocabularySize = model.termCounts.size;
+
+  // Log-likelihood ratio of a term: positive when it's more typical of answered questions
+  const termWeight = (term: string): number => {
+    const counts = model.termCounts.get(term) ?? { answered: 0, dismissed: 0 };
+    const answered = (counts.answered + 1) / (model.totalTerms.answered + vocabularySize);
+    const dismissed = (counts.dismissed + 1) / (model.totalTerms.dismissed + vocabularySize);
+    return Math.log(answered / dismissed);
+  };
+
+  return {
+    name: 'statistical',
+    classify(text: string): QuestionClassification {
+      const { tooShort, features, ignored, language } = extractDetectionFeatures(text, config);
+      if (tooShort) {
+        return {
+          score: 0,
+          reasons: [{ feature: 'too_short', detail: `shorter than ${config.minLength} characters`, weight: 0 }],
+          classifier: 'statistical',
+          language,
+        };
+      }
+      if (features.length === 0) {
+        return { score: 0, reasons: ignoredPhraseReasons(ignored), classifier: 'statistical', language };
+      }
+
+      let logOdds = Math.log((model.samples.answered + 1) / (model.samples.dismissed + 1));
+      const signalReasons: ClassificationReason[] = [];
+      const termReasons: ClassificationReason[] = [];
+
+      for (const term of tokenizeForModel(text, config)) {
+        // Words the model has never seen say nothing either way
+        if (!model.termCounts.has(term)) continue;
+
+        const weight = termWeight(term);
+        logOdds += weight;
+
+        if (term.startsWith('signal:')) {
+          const signal = features.find(({ feature }) => `signal:${feature}` === term)!;
+          signalReasons.push({ feature: signal.feature, detail: describeFeature(signal.feature, signal.match), weight });
+        } else {
+          termReasons.push({ feature: 'learned_term', detail: `"${term}"`, weight });
+        }
+      }
+
+      const strongestTerms = termReasons
+        .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+        .slice(0, QUESTION_DETECTION.MODEL_REASON_TERMS);
+
+      return {
+        score: 1 / (1 + Math.exp(-logOdds)),
+        reasons: [...signalReasons, ...strongestTerms, ...ignoredPhraseReasons(ignored)],
+        classifier: 'statistical',
+        language,
+      };
+    },
+  };
+}
+
+/**
+ * Pair a classifier with a threshold and the user allow/deny lists
+ * @param phrasePenalties - Share of the score taken away from messages with each feedback feature
+ */
+export function createQuestionDetector(
+  classifier: QuestionClassifier,
+  threshold: number,
+  rules: Required<DetectionRules> = DEFAULT_DETECTION_RULES,
+  phrasePenalties: Record<string, number> = {}
+): QuestionDetector {
+  const config = toDetectionConfig(rules);
+
+  return {
+    classifier,
+    threshold,
+    rules,
+    detect(text: string, slackUserId?: string): QuestionDetection {
+      const blocked = slackUserId ? getUserRuleBlock(rules, slackUserId) : null;
+      if (blocked) {
+        return {
+          score: 0,
+          reasons: [{ feature: 'user_rule', detail: blocked, weight: 0 }],
+          classifier: classifier.name,
+          isQuestion: false,
+          threshold,
+          features: [],
+        };
+      }
+
+      const classification = classifier.classify(text);
+      const features = getFeedbackFeatures(text, config);
+
+      // Phrases this channel keeps dismissing count against the message
+      const penalties: ClassificationReason[] = classification.score > 0
+        ? features
+            .filter((feature) => phrasePenalties[feature] > 0)
+            .map((feature) => ({
+              feature: 'feedback_penalty',
+              detail: `often dismissed: ${describeFeedbackFeature(feature)}`,
+              weight: -phrasePenalties[feature],
+            }))
+        : [];
+      const score = penalties.reduce((total, penalty) => total * (1 + penalty.weight), classification.score);
+
+      return {
+        ...classification,
+        score,
+        reasons: [...classification.reasons, ...penalties],
+        isQuestion: score >= threshold,
+        threshold,
+        features,
+      };
+    },
+  };
+}
+
+async function trainWorkspaceModel(workspaceId: string, config: DetectionConfig): Promise<QuestionModel> {
+  const questions = await prisma.question.findMany({
+    where: {
+      workspaceId,
+      isSideConversation: false,
+      status: { in: [QUESTION_STATUS.ANSWERED, QUESTION_STATUS.DISMISSED] },
+    },
+    select: { messageText: true, status: true },
+    orderBy: { askedAt: 'desc' },
+    take: QUESTION_DETECTION.MODEL_TRAINING_LIMIT,
+  });
+
+  const model = trainQuestionModel(
+    questions.map((q) => ({
+      text: q.messageText,
+      label: q.status === QUESTION_STATUS.ANSWERED ? 'answered' : 'dismissed',
+    })),
+    config
+  );
+  logger.info('Trained question model', { workspaceId, ...model.samples, terms: model.termCounts.size });
+  return model;
+}
+
+/**
+ * A workspace's statistical model, retrained when the cached one is stale or was trained with other rules
+ * @param config - The workspace's detection config, so trained terms match the ones it classifies with
+ */
+export async function getQuestionModel(workspaceId: string, config: DetectionConfig): Promise<QuestionModel> {
+  const configKey = JSON.stringify(config);
+  const cached = modelCache.get(workspaceId);
+  if (cached && cached.configKey === configKey && cached.expiresAt > Date.now()) {
+    return cached.model;
+  }
+
+  const inFlight = pendingTraining.get(workspaceId);
+  if (inFlight && inFlight.configKey === configKey) {
+    return inFlight.training;
+  }
+
+  const training: Promise<QuestionModel> = trainWorkspaceModel(workspaceId, config)
+    .then((model) => {
+      if (pendingTraining.get(workspaceId)?.training === training) {
+        modelCache.set(workspaceId, { model, configKey, expiresAt: Date.now() + QUESTION_DETECTION.MODEL_CACHE_TTL_MS });
+      }
+      return model;
+    })
+    .finally(() => {
+      if (pendingTraining.get(workspaceId)?.training === training) {
+        pendingTraining.delete(workspaceId);
+      }
+    });
+  pendingTraining.set(workspaceId, { training, configKey });
+
+  return training;
+}
+
+/**
+ * Drop a workspace's cached detectors, e.g. after its detection settings changed
+ */
+export function invalidateQuestionDetectors(workspaceId: string): void {
+  for (const key of detectorCache.keys()) {
+    if (key.startsWith(`${workspaceId}:`)) {
+      detectorCache.delete(key);
+    }
+  }
+}
+
+/**
+ * Drop a workspace's cached model so the next detection retrains it
+ */
+export function invalidateQuestionModel(workspaceId: string): void {
+  modelCache.delete(workspaceId);
+  pendingTraining.delete(workspaceId);
+  invalidateQuestionDetectors(workspaceId);
+}
+
+async function buildQuestionDetector(workspaceId: string, slackChannelId?: string): Promise<QuestionDetector> {
+  const { settings } = await getWorkspaceConfig(workspaceId);
+  const channelConfig = slackChannelId ? await getChannelConfigBySlackId(workspaceId, slackChannelId) : null;
+
+  const rules = getEffectiveDetectionRules(settings.detectionRules, channelConfig?.settings.detectionRules);
+  const config = toDetectionConfig(rules);
+
+  // Tuning only ever raises the threshold, so an admin's stricter setting still wins
+  const tuning: DetectionTuning | undefined =
+    settings.detectionAutoTune !== false ? channelConfig?.settings.detectionTuning : undefined;
+  const threshold = Math.max(normalizeDetectionThreshold(settings.detectionThreshold), tuning?.threshold ?? 0);
+  const penalties = tuning?.phrasePenalties ?? {};
+
+  if (settings.questionClassifier === 'statistical') {
+    // Trained with the workspace rules, not the channel's, so one model serves every channel
+    const model = await getQuestionModel(workspaceId, toDetectionConfig(getEffectiveDetectionRules(settings.detectionRules)));
+    if (hasEnoughTrainingData(model)) {
+      return createQuestionDetector(createStatisticalClassifier(model, config), threshold, rules, penalties);
+    }
+    logger.debug('Not enough history for the statistical classifier, using rules', { workspaceId, ...model.samples });
+  }
+
+  return createQuestionDetector(createRuleBasedClassifier(config), threshold, rules, penalties);
+}
+
+/**
+ * The classifier, threshold, detection rules and tuning in force for a workspace, or a channel within it
+ * Falls back to the rules while the statistical model hasn't seen enough answered and dismissed questions
+ */
+export async function getQuestionDetector(workspaceId: string, slackChannelId?: string): Promise<QuestionDetector> {
+  const key = `${workspaceId}:${slackChannelId ?? ''}`;
+  const cached = detectorCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.detector;
+  }
+
+  const detector = await buildQuestionDetector(workspaceId, slackChannelId);
+  detectorCache.set(key, { detector, expiresAt: Date.now() + QUESTION_DETECTION.DETECTOR_CACHE_TTL_MS });
+  return detector;
+}
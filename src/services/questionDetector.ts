@@ -1,77 +1,289 @@
 /**
  * Question Detection Service
  * Analyzes messages to determine if they are questions
+ *
+ * Classifiers score a message from 0 to 1 and list the reasons for the score; a message counts as a
+ * question when the score reaches the threshold. The rule-based classifier here is the default - see
+ * questionClassifierService for the statistical one and how a workspace picks its classifier.
+ *
+ * Messages are read in the language they're written in: a Spanish, French, German, Portuguese or
+ * Japanese message is also matched against that language's pack (see languageDetector).
  */
+import { QUESTION_DETECTION } from '../utils/constants.js';
+import {
+  LANGUAGE_PACKS,
+  OPTIONAL_LANGUAGES,
+  containsPhrase,
+  detectLanguage,
+  foldForMatching,
+  getStopWords,
+  opensWithPhrase,
+  tokenizeWords,
+  type DetectionLanguage,
+} from './languageDetector.js';
 
-interface DetectionConfig {
+export interface DetectionConfig {
   questionMarks: boolean;
   questionWords: string[];
   helpPatterns: string[];
+  requestPatterns: string[];
+  ignorePatterns: string[]; // Phrases removed before scoring, e.g. a rhetorical "right?"
   minLength: number;
+  languages: DetectionLanguage[]; // Packs a message may be read with besides English
 }
 
-const defaultConfig: DetectionConfig = {
+/**
+ * Signals that a message is asking for something
+ */
+export type DetectionFeature = 'question_mark' | 'interrogative_opener' | 'help_phrase' | 'imperative_request';
+
+export interface ClassificationReason {
+  feature: DetectionFeature | 'too_short' | 'learned_term' | 'ignored_phrase' | 'user_rule' | 'feedback_penalty';
+  detail: string; // e.g. 'starts with "how do"'
+  weight: number; // Contribution to the score - negative reasons count against it
+}
+
+export interface QuestionClassification {
+  score: number; // 0-1 confidence that the message is a question
+  reasons: ClassificationReason[];
+  classifier: string; // Name of the classifier that scored it
+  language?: DetectionLanguage; // Language it was read as
+}
+
+export interface QuestionClassifier {
+  readonly name: string;
+  classify(text: string): QuestionClassification;
+}
+
+export const defaultConfig: DetectionConfig = {
   questionMarks: true,
-  questionWords: [
-    'how do', 'how can', 'how to', 'how does', 'how would',
-    'what is', 'what are', 'what does', 'what\'s',
-    'where is', 'where can', 'where do',
-    'when should', 'when does', 'when can',
-    'why does', 'why is', 'why can\'t',
-    'who can', 'who should', 'who knows',
-    'which', 'is there', 'are there',
-    'could you', 'could i', 'would you', 'would it',
-    'can you', 'can i', 'can we',
-    'does anyone', 'does this', 'does it',
-  ],
-  helpPatterns: [
-    'does anyone know',
-    'can someone',
-    'anyone know',
-    'could someone',
-    'help with',
-    'need help',
-  ],
+  questionWords: LANGUAGE_PACKS.en.questionWords,
+  helpPatterns: LANGUAGE_PACKS.en.helpPatterns,
+  requestPatterns: LANGUAGE_PACKS.en.requestPatterns,
+  ignorePatterns: [],
   minLength: 10,
+  languages: OPTIONAL_LANGUAGES,
+};
+
+// How much each signal raises the rule-based score on its own. A request alone isn't enough to track
+// a message at the default threshold; any of the others is.
+const RULE_WEIGHTS: Record<DetectionFeature, number> = {
+  question_mark: 0.6,
+  interrogative_opener: 0.6,
+  help_phrase: 0.6,
+  imperative_request: 0.35,
 };
 
-export function isQuestion(text: string, config = defaultConfig): boolean {
-  const normalized = text.toLowerCase().trim();
+/**
+ * Find the question signals in a message
+ * @returns The signals present, each with what matched, and the ignore patterns that were removed
+ *          first; tooShort messages are never questions
+ */
+export function extractDetectionFeatures(
+  text: string,
+  config: DetectionConfig = defaultConfig
+): {
+  tooShort: boolean;
+  features: { feature: DetectionFeature; match: string }[];
+  ignored: string[];
+  language: DetectionLanguage;
+} {
+  let normalized = text.toLowerCase().trim();
+  const language = detectLanguage(normalized, config.languages);
+  const pack = LANGUAGE_PACKS[language];
 
   // Too short
-  if (normalized.length < config.minLength) return false;
+  if (normalized.length < Math.ceil(config.minLength * pack.minLengthScale)) {
+    return { tooShort: true, features: [], ignored: [], language };
+  }
+
+  // Rhetorical phrases don't count towards any signal
+  const ignored = config.ignorePatterns.filter((pattern) => pattern && normalized.includes(pattern));
+  for (const pattern of ignored) {
+    normalized = normalized.split(pattern).join(' ').trim();
+  }
 
-  // Check for question mark anywhere in the text
-  if (config.questionMarks && normalized.includes('?')) return true;
+  // English uses the configured phrases; other languages add their pack's to them
+  const phrases = (configured: string[], packed: string[]) =>
+    language === 'en' ? configured : [...packed, ...configured];
+  const folded = foldForMatching(normalized, pack);
+  const features: { feature: DetectionFeature; match: string }[] = [];
+
+  // Check for question marks (including "¿" and "？") anywhere in the text, or a closing "か"
+  if (config.questionMarks) {
+    const ending = pack.questionEnding ? normalized.match(pack.questionEnding) : null;
+    const mark = pack.questionMarks.find((m) => normalized.includes(m)) ?? ending?.[1];
+    if (mark) {
+      features.push({ feature: 'question_mark', match: mark });
+    }
+  }
 
   // Check for question word starters
-  for (const word of config.questionWords) {
-    if (normalized.startsWith(word)) return true;
+  const opener = phrases(config.questionWords, pack.questionWords).find((word) => opensWithPhrase(folded, word, pack));
+  if (opener) {
+    features.push({ feature: 'interrogative_opener', match: opener });
   }
 
   // Check for help patterns
-  for (const pattern of config.helpPatterns) {
-    if (normalized.includes(pattern)) return true;
+  const helpPhrase = phrases(config.helpPatterns, pack.helpPatterns).find((pattern) => containsPhrase(folded, pattern, pack));
+  if (helpPhrase) {
+    features.push({ feature: 'help_phrase', match: helpPhrase });
+  }
+
+  // Requests phrased as instructions ("please send me the runbook")
+  const request = phrases(config.requestPatterns, pack.requestPatterns).find((pattern) => opensWithPhrase(folded, pattern, pack));
+  if (request) {
+    features.push({ feature: 'imperative_request', match: request });
+  }
+
+  return { tooShort: false, features, ignored, language };
+}
+
+/**
+ * What a message was detected by, as recorded with its outcome to learn from dismissals
+ * Signals ("signal:question_mark"), the phrases that matched ("phrase:can you") and the word before a
+ * closing question mark ("ending:right?"), which is where rhetorical tags show up
+ */
+export function getFeedbackFeatures(text: string, config: DetectionConfig = defaultConfig): string[] {
+  const { features } = extractDetectionFeatures(text, config);
+  const keys = features.map(({ feature }) => `signal:${feature}`);
+  for (const { feature, match } of features) {
+    if (feature !== 'question_mark') {
+      keys.push(`phrase:${match}`);
+    }
+  }
+
+  if (/[?？][^\p{L}\p{N}]*$/u.test(text)) {
+    const ending = tokenizeWords(text.toLowerCase()).pop();
+    if (ending) {
+      keys.push(`ending:${ending}?`);
+    }
+  }
+
+  return [...new Set(keys)];
+}
+
+/**
+ * Readable description of a feedback feature, e.g. 'ends with "right?"'
+ */
+export function describeFeedbackFeature(key: string): string {
+  const separator = key.indexOf(':');
+  const value = key.slice(separator + 1);
+  switch (key.slice(0, separator)) {
+    case 'signal':
+      return value.replace(/_/g, ' ');
+    case 'phrase':
+      return `"${value}"`;
+    case 'ending':
+      return `ends with "${value}"`;
+    default:
+      return key;
+  }
+}
+
+/**
+ * Readable description of a detected signal, for classification reasons
+ */
+export function describeFeature(feature: DetectionFeature, match: string): string {
+  switch (feature) {
+    case 'question_mark':
+      return match === '?' ? 'question mark' : `question marker "${match}"`;
+    case 'interrogative_opener':
+      return `starts with "${match}"`;
+    case 'help_phrase':
+      return `help phrase "${match}"`;
+    case 'imperative_request':
+      return `request "${match}"`;
   }
+}
+
+/**
+ * Reasons noting the ignore patterns a message matched - they explain a missing signal rather than add one
+ */
+export function ignoredPhraseReasons(ignored: string[]): ClassificationReason[] {
+  return ignored.map((pattern) => ({ feature: 'ignored_phrase', detail: `ignored "${pattern}"`, weight: 0 }));
+}
 
-  return false;
+/**
+ * Combine independent signal weights: each one closes part of the remaining gap to 1
+ */
+export function combineWeights(weights: number[]): number {
+  return 1 - weights.reduce((remaining, weight) => remaining * (1 - weight), 1);
 }
 
+/**
+ * Default classifier: fixed weights for question marks, interrogative openers, help phrases and requests
+ */
+export function createRuleBasedClassifier(config: DetectionConfig = defaultConfig): QuestionClassifier {
+  return {
+    name: 'rules',
+    classify(text: string): QuestionClassification {
+      const { tooShort, features, ignored, language } = extractDetectionFeatures(text, config);
+      if (tooShort) {
+        return {
+          score: 0,
+          reasons: [{ feature: 'too_short', detail: `shorter than ${config.minLength} characters`, weight: 0 }],
+          classifier: 'rules',
+          language,
+        };
+      }
+
+      const reasons = features.map(({ feature, match }) => ({
+        feature,
+        detail: describeFeature(feature, match),
+        weight: RULE_WEIGHTS[feature],
+      }));
+      return {
+        score: combineWeights(reasons.map((r) => r.weight)),
+        reasons: [...reasons, ...ignoredPhraseReasons(ignored)],
+        classifier: 'rules',
+        language,
+      };
+    },
+  };
+}
+
+export const ruleBasedClassifier = createRuleBasedClassifier();
+
+/**
+ * One-line summary of a classification for logs and previews, e.g. "84% (question mark, starts with "how do")"
+ * Messages read as another language say so, e.g. "84% in Spanish (...)"
+ */
+export function describeClassification(classification: QuestionClassification): string {
+  const language = classification.language && classification.language !== 'en'
+    ? ` in ${LANGUAGE_PACKS[classification.language].name}`
+    : '';
+  const score = `${Math.round(classification.score * 100)}%${language}`;
+  if (classification.reasons.length === 0) {
+    return `${score} (no question signals)`;
+  }
+  const reasons = classification.reasons.map((reason) =>
+    reason.feature === 'learned_term' ? `${reason.detail} ${reason.weight >= 0 ? '+' : '−'}` : reason.detail
+  );
+  return `${score} (${reasons.join(', ')})`;
+}
+
+export function isQuestion(
+  text: string,
+  config: DetectionConfig = defaultConfig,
+  threshold: number = QUESTION_DETECTION.DEFAULT_THRESHOLD
+): boolean {
+  const classifier = config === defaultConfig ? ruleBasedClassifier : createRuleBasedClassifier(config);
+  return classifier.classify(text).score >= threshold;
+}
+
+/**
+ * The most frequent meaningful words of a message, in whatever language it's written
+ */
 export function extractKeywords(text: string): string[] {
-  // Remove common words
-  const stopWords = new Set([
-    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at',
-    'to', 'for', 'of', 'with', 'by', 'from', 'is', 'are',
-    'how', 'what', 'when', 'where', 'why', 'who', 'does',
-    'can', 'could', 'should', 'would', 'i', 'you', 'we',
-  ]);
-
-  // Tokenize and filter
-  const words = text
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, ' ')
-    .split(/\s+/)
-    .filter(word => word.length > 3 && !stopWords.has(word));
+  const language = detectLanguage(text);
+  const stopWords = getStopWords(language);
+  const { minKeywordLength } = LANGUAGE_PACKS[language];
+
+  // Tokenize and filter - contractions and elisions ("what's", "l'authentification") split into words
+  const words = tokenizeWords(text.toLowerCase())
+    .flatMap((word) => word.split(/['’]/))
+    .filter((word) => [...word].length >= minKeywordLength && !stopWords.has(word));
 
   // Count frequency
   const freq = new Map<string, number>();
@@ -5,6 +5,11 @@
 import { prisma } from '../utils/db.js';
 import { extractKeywords } from './questionDetector.js';
 import { sanitizeMessageText } from '../utils/sanitize.js';
+import { recordAnswerExpertise } from './expertiseService.js';
+import { logger } from '../utils/logger.js';
+import { scheduleEscalationJob } from './escalationJobService.js';
+import { recordDetectionOutcome, type DetectionOutcome } from './detectionFeedbackService.js';
+import { QUESTION_STATUS } from '../utils/constants.js';
 
 export interface StoreQuestionParams {
   workspaceId: string;
@@ -17,6 +22,10 @@ export interface StoreQuestionParams {
   isSideConversation?: boolean;
   zendeskTicketId?: string | null;
   sourceApp?: string;
+  detectionScore?: number; // What the detector scored it, and the features it was detected by,
+  detectionFeatures?: string[]; // so its outcome can tune detection (see detectionFeedbackService)
+  escalationStartedAt?: Date; // Start the escalation clock here rather than at askedAt
+  scheduleEscalation?: boolean; // false when the caller schedules (or skips) the escalation job itself
 }
 
 /**
@@ -27,7 +36,7 @@ export async function storeQuestion(params: StoreQuestionParams) {
   const sanitizedMessageText = sanitizeMessageText(params.messageText);
   const keywords = extractKeywords(sanitizedMessageText);
 
-  return await prisma.question.create({
+  const question = await prisma.question.create({
     data: {
       workspaceId: params.workspaceId,
       channelId: params.channelId,
@@ -42,8 +51,18 @@ export async function storeQuestion(params: StoreQuestionParams) {
       isSideConversation: params.isSideConversation || false,
       zendeskTicketId: params.zendeskTicketId || null,
       sourceApp: params.sourceApp || 'slack',
+      detectionScore: params.detectionScore ?? null,
+      detectionFeatures: params.detectionFeatures ?? [],
+      escalationStartedAt: params.escalationStartedAt ?? null,
     },
   });
+
+  // The escalation engine works out when the first step is due on its first look
+  if (params.scheduleEscalation !== false) {
+    await scheduleEscalationJob(question.id, question.workspaceId);
+  }
+
+  return question;
 }
 
 /**
@@ -62,8 +81,25 @@ export async function questionExists(
   return count > 0;
 }
 
+/**
+ * Count an outcome towards detection tuning without letting a failure there affect the caller
+ */
+async function recordOutcome(questionId: string, outcome: DetectionOutcome): Promise<void> {
+  try {
+    await recordDetectionOutcome(questionId, outcome);
+  } catch (error) {
+    logger.warn('Failed to record detection feedback', {
+      questionId,
+      outcome,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 /**
  * Mark a question as answered
+ * Also teaches the answerer's UserExpertise about the question's keywords, and counts the question
+ * as a real one for detection tuning
  * @param questionId - Question ID
  * @param answererId - User ID of the answerer
  * @param answerSlackMessageId - Optional: Slack message ID of the answer (for thread replies)
@@ -75,7 +111,7 @@ export async function markQuestionAnswered(
   answerSlackMessageId?: string,
   answeredAt: Date = new Date()
 ) {
-  return await prisma.question.update({
+  const question = await prisma.question.update({
     where: { id: questionId },
     data: {
       status: 'answered',
@@ -84,6 +120,52 @@ export async function markQuestionAnswered(
       answeredAt,
     },
   });
+
+  // Askers marking their own question don't gain expertise from it
+  if (answererId !== question.askerId) {
+    try {
+      await recordAnswerExpertise(answererId, question.extractedKeywords, answeredAt);
+    } catch (error) {
+      // Learning is best-effort - never fail the answer marking because of it
+      logger.warn('Failed to update expertise for answered question', {
+        questionId,
+        answererId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  await recordOutcome(questionId, 'answered');
+
+  return question;
+}
+
+/**
+ * Dismiss a question as not really a question
+ * Counts it as a false positive, so channels that keep dismissing the same phrases get tuned
+ */
+export async function markQuestionDismissed(questionId: string) {
+  const question = await prisma.question.update({
+    where: { id: questionId },
+    data: { status: QUESTION_STATUS.DISMISSED },
+  });
+
+  await recordOutcome(questionId, 'dismissed');
+
+  return question;
+}
+
+/**
+ * Find a question by ID, only if it belongs to the given workspace
+ * IDs from interaction payloads are user-controlled, so they're never looked up across workspaces
+ */
+export async function findWorkspaceQuestion(workspaceId: string, questionId: string) {
+  return await prisma.question.findFirst({
+    where: {
+      id: questionId,
+      workspaceId,
+    },
+  });
 }
 
 /**
@@ -106,6 +188,35 @@ export async function findQuestionByMessageId(
   });
 }
 
+/**
+ * Find the latest open question a user asked inside a thread before a given time
+ * Lets the asker of a follow-up question tick the reply that answered it
+ * @param slackThreadId - Slack ts of the thread's parent message
+ */
+export async function findOpenThreadQuestion(
+  workspaceId: string,
+  slackThreadId: string,
+  askerSlackUserId: string,
+  askedBefore: Date
+) {
+  return await prisma.question.findFirst({
+    where: {
+      workspaceId,
+      slackThreadId,
+      slackMessageId: { not: slackThreadId },
+      status: { in: ['unanswered', 'snoozed'] },
+      asker: { slackUserId: askerSlackUserId },
+      askedAt: { lte: askedBefore },
+    },
+    include: {
+      asker: true,
+      answerer: true,
+      channel: true,
+    },
+    orderBy: { askedAt: 'desc' },
+  });
+}
+
 /**
  * Get unanswered questions
  */
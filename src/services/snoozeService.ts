@@ -0,0 +1,148 @@
+/**
+ * Snooze Service
+ * Pauses escalation for a question and wakes it up again when the snooze ends
+ */
+import type { WebClient } from '@slack/web-api';
+import { prisma } from '../utils/db.js';
+import { logger } from '../utils/logger.js';
+import { ESCALATION_LEVEL, QUESTION_STATUS, SNOOZE } from '../utils/constants.js';
+import { getReplyThreadTs } from '../utils/slackHelpers.js';
+import { getWorkspaceConfig } from './configService.js';
+import { scheduleEscalationJob } from './escalationJobService.js';
+
+/**
+ * Parse a snooze duration like "30m", "4h", "2d" or a bare number of minutes
+ * @returns Duration in minutes, or null if the input isn't a valid duration
+ */
+export function parseSnoozeDuration(input: string): number | null {
+  const match = input.trim().toLowerCase().match(/^(\d+)\s*(m|min|mins|minutes?|h|hrs?|hours?|d|days?)?$/);
+  if (!match) return null;
+
+  const value = parseInt(match[1], 10);
+  const unit = match[2] || 'm';
+
+  let minutes = value;
+  if (unit.startsWith('h')) {
+    minutes = value * 60;
+  } else if (unit.startsWith('d')) {
+    minutes = value * 1440;
+  }
+
+  if (minutes < 1 || minutes > SNOOZE.MAX_MINUTES) return null;
+  return minutes;
+}
+
+/**
+ * Human-readable snooze duration (e.g. "45 minutes", "4 hours", "2 days")
+ */
+export function formatSnoozeDuration(minutes: number): string {
+  if (minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return `${days} day${days !== 1 ? 's' : ''}`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours !== 1 ? 's' : ''}`;
+  }
+  return `${minutes} minute${minutes !== 1 ? 's' : ''}`;
+}
+
+/**
+ * Get the workspace's default snooze length in minutes
+ */
+export async function getDefaultSnoozeMinutes(workspaceId: string): Promise<number> {
+  const config = await getWorkspaceConfig(workspaceId);
+  return config.settings.defaultSnoozeMinutes ?? SNOOZE.DEFAULT_MINUTES;
+}
+
+/**
+ * Snooze a question until a specific time
+ */
+export async function snoozeQuestionUntil(questionId: string, snoozedUntil: Date) {
+  const question = await prisma.question.update({
+    where: { id: questionId },
+    data: {
+      status: QUESTION_STATUS.SNOOZED,
+      snoozedUntil,
+    },
+  });
+
+  // Wake it on time even if its next escalation check was further off
+  await scheduleEscalationJob(question.id, question.workspaceId, snoozedUntil);
+  return question;
+}
+
+/**
+ * Snooze a question for a number of minutes
+ */
+export async function snoozeQuestion(questionId: string, minutes: number) {
+  return snoozeQuestionUntil(questionId, new Date(Date.now() + minutes * 60000));
+}
+
+/**
+ * Wake every snoozed question in a workspace whose snooze has ended
+ * Woken questions go back to unanswered with their escalation clock restarted and an
+ * escalation job scheduled, and a note is posted in the question's thread
+ *
+ * @returns Number of questions woken
+ */
+export async function wakeDueSnoozes(
+  client: WebClient,
+  workspaceId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const dueQuestions = await prisma.question.findMany({
+    where: {
+      workspaceId,
+      status: QUESTION_STATUS.SNOOZED,
+      snoozedUntil: { lte: now },
+    },
+    include: {
+      channel: true,
+      asker: true,
+    },
+  });
+
+  let woken = 0;
+  for (const question of dueQuestions) {
+    // Guard on status so a question answered in the meantime isn't revived
+    const result = await prisma.question.updateMany({
+      where: {
+        id: question.id,
+        status: QUESTION_STATUS.SNOOZED,
+      },
+      data: {
+        status: QUESTION_STATUS.UNANSWERED,
+        snoozedUntil: null,
+        escalationLevel: ESCALATION_LEVEL.NOT_ESCALATED,
+        escalationStartedAt: now,
+        lastEscalatedAt: null,
+      },
+    });
+
+    if (result.count === 0) continue;
+    woken++;
+
+    // Its job may have finished while it was paused, so make sure it's checked again
+    await scheduleEscalationJob(question.id, workspaceId, now);
+
+    try {
+      await client.chat.postMessage({
+        channel: question.channel.slackChannelId,
+        thread_ts: getReplyThreadTs(question),
+        text: `⏰ Snooze ended - <@${question.asker.slackUserId}>, this question is back in the queue and escalation starts again from now.`,
+      });
+    } catch (error) {
+      logger.warn('Could not post snooze-ended message', {
+        questionId: question.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (woken > 0) {
+    logger.info('Woke snoozed questions', { workspaceId, count: woken });
+  }
+
+  return woken;
+}
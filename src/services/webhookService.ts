@@ -0,0 +1,274 @@
+/**
+ * Webhook Service
+ * Sends signed JSON escalation payloads to external tools (ticketing, paging, incident management)
+ *
+ * Each request carries a timestamp header and an HMAC-SHA256 signature of "v1:<timestamp>:<body>"
+ * made with the target's secret, so receivers can check it came from us and isn't a replay
+ *
+ * Targets must resolve to public addresses, so a webhook can't be pointed at internal services or
+ * cloud metadata endpoints. WEBHOOK_ALLOW_LOCAL_HTTP=true lifts this for local development.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { WEBHOOK } from '../utils/constants.js';
+import { withRetry, type RetryOptions } from '../utils/retry.js';
+
+export interface WebhookPayload {
+  event: 'question.escalated' | 'test';
+  workspace: {
+    teamId: string;
+  };
+  question: {
+    id: string;
+    text: string;
+    askedAt: string;
+    threadLink: string;
+  };
+  channel: {
+    id: string;
+    name: string | null;
+  };
+  asker: {
+    slackUserId: string;
+    name: string | null;
+  };
+  escalation: {
+    level: number;
+    ageMinutes: number;
+  };
+  sentAt: string;
+}
+
+/**
+ * Generate a new signing secret for a webhook target
+ */
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Whether local and plain-http webhook targets are allowed (development only)
+ */
+export function isLocalWebhookAllowed(): boolean {
+  return process.env.WEBHOOK_ALLOW_LOCAL_HTTP === 'true';
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local (incl. cloud metadata) or otherwise not public
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+
+  if (version === 6) {
+    const ip = address.toLowerCase();
+    const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) {
+      return isPrivateAddress(mapped[1]);
+    }
+    return (
+      ip === '::' ||
+      ip === '::1' ||
+      /^f[cd][0-9a-f]{2}:/.test(ip) || // fc00::/7 unique local
+      /^fe[89ab][0-9a-f]:/.test(ip) // fe80::/10 link-local
+    );
+  }
+
+  if (version !== 4) {
+    return true;
+  }
+
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, incl. cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224 // Multicast and reserved
+  );
+}
+
+/**
+ * Check a URL can be used as a webhook target
+ * HTTPS is required and local hosts are rejected, unless local webhooks are allowed for development.
+ * Hostnames are checked after DNS resolution by checkWebhookHost.
+ * @returns Error message, or null if the URL is usable
+ */
+export function validateWebhookUrl(url: string, allowLocal: boolean = isLocalWebhookAllowed()): string | null {
+  if (url.length > WEBHOOK.MAX_URL_LENGTH) {
+    return `Webhook URLs can be at most ${WEBHOOK.MAX_URL_LENGTH} characters`;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Enter a full URL, e.g. https://example.com/hooks/question-router';
+  }
+
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && allowLocal)) {
+    return 'Webhook URLs must use https://';
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (!allowLocal && (host === 'localhost' || host.endsWith('.localhost') || (isIP(host) && isPrivateAddress(host)))) {
+    return 'Webhook URLs must point to a public host';
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a webhook URL's host and make sure every address it resolves to is public
+ * @returns Error message, or null if the host is usable
+ */
+export async function checkWebhookHost(
+  url: string,
+  allowLocal: boolean = isLocalWebhookAllowed()
+): Promise<string | null> {
+  const urlError = validateWebhookUrl(url, allowLocal);
+  if (urlError || allowLocal) {
+    return urlError;
+  }
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    return `Couldn't resolve ${host}`;
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    return 'Webhook URLs must point to a public host';
+  }
+
+  return null;
+}
+
+/**
+ * Compute the signature header value for a request body
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: number): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${WEBHOOK.SIGNATURE_VERSION}:${timestamp}:${body}`)
+    .digest('hex');
+  return `${WEBHOOK.SIGNATURE_VERSION}=${digest}`;
+}
+
+/**
+ * Check a received signature - the receiver's side of signWebhookPayload
+ * @param toleranceSeconds - Reject timestamps further than this from now (replay protection)
+ */
+export function verifyWebhookSignature(
+  body: string,
+  secret: string,
+  timestamp: number,
+  signature: string,
+  now: Date = new Date(),
+  toleranceSeconds: number = 300
+): boolean {
+  if (Math.abs(Math.floor(now.getTime() / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(body, secret, timestamp));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Build the payload for an escalated question
+ */
+export function buildWebhookPayload(
+  question: any,
+  teamId: string,
+  level: number,
+  ageMinutes: number,
+  threadLink: string,
+  event: WebhookPayload['event'] = 'question.escalated',
+  now: Date = new Date()
+): WebhookPayload {
+  return {
+    event,
+    workspace: {
+      teamId,
+    },
+    question: {
+      id: question.id,
+      text: question.messageText,
+      askedAt: new Date(question.askedAt).toISOString(),
+      threadLink,
+    },
+    channel: {
+      id: question.channel.slackChannelId,
+      name: question.channel.channelName || null,
+    },
+    asker: {
+      slackUserId: question.asker.slackUserId,
+      name: question.asker.displayName || question.asker.realName || null,
+    },
+    escalation: {
+      level,
+      ageMinutes,
+    },
+    sentAt: now.toISOString(),
+  };
+}
+
+/**
+ * POST a signed payload, retrying transient failures (network errors, 429, 5xx)
+ * The host is re-checked before sending, in case its DNS has changed since the target was added,
+ * and redirects aren't followed so they can't lead to an internal host.
+ * @returns The final HTTP status
+ * @throws Error with the HTTP status (or the network error) once retries are exhausted, or if the host isn't allowed
+ */
+export async function sendWebhook(
+  url: string,
+  payload: WebhookPayload,
+  secret: string,
+  retryOptions: RetryOptions = {}
+): Promise<number> {
+  const hostError = await checkWebhookHost(url);
+  if (hostError) {
+    throw new Error(hostError);
+  }
+
+  const body = JSON.stringify(payload);
+
+  return withRetry(
+    async () => {
+      // Sign each attempt so retries don't go out with a stale timestamp
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'QuestionRouter-Webhook/1.0',
+          [WEBHOOK.TIMESTAMP_HEADER]: timestamp.toString(),
+          [WEBHOOK.SIGNATURE_HEADER]: signWebhookPayload(body, secret, timestamp),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(WEBHOOK.TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const error: any = new Error(`Webhook returned HTTP ${response.status}`);
+        // withRetry reads the status: 429 and 5xx are retried, other 4xx are not
+        error.status = response.status;
+        throw error;
+      }
+      return response.status;
+    },
+    {
+      maxAttempts: WEBHOOK.MAX_ATTEMPTS,
+      initialDelayMs: WEBHOOK.INITIAL_RETRY_DELAY_MS,
+      ...retryOptions,
+    },
+    'webhook.post'
+  );
+}
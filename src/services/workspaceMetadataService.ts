@@ -0,0 +1,105 @@
+/**
+ * Workspace Metadata Service
+ * Caches the Slack details of each workspace that rarely change: bot user ID, team name and domain
+ *
+ * One auth.test + team.info per workspace per WORKSPACE_METADATA.CACHE_TTL_MS, instead of one on
+ * every escalation, thread check and event. Entries are dropped when the app is (re)installed.
+ * The workspace's database record is cached alongside, so message events don't upsert it every time.
+ */
+import type { WebClient } from '@slack/web-api';
+import type { Workspace } from '@prisma/client';
+import { ensureWorkspace } from '../utils/db.js';
+import { logger } from '../utils/logger.js';
+import { WORKSPACE_METADATA } from '../utils/constants.js';
+import { getTeamDomain } from '../utils/slackHelpers.js';
+
+export interface WorkspaceMetadata {
+  teamId: string;
+  teamName: string | null;
+  teamDomain: string;
+  botUserId: string | null;
+}
+
+interface CacheEntry {
+  metadata: WorkspaceMetadata;
+  expiresAt: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+// Lookups in flight, so concurrent callers for one workspace share a single pair of API calls
+const pending = new Map<string, Promise<WorkspaceMetadata>>();
+const workspaceCache = new Map<string, { workspace: Workspace; expiresAt: number }>();
+
+async function fetchWorkspaceMetadata(client: WebClient, teamId: string): Promise<WorkspaceMetadata> {
+  const [auth, teamInfo] = await Promise.all([client.auth.test(), client.team.info()]);
+
+  return {
+    teamId,
+    teamName: teamInfo.team?.name ?? null,
+    teamDomain: getTeamDomain(teamInfo),
+    botUserId: auth.user_id ?? null,
+  };
+}
+
+/**
+ * A workspace's bot user ID, team name and domain, from cache when fresh
+ * @param client - Client authorized for the workspace, used on a cache miss
+ */
+export async function getWorkspaceMetadata(client: WebClient, teamId: string): Promise<WorkspaceMetadata> {
+  const cached = cache.get(teamId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.metadata;
+  }
+
+  const inFlight = pending.get(teamId);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const lookup: Promise<WorkspaceMetadata> = fetchWorkspaceMetadata(client, teamId)
+    .then((metadata) => {
+      // Skip caching if the workspace was invalidated (reinstalled) while we were fetching
+      if (pending.get(teamId) === lookup) {
+        cache.set(teamId, { metadata, expiresAt: Date.now() + WORKSPACE_METADATA.CACHE_TTL_MS });
+      }
+      return metadata;
+    })
+    .finally(() => {
+      if (pending.get(teamId) === lookup) {
+        pending.delete(teamId);
+      }
+    });
+  pending.set(teamId, lookup);
+
+  return lookup;
+}
+
+/**
+ * A workspace's database record, from cache when fresh
+ * It's only written (created, or its team name refreshed) on a cache miss, so busy channels don't
+ * cost a database write per message
+ * @param client - Client authorized for the workspace, used on a cache miss
+ */
+export async function getCachedWorkspace(client: WebClient, teamId: string): Promise<Workspace> {
+  const cached = workspaceCache.get(teamId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.workspace;
+  }
+
+  const { teamName } = await getWorkspaceMetadata(client, teamId);
+  const workspace = await ensureWorkspace(teamId, teamName ?? undefined);
+  workspaceCache.set(teamId, { workspace, expiresAt: Date.now() + WORKSPACE_METADATA.CACHE_TTL_MS });
+  return workspace;
+}
+
+/**
+ * Forget a workspace's cached details, e.g. after a reinstall changed the bot user or token
+ */
+export function invalidateWorkspaceMetadata(teamId: string): void {
+  workspaceCache.delete(teamId);
+  const hadEntry = cache.delete(teamId);
+  const hadLookup = pending.delete(teamId);
+  if (hadEntry || hadLookup) {
+    logger.debug('Invalidated workspace metadata', { teamId });
+  }
+}
@@ -7,6 +7,7 @@
  */
 export const ESCALATION_LEVEL = {
   NOT_ESCALATED: 0,
+  SUGGESTION: -1, // Escalation rows for the expert DM phase that runs before level 1
   FIRST: 1,
   SECOND: 2,
   FINAL: 3,
@@ -17,10 +18,84 @@ export const ESCALATION_LEVEL = {
  * Escalation Engine Configuration
  */
 export const ESCALATION_ENGINE = {
-  CHECK_INTERVAL_MS: 30000, // 30 seconds
+  JOB_POLL_INTERVAL_MS: 5000, // How often workers look for due escalation jobs
+  JOB_BATCH_SIZE: 25, // Jobs claimed per poll
+  JOB_LOCK_TIMEOUT_MS: 5 * 60000, // Jobs locked longer than this (crashed worker) are picked up again
+  MAX_JOB_DELAY_MS: 15 * 60000, // Every open question is re-checked at least this often, so config changes apply
+  JOB_RETRY_DELAY_MS: 60000, // Doubles with each failed attempt
+  MAX_JOB_RETRY_DELAY_MS: 60 * 60000,
   DEFAULT_FIRST_ESCALATION_MINUTES: 2,
   DEFAULT_SECOND_ESCALATION_MINUTES: 4,
   DEFAULT_FINAL_ESCALATION_MINUTES: 1440, // 24 hours
+  MAX_SUGGESTED_EXPERTS: 3, // Experts DMed during the suggestion phase
+  MAX_LADDER_LEVELS: 10, // Must stay below ESCALATION_LEVEL.PAUSED
+} as const;
+
+/**
+ * Channel History Backfill
+ */
+export const BACKFILL = {
+  DEFAULT_DAYS: 7,
+  MAX_DAYS: 90,
+  PAGE_SIZE: 200, // conversations.history page size
+  MAX_REPLIES_CHECKED: 200, // Per question thread
+} as const;
+
+/**
+ * Reactions that resolve a question
+ */
+export const QUESTION_REACTIONS = {
+  ANSWER: ['white_check_mark', 'heavy_check_mark', 'ballot_box_with_check', 'dart', 'pray'] as string[],
+  DISMISS: ['no_entry', 'no_entry_sign'] as string[],
+};
+
+/**
+ * Question Detection
+ * Classifier scores run 0-1; a message is tracked when its score reaches the workspace threshold
+ */
+export const QUESTION_DETECTION = {
+  DEFAULT_THRESHOLD: 0.5,
+  MIN_THRESHOLD: 0.05,
+  MAX_THRESHOLD: 0.95,
+  MODEL_TRAINING_LIMIT: 2000, // Most recent answered/dismissed questions the statistical model learns from
+  MODEL_MIN_SAMPLES_PER_CLASS: 10, // Below this many answered or dismissed examples, the rules are used instead
+  MODEL_CACHE_TTL_MS: 6 * 60 * 60 * 1000, // Retrain at most every 6 hours per workspace
+  MODEL_REASON_TERMS: 3, // Learned words listed as reasons for a score
+  DETECTOR_CACHE_TTL_MS: 60 * 1000, // Settings changes reach other instances within a minute
+} as const;
+
+/**
+ * Detection Feedback
+ * Answered vs dismissed outcomes tune each channel's threshold and phrase penalties
+ */
+export const DETECTION_FEEDBACK = {
+  SCORE_BUCKET: 0.05, // Width of the score ranges outcomes are counted in
+  MIN_CHANNEL_SAMPLES: 20, // Outcomes a channel needs before it's tuned
+  MIN_CHANNEL_DISMISSALS: 5,
+  MIN_PATTERN_SAMPLES: 5, // Outcomes a phrase needs before it can be penalised
+  PENALTY_DISMISS_RATE: 0.6, // Phrases dismissed at least this often are penalised
+  MAX_PENALTY: 0.8, // Share of the score a penalty can take away
+  MAX_ANSWERED_LOSS: 0.1, // Share of answered questions a raised threshold may stop tracking
+  MAX_TUNED_THRESHOLD: 0.9,
+  REPORT_LIMIT: 10, // Patterns listed in the false-positive report
+} as const;
+
+/**
+ * Workspace Metadata Cache
+ */
+export const WORKSPACE_METADATA = {
+  CACHE_TTL_MS: 60 * 60000, // Bot user ID, team name and domain are re-fetched after this long
+} as const;
+
+/**
+ * Leader Election
+ * Periodic jobs (escalation engine, data cleanup) run only on the instance holding their lease
+ */
+export const LEADER_ELECTION = {
+  LEASE_TTL_MS: 30000, // A leader that stops renewing loses its jobs after this long
+  RENEW_INTERVAL_MS: 10000, // How often leases are renewed (and followers try to take over)
+  ESCALATION_ENGINE_LEASE: 'escalation-engine',
+  DATA_CLEANUP_LEASE: 'data-cleanup',
 } as const;
 
 /**
@@ -30,4 +105,81 @@ export const QUESTION_STATUS = {
   UNANSWERED: 'unanswered',
   ANSWERED: 'answered',
   DISMISSED: 'dismissed',
+  SNOOZED: 'snoozed',
+} as const;
+
+/**
+ * Snooze Configuration
+ */
+export const SNOOZE = {
+  DEFAULT_MINUTES: 60, // Used by the 🔕 reaction unless the workspace overrides it
+  MAX_MINUTES: 7 * 24 * 60, // 1 week
+} as const;
+
+/**
+ * Question Claims ("I'll take it")
+ */
+export const CLAIM = {
+  DEFAULT_TIMEOUT_MINUTES: 60, // Escalation resumes if the claimer hasn't answered by then
+  MAX_TIMEOUT_MINUTES: 24 * 60,
+} as const;
+
+/**
+ * On-Call Rotations
+ */
+export const ONCALL = {
+  ROTATION_TYPES: ['weekly', 'daily'],
+  DEFAULT_HANDOFF_TIME: '09:00',
+  MAX_MEMBERS: 50,
+  MAX_NAME_LENGTH: 50,
+} as const;
+
+/**
+ * Webhook Escalation Targets
+ */
+export const WEBHOOK = {
+  TIMEOUT_MS: 10000, // Per attempt
+  MAX_ATTEMPTS: 3,
+  INITIAL_RETRY_DELAY_MS: 1000,
+  SIGNATURE_HEADER: 'X-Question-Router-Signature',
+  TIMESTAMP_HEADER: 'X-Question-Router-Timestamp',
+  SIGNATURE_VERSION: 'v1',
+  MAX_URL_LENGTH: 2000,
+} as const;
+
+/**
+ * Escalation Message Templates
+ */
+export const MESSAGE_TEMPLATES = {
+  MAX_LENGTH: 1000,
+  MAX_QUOTED_QUESTION_LENGTH: 1500, // Longer questions are cut off in DMs and channel alerts
+  MAX_KEYWORDS_SHOWN: 5,
+} as const;
+
+/**
+ * Expertise Matching Weights
+ */
+export const EXPERTISE_MATCHING = {
+  KEYWORD_WEIGHT: 5, // Per matched topic, scaled by confidence
+  CHANNEL_WEIGHT: 2, // Scaled by log of answers in the channel
+  CHANNEL_HISTORY_DAYS: 90, // How far back channel answer history counts
+  RECENCY_HALF_LIFE_DAYS: 30, // Topic weight halves every 30 days without an answer
+  NO_HISTORY_RECENCY_WEIGHT: 0.75, // Topics with no answers yet (e.g. self-declared)
+  RECENT_ACTIVITY_DAYS: 7,
+  RECENT_ACTIVITY_BONUS: 2,
+  MIN_SCORE: 1,
+} as const;
+
+/**
+ * Expertise Learning (updates UserExpertise when questions are answered)
+ */
+export const EXPERTISE_LEARNING = {
+  STARTING_CONFIDENCE: 0.3, // Confidence before a user's first answer on a topic
+  LEARNING_RATE: 0.2, // Fraction of the remaining gap to 1.0 gained per answer
+  MAX_CONFIDENCE: 0.99,
+  DECAY_HALF_LIFE_DAYS: 60, // Distance above the floor halves every 60 idle days
+  DECAY_FLOOR: 0.1,
+  STALE_AFTER_DAYS: 30, // Auto topics idle this long are decayed by the cleanup job
+  MAX_TOPICS_PER_ANSWER: 10,
+  MANUAL_CONFIDENCE: 0.6, // Starting confidence for self-declared topics
 } as const;
@@ -7,11 +7,32 @@
  * @param teamDomain - Workspace domain (e.g., 'myworkspace')
  * @param channelId - Channel ID
  * @param messageTs - Message timestamp
+ * @param threadTs - Parent message timestamp, when the message is a reply inside a thread
  * @returns Formatted Slack thread URL
  */
-export function buildThreadLink(teamDomain: string, channelId: string, messageTs: string): string {
+export function buildThreadLink(
+  teamDomain: string,
+  channelId: string,
+  messageTs: string,
+  threadTs?: string | null
+): string {
   const formattedTs = messageTs.replace('.', '');
-  return `https://${teamDomain}.slack.com/archives/${channelId}/p${formattedTs}`;
+  const link = `https://${teamDomain}.slack.com/archives/${channelId}/p${formattedTs}`;
+  return threadTs && threadTs !== messageTs ? `${link}?thread_ts=${threadTs}&cid=${channelId}` : link;
+}
+
+/**
+ * Whether a question was asked as a reply inside someone else's thread
+ */
+export function isThreadQuestion(question: { slackMessageId: string; slackThreadId?: string | null }): boolean {
+  return !!question.slackThreadId && question.slackThreadId !== question.slackMessageId;
+}
+
+/**
+ * The thread the bot should reply in for a question - its parent's thread if it was asked inside one
+ */
+export function getReplyThreadTs(question: { slackMessageId: string; slackThreadId?: string | null }): string {
+  return isThreadQuestion(question) ? question.slackThreadId! : question.slackMessageId;
 }
 
 /**
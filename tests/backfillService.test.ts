@@ -0,0 +1,118 @@
+/**
+ * Tests for Channel History Backfill
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  findExistingOutcome,
+  formatBackfillPeriod,
+  formatBackfillProgress,
+  getBackfillEscalationStart,
+  parseBackfillArgs,
+} from '../src/services/backfillService.js';
+import { buildLegacyLadder, getDueLevel } from '../src/services/escalationLadderService.js';
+
+const QUESTION = { ts: '100.000100', user: 'U_ASKER' };
+
+describe('parseBackfillArgs', () => {
+  test('reads a channel mention and a period', () => {
+    expect(parseBackfillArgs('<#C123|support> 3d', 'C_HERE')).toEqual({ channelId: 'C123', hours: 72 });
+    expect(parseBackfillArgs('12h <#C123>', 'C_HERE')).toEqual({ channelId: 'C123', hours: 12 });
+  });
+
+  test('defaults to the current channel and 7 days', () => {
+    expect(parseBackfillArgs('', 'C_HERE')).toEqual({ channelId: 'C_HERE', hours: 168 });
+  });
+
+  test('rejects unknown arguments and out-of-range periods', () => {
+    expect(parseBackfillArgs('#support', 'C_HERE')).toHaveProperty('error');
+    expect(parseBackfillArgs('0d', 'C_HERE')).toHaveProperty('error');
+    expect(parseBackfillArgs('91d', 'C_HERE')).toHaveProperty('error');
+  });
+});
+
+describe('findExistingOutcome', () => {
+  const reply = (user: string, ts: string, reactions?: { name: string; users: string[] }[]) => ({ user, ts, reactions });
+
+  test('a reply the asker ticked is the answer', () => {
+    const replies = [
+      QUESTION,
+      reply('U_FIRST', '101.0'),
+      reply('U_HELPER', '102.0', [{ name: 'white_check_mark', users: ['U_ASKER'] }]),
+    ];
+    expect(findExistingOutcome(QUESTION, replies, 'U_BOT', 'emoji_only')).toEqual({
+      status: 'answered',
+      answererSlackId: 'U_HELPER',
+      answerTs: '102.0',
+    });
+  });
+
+  test('a tick on the question credits whoever reacted', () => {
+    const question = { ...QUESTION, reactions: [{ name: 'dart', users: ['U_REACTOR'] }] };
+    expect(findExistingOutcome(question, [], 'U_BOT', 'emoji_only')).toEqual({
+      status: 'answered',
+      answererSlackId: 'U_REACTOR',
+    });
+  });
+
+  test('a no-entry reaction dismisses it', () => {
+    const question = { ...QUESTION, reactions: [{ name: 'no_entry_sign', users: ['U_ANY'] }] };
+    expect(findExistingOutcome(question, [], 'U_BOT', 'thread_auto')).toEqual({ status: 'dismissed' });
+  });
+
+  test('thread replies follow the answer detection mode', () => {
+    const replies = [QUESTION, reply('U_BOT', '101.0'), reply('U_HELPER', '102.0')];
+
+    expect(findExistingOutcome(QUESTION, replies, 'U_BOT', 'thread_auto')).toEqual({
+      status: 'answered',
+      answererSlackId: 'U_HELPER',
+      answerTs: '102.0',
+    });
+    expect(findExistingOutcome(QUESTION, replies, 'U_BOT', 'hybrid')).toEqual({ status: 'paused' });
+    expect(findExistingOutcome(QUESTION, replies, 'U_BOT', 'emoji_only')).toEqual({ status: 'open' });
+  });
+
+  test('bot replies alone leave it open', () => {
+    const replies = [QUESTION, reply('U_BOT', '101.0'), { ts: '102.0', user: 'U_ZENDESK', bot_id: 'B1' }];
+    expect(findExistingOutcome(QUESTION, replies, 'U_BOT', 'thread_auto')).toEqual({ status: 'open' });
+  });
+});
+
+describe('formatting', () => {
+  test('periods read naturally', () => {
+    expect(formatBackfillPeriod(24)).toBe('1 day');
+    expect(formatBackfillPeriod(168)).toBe('7 days');
+    expect(formatBackfillPeriod(36)).toBe('36 hours');
+  });
+
+  test('the final report says what happens to open questions', () => {
+    const text = formatBackfillProgress(
+      'C123',
+      168,
+      { messagesScanned: 400, questionsFound: 12, alreadyTracked: 5, answered: 3, dismissed: 1, paused: 1, open: 2 },
+      true
+    );
+    expect(text).toContain('Backfill of <#C123> complete');
+    expect(text).toContain('Newly tracked: 7');
+    expect(text).toContain("2 open questions now follow the channel's escalation ladder");
+  });
+});
+
+describe('getBackfillEscalationStart', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const ladder = buildLegacyLadder(120, 240, 1440);
+
+  test('a message older than the final level starts with nothing due', () => {
+    const askedAt = new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000);
+    // Measured from askedAt, the whole ladder would be due at once
+    expect(getDueLevel(ladder, 2, now.getTime() - askedAt.getTime())).toEqual({ level: 3, afterMinutes: 1440 });
+
+    const clockStart = getBackfillEscalationStart({ status: 'open' }, now) ?? askedAt;
+    expect(clockStart).toEqual(now);
+    expect(getDueLevel(ladder, 0, now.getTime() - clockStart.getTime())).toBeNull();
+  });
+
+  test('handled questions keep their asked time', () => {
+    expect(getBackfillEscalationStart({ status: 'dismissed' }, now)).toBeUndefined();
+    expect(getBackfillEscalationStart({ status: 'paused' }, now)).toBeUndefined();
+  });
+});
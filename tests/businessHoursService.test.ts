@@ -0,0 +1,136 @@
+/**
+ * Tests for Business Hours
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  DEFAULT_BUSINESS_HOURS,
+  describeBusinessHours,
+  getNextWorkingTime,
+  getWorkingTimeBetween,
+  isWorkingTime,
+  parseHolidays,
+  validateBusinessHours,
+  type BusinessHours,
+} from '../src/services/businessHoursService.js';
+
+const HOUR = 3600000;
+
+const UTC_HOURS: BusinessHours = { ...DEFAULT_BUSINESS_HOURS, enabled: true };
+const NEW_YORK_HOURS: BusinessHours = { ...UTC_HOURS, timezone: 'America/New_York' };
+
+describe('isWorkingTime', () => {
+  test('treats a missing or disabled calendar as always on', () => {
+    const sunday = new Date('2026-10-18T03:00:00Z');
+    expect(isWorkingTime(sunday, null)).toBe(true);
+    expect(isWorkingTime(sunday, DEFAULT_BUSINESS_HOURS)).toBe(true);
+  });
+
+  test('checks the working day and daily window', () => {
+    expect(isWorkingTime(new Date('2026-10-19T10:00:00Z'), UTC_HOURS)).toBe(true); // Monday
+    expect(isWorkingTime(new Date('2026-10-19T17:00:00Z'), UTC_HOURS)).toBe(false); // End is exclusive
+    expect(isWorkingTime(new Date('2026-10-19T08:59:00Z'), UTC_HOURS)).toBe(false);
+    expect(isWorkingTime(new Date('2026-10-18T10:00:00Z'), UTC_HOURS)).toBe(false); // Sunday
+  });
+
+  test('uses the calendar timezone', () => {
+    // 14:00 UTC is 10:00 in New York (EDT), 05:00 UTC is 01:00
+    expect(isWorkingTime(new Date('2026-10-19T14:00:00Z'), NEW_YORK_HOURS)).toBe(true);
+    expect(isWorkingTime(new Date('2026-10-19T05:00:00Z'), NEW_YORK_HOURS)).toBe(false);
+  });
+
+  test('skips holidays', () => {
+    const hours = { ...UTC_HOURS, holidays: ['2026-12-25'] };
+    expect(isWorkingTime(new Date('2026-12-25T10:00:00Z'), hours)).toBe(false);
+  });
+});
+
+describe('getWorkingTimeBetween', () => {
+  test('is wall time when the calendar is off', () => {
+    const start = new Date('2026-10-16T18:00:00Z');
+    expect(getWorkingTimeBetween(start, new Date(start.getTime() + 5 * HOUR), null)).toBe(5 * HOUR);
+  });
+
+  test('skips the weekend between Friday evening and Monday morning', () => {
+    const fridayEvening = new Date('2026-10-16T18:00:00Z');
+    const mondayTen = new Date('2026-10-19T10:00:00Z');
+    expect(getWorkingTimeBetween(fridayEvening, mondayTen, UTC_HOURS)).toBe(1 * HOUR);
+  });
+
+  test('counts partial days at both ends', () => {
+    const fridayFour = new Date('2026-10-16T16:00:00Z');
+    const mondayTen = new Date('2026-10-19T10:00:00Z');
+    expect(getWorkingTimeBetween(fridayFour, mondayTen, UTC_HOURS)).toBe(2 * HOUR);
+  });
+
+  test('skips holidays', () => {
+    const hours = { ...UTC_HOURS, holidays: ['2026-10-19'] };
+    const fridayFour = new Date('2026-10-16T16:00:00Z');
+    const tuesdayTen = new Date('2026-10-20T10:00:00Z');
+    expect(getWorkingTimeBetween(fridayFour, tuesdayTen, hours)).toBe(2 * HOUR);
+  });
+
+  test('handles daylight saving changes', () => {
+    // New York falls back on 2026-11-01; the 9-5 window shifts from 13:00 to 14:00 UTC
+    const fridayBefore = new Date('2026-10-30T20:00:00Z'); // 16:00 EDT
+    const mondayAfter = new Date('2026-11-02T15:00:00Z'); // 10:00 EST
+    expect(getWorkingTimeBetween(fridayBefore, mondayAfter, NEW_YORK_HOURS)).toBe(2 * HOUR);
+  });
+
+  test('returns 0 for reversed ranges', () => {
+    expect(getWorkingTimeBetween(new Date('2026-10-19T12:00:00Z'), new Date('2026-10-19T10:00:00Z'), UTC_HOURS)).toBe(0);
+  });
+});
+
+describe('getNextWorkingTime', () => {
+  test('returns the same instant during working hours', () => {
+    const date = new Date('2026-10-19T10:00:00Z');
+    expect(getNextWorkingTime(date, UTC_HOURS)).toEqual(date);
+  });
+
+  test('jumps to the next working morning', () => {
+    expect(getNextWorkingTime(new Date('2026-10-16T18:00:00Z'), UTC_HOURS)).toEqual(new Date('2026-10-19T09:00:00Z'));
+  });
+
+  test('returns null when the calendar has no working days', () => {
+    expect(getNextWorkingTime(new Date('2026-10-16T18:00:00Z'), { ...UTC_HOURS, workDays: [] })).toBeNull();
+  });
+});
+
+describe('validateBusinessHours', () => {
+  test('accepts the defaults', () => {
+    expect(validateBusinessHours(UTC_HOURS)).toBeNull();
+  });
+
+  test('rejects unknown timezones, empty weeks and backwards days', () => {
+    expect(validateBusinessHours({ ...UTC_HOURS, timezone: 'Mars/Olympus' })).not.toBeNull();
+    expect(validateBusinessHours({ ...UTC_HOURS, workDays: [] })).not.toBeNull();
+    expect(validateBusinessHours({ ...UTC_HOURS, startTime: '17:00', endTime: '09:00' })).not.toBeNull();
+  });
+
+  test('rejects out-of-range times', () => {
+    expect(validateBusinessHours({ ...UTC_HOURS, endTime: '99:99' })).not.toBeNull();
+    expect(validateBusinessHours({ ...UTC_HOURS, endTime: '24:00' })).not.toBeNull();
+    expect(validateBusinessHours({ ...UTC_HOURS, startTime: '08:60' })).not.toBeNull();
+    expect(validateBusinessHours({ ...UTC_HOURS, startTime: '00:00', endTime: '23:59' })).toBeNull();
+  });
+});
+
+describe('parseHolidays', () => {
+  test('sorts and de-duplicates dates', () => {
+    expect(parseHolidays('2026-12-25\n2026-01-01, 2026-12-25\n').holidays).toEqual(['2026-01-01', '2026-12-25']);
+  });
+
+  test('rejects malformed and impossible dates', () => {
+    expect(parseHolidays('Dec 25').error).toContain('Dec 25');
+    expect(parseHolidays('2026-02-30').error).toBeDefined();
+  });
+});
+
+describe('describeBusinessHours', () => {
+  test('summarises the calendar', () => {
+    expect(describeBusinessHours(null)).toBe('Always on (24/7)');
+    expect(describeBusinessHours({ ...NEW_YORK_HOURS, holidays: ['2026-12-25'] }))
+      .toBe('Mon-Fri 09:00-17:00 America/New_York (1 holiday)');
+    expect(describeBusinessHours({ ...UTC_HOURS, workDays: [0, 3] })).toBe('Sun, Wed 09:00-17:00 UTC');
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * Tests for Question Claim State
+ */
+import { describe, test, expect } from '@jest/globals';
+import { isClaimActive } from '../src/services/claimService.js';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+describe('isClaimActive', () => {
+  test('is active until the claim expires', () => {
+    expect(isClaimActive({ claimedById: 'u1', claimExpiresAt: new Date(NOW.getTime() + 60000) }, NOW)).toBe(true);
+    expect(isClaimActive({ claimedById: 'u1', claimExpiresAt: NOW }, NOW)).toBe(false);
+  });
+
+  test('is inactive for unclaimed questions', () => {
+    expect(isClaimActive({ claimedById: null, claimExpiresAt: null }, NOW)).toBe(false);
+    expect(isClaimActive({ claimedById: 'u1', claimExpiresAt: null }, NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for the Detection Feedback Service
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  computeDetectionTuning,
+  getScoreBucket,
+  isPatternFeature,
+  type FeedbackCounts,
+} from '../src/services/detectionFeedbackService.js';
+import { describeFeedbackFeature, getFeedbackFeatures } from '../src/services/questionDetector.js';
+
+const now = new Date('2026-10-19T02:00:00Z');
+
+function counts(feature: string, answeredCount: number, dismissedCount: number): FeedbackCounts {
+  return { feature, answeredCount, dismissedCount };
+}
+
+describe('getFeedbackFeatures', () => {
+  test('records signals, matched phrases and the closing word', () => {
+    expect(getFeedbackFeatures('Can someone check the build, right?')).toEqual([
+      'signal:question_mark',
+      'signal:help_phrase',
+      'phrase:can someone',
+      'ending:right?',
+    ]);
+  });
+
+  test('has no ending without a closing question mark', () => {
+    expect(getFeedbackFeatures('I need help with the deploy')).toEqual(['signal:help_phrase', 'phrase:help with']);
+  });
+});
+
+describe('describeFeedbackFeature', () => {
+  test('describes each kind of feature', () => {
+    expect(describeFeedbackFeature('signal:help_phrase')).toBe('help phrase');
+    expect(describeFeedbackFeature('phrase:can someone')).toBe('"can someone"');
+    expect(describeFeedbackFeature('ending:right?')).toBe('ends with "right?"');
+  });
+});
+
+describe('getScoreBucket', () => {
+  test('rounds down to the bucket start', () => {
+    expect(getScoreBucket(0.6)).toBe('score:0.60');
+    expect(getScoreBucket(0.84)).toBe('score:0.80');
+    expect(getScoreBucket(1)).toBe('score:1.00');
+  });
+});
+
+describe('isPatternFeature', () => {
+  test('only phrases and endings are patterns', () => {
+    expect(isPatternFeature('phrase:can you')).toBe(true);
+    expect(isPatternFeature('ending:right?')).toBe(true);
+    expect(isPatternFeature('signal:question_mark')).toBe(false);
+    expect(isPatternFeature('score:0.60')).toBe(false);
+    expect(isPatternFeature('total')).toBe(false);
+  });
+});
+
+describe('computeDetectionTuning', () => {
+  test('waits for enough outcomes and dismissals', () => {
+    expect(computeDetectionTuning([counts('total', 10, 5)], 0.5, now)).toBeNull();
+    expect(computeDetectionTuning([counts('total', 40, 2)], 0.5, now)).toBeNull();
+    expect(computeDetectionTuning([], 0.5, now)).toBeNull();
+  });
+
+  test('penalises phrases that are mostly dismissed', () => {
+    const tuning = computeDetectionTuning(
+      [
+        counts('total', 30, 10),
+        counts('ending:right?', 1, 8),
+        counts('phrase:how do', 20, 1),
+        counts('phrase:lol', 0, 3), // Too few to judge
+        counts('signal:question_mark', 5, 10), // Signals are never penalised
+      ],
+      0.5,
+      now
+    );
+
+    expect(tuning).toEqual({ phrasePenalties: { 'ending:right?': 0.73 }, samples: 40, tunedAt: now.toISOString() });
+  });
+
+  test('raises the threshold past mostly-dismissed scores', () => {
+    const tuning = computeDetectionTuning(
+      [counts('total', 40, 12), counts('score:0.60', 2, 10), counts('score:0.80', 20, 2), counts('score:0.85', 18, 0)],
+      0.5,
+      now
+    );
+
+    expect(tuning?.threshold).toBe(0.8);
+  });
+
+  test("doesn't raise the threshold when that loses too many answered questions", () => {
+    const tuning = computeDetectionTuning(
+      [counts('total', 40, 12), counts('score:0.60', 10, 10), counts('score:0.80', 30, 2)],
+      0.5,
+      now
+    );
+
+    expect(tuning?.threshold).toBeUndefined();
+  });
+
+  test('never lowers the threshold', () => {
+    const tuning = computeDetectionTuning(
+      [counts('total', 40, 12), counts('score:0.60', 2, 10), counts('score:0.80', 38, 2)],
+      0.85,
+      now
+    );
+
+    expect(tuning?.threshold).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Tests for the Detection Rules Service
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  DEFAULT_DETECTION_RULES,
+  diffDetectionRules,
+  getEffectiveDetectionRules,
+  getUserRuleBlock,
+  parseRuleLines,
+  toDetectionConfig,
+} from '../src/services/detectionRulesService.js';
+import { isQuestion } from '../src/services/questionDetector.js';
+
+describe('getEffectiveDetectionRules', () => {
+  test('uses the defaults when nothing is set', () => {
+    expect(getEffectiveDetectionRules()).toEqual(DEFAULT_DETECTION_RULES);
+  });
+
+  test('channel fields replace workspace fields, which replace the defaults', () => {
+    const rules = getEffectiveDetectionRules(
+      { minLength: 20, ignorePatterns: ['right?'] },
+      { ignorePatterns: ['lol?'], denyUsers: ['U1'] }
+    );
+    expect(rules.minLength).toBe(20);
+    expect(rules.ignorePatterns).toEqual(['lol?']);
+    expect(rules.denyUsers).toEqual(['U1']);
+    expect(rules.questionWords).toEqual(DEFAULT_DETECTION_RULES.questionWords);
+  });
+
+  test('custom words reach the detector', () => {
+    const config = toDetectionConfig(getEffectiveDetectionRules({ questionWords: ['quick q'] }));
+    expect(isQuestion('Quick q about the staging deploy', config)).toBe(true);
+    expect(isQuestion('How do I deploy to staging', config)).toBe(false);
+  });
+});
+
+describe('getUserRuleBlock', () => {
+  test('deny list wins, and a non-empty allow list excludes everyone else', () => {
+    expect(getUserRuleBlock({ ...DEFAULT_DETECTION_RULES, denyUsers: ['U1'] }, 'U1')).toBe('author is on the deny list');
+    expect(getUserRuleBlock({ ...DEFAULT_DETECTION_RULES, allowUsers: ['U2'] }, 'U1')).toBe('author is not on the allow list');
+    expect(getUserRuleBlock({ ...DEFAULT_DETECTION_RULES, allowUsers: ['U2'] }, 'U2')).toBeNull();
+    expect(getUserRuleBlock(DEFAULT_DETECTION_RULES, 'U1')).toBeNull();
+  });
+});
+
+describe('parseRuleLines', () => {
+  test('one lowercased phrase per line, without blanks or repeats', () => {
+    expect(parseRuleLines('Right?\n\n  lol?  \nright?')).toEqual(['right?', 'lol?']);
+    expect(parseRuleLines(undefined)).toEqual([]);
+  });
+});
+
+describe('diffDetectionRules', () => {
+  test('keeps only fields that differ from the inherited rules', () => {
+    const rules = { ...DEFAULT_DETECTION_RULES, minLength: 15, denyUsers: ['U1'] };
+    expect(diffDetectionRules(rules, DEFAULT_DETECTION_RULES)).toEqual({ minLength: 15, denyUsers: ['U1'] });
+    expect(diffDetectionRules(DEFAULT_DETECTION_RULES, DEFAULT_DETECTION_RULES)).toEqual({});
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for Escalation Engine Decisions
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildSuggestionEscalation,
+  getGraceWindowStart,
+  getLastThreadActivity,
+  getSuggestionPhase,
+  isHumanReply,
+} from '../src/services/escalationEngine.js';
+import { ESCALATION_LEVEL } from '../src/utils/constants.js';
+
+const MINUTE = 60000;
+const NOW = new Date('2026-10-19T10:00:00Z');
+const BOT = 'UBOT';
+
+// Slack ts of a moment some minutes before NOW
+function ts(minutesAgo: number): string {
+  return ((NOW.getTime() - minutesAgo * MINUTE) / 1000).toFixed(6);
+}
+
+function at(minutesAgo: number): Date {
+  return new Date(NOW.getTime() - minutesAgo * MINUTE);
+}
+
+const TOP_LEVEL = { slackMessageId: ts(60), slackThreadId: null, askerSlackId: 'UASKER' };
+// Asked 30 minutes ago inside a thread started an hour ago
+const FOLLOW_UP = { slackMessageId: ts(30), slackThreadId: ts(60), askerSlackId: 'UASKER' };
+
+describe('getSuggestionPhase', () => {
+  const fresh = { escalationLevel: ESCALATION_LEVEL.NOT_ESCALATED, suggestionsSentAt: null };
+
+  test('is due once the grace period or first level delay has passed, whichever is sooner', () => {
+    expect(getSuggestionPhase(fresh, true, 30, 120, 29 * MINUTE)).toEqual({
+      pending: true,
+      due: false,
+      afterMs: 30 * MINUTE,
+    });
+    expect(getSuggestionPhase(fresh, true, 30, 120, 30 * MINUTE).due).toBe(true);
+    expect(getSuggestionPhase(fresh, true, 30, 10, 10 * MINUTE).due).toBe(true);
+  });
+
+  test('is skipped when DM suggestions are off', () => {
+    expect(getSuggestionPhase(fresh, false, 30, 120, 60 * MINUTE)).toMatchObject({ pending: false, due: false });
+  });
+
+  test('runs only once, before the first escalation', () => {
+    const sent = { ...fresh, suggestionsSentAt: NOW };
+    expect(getSuggestionPhase(sent, true, 30, 120, 60 * MINUTE)).toMatchObject({ pending: false, due: false });
+
+    const escalated = { ...fresh, escalationLevel: ESCALATION_LEVEL.FIRST };
+    expect(getSuggestionPhase(escalated, true, 30, 120, 60 * MINUTE)).toMatchObject({ pending: false, due: false });
+  });
+});
+
+describe('buildSuggestionEscalation', () => {
+  const matches = [
+    { userId: 'user-1', score: 0.9, reasons: ['Answered 3 questions about billing'] },
+    { userId: 'user-2', score: 0.6, reasons: ['Active in this channel'] },
+  ];
+
+  test('records every suggested expert at the suggestion level', () => {
+    expect(buildSuggestionEscalation('q1', matches, [{ status: 'success' }, { status: 'failed' }], NOW)).toEqual({
+      questionId: 'q1',
+      escalationLevel: ESCALATION_LEVEL.SUGGESTION,
+      suggestedUsers: ['user-1', 'user-2'],
+      actionTaken: 'dm_suggestions',
+      escalatedAt: NOW,
+    });
+  });
+
+  test('notes when no DM went out', () => {
+    const escalation = buildSuggestionEscalation('q1', matches, [{ status: 'failed' }, { status: 'skipped' }], NOW);
+    expect(escalation.actionTaken).toBe('dm_suggestions_failed');
+    expect(escalation.suggestedUsers).toEqual(['user-1', 'user-2']);
+  });
+
+  test('uses a level distinct from not escalated', () => {
+    expect(ESCALATION_LEVEL.SUGGESTION).not.toBe(ESCALATION_LEVEL.NOT_ESCALATED);
+  });
+});
+
+describe('getGraceWindowStart', () => {
+  test('reaches back by the grace period', () => {
+    expect(getGraceWindowStart(NOW, 15)).toEqual(at(15));
+  });
+
+  test('is off when the grace period is 0', () => {
+    expect(getGraceWindowStart(NOW, 0)).toBeNull();
+  });
+});
+
+describe('isHumanReply', () => {
+  test('counts people, including the asker, in a question\'s own thread', () => {
+    expect(isHumanReply({ ts: ts(10), user: 'UHELPER' }, TOP_LEVEL, BOT)).toBe(true);
+    expect(isHumanReply({ ts: ts(10), user: 'UASKER' }, TOP_LEVEL, BOT)).toBe(true);
+  });
+
+  test('ignores the question itself, our bot and other bots', () => {
+    expect(isHumanReply({ ts: TOP_LEVEL.slackMessageId, user: 'UASKER' }, TOP_LEVEL, BOT)).toBe(false);
+    expect(isHumanReply({ ts: ts(10), user: BOT }, TOP_LEVEL, BOT)).toBe(false);
+    expect(isHumanReply({ ts: ts(10), user: 'UZENDESK', bot_id: 'B1' }, TOP_LEVEL, BOT)).toBe(false);
+  });
+
+  test('only counts later messages from others for a follow-up question', () => {
+    expect(isHumanReply({ ts: ts(10), user: 'UHELPER' }, FOLLOW_UP, BOT)).toBe(true);
+    expect(isHumanReply({ ts: ts(10), user: 'UASKER' }, FOLLOW_UP, BOT)).toBe(false);
+    expect(isHumanReply({ ts: ts(45), user: 'UHELPER' }, FOLLOW_UP, BOT)).toBe(false);
+    expect(isHumanReply({ ts: FOLLOW_UP.slackThreadId, user: 'UOTHER' }, FOLLOW_UP, BOT)).toBe(false);
+  });
+});
+
+describe('getLastThreadActivity', () => {
+  const asked = { ts: TOP_LEVEL.slackMessageId, user: 'UASKER' };
+
+  test('returns the latest reply inside the window', () => {
+    const replies = [
+      { ts: ts(20), user: 'UHELPER' }, // Before the window
+      { ts: ts(10), user: 'UHELPER' },
+      { ts: ts(5), user: 'UOTHER' },
+      { ts: ts(2), user: BOT },
+    ];
+    expect(getLastThreadActivity(asked, replies, TOP_LEVEL, BOT, at(15))).toEqual(at(5));
+  });
+
+  test('counts the asker editing the question', () => {
+    const edited = { ...asked, edited: { ts: ts(3) } };
+    expect(getLastThreadActivity(edited, [{ ts: ts(10), user: 'UHELPER' }], TOP_LEVEL, BOT, at(15))).toEqual(at(3));
+  });
+
+  test('is null when the thread has been quiet through the window', () => {
+    const edited = { ...asked, edited: { ts: ts(40) } };
+    expect(getLastThreadActivity(edited, [{ ts: ts(20), user: 'UHELPER' }], TOP_LEVEL, BOT, at(15))).toBeNull();
+  });
+
+  test('never defers when the grace period is 0', () => {
+    const edited = { ...asked, edited: { ts: ts(1) } };
+    const replies = [{ ts: ts(1), user: 'UHELPER' }];
+    expect(getLastThreadActivity(edited, replies, TOP_LEVEL, BOT, getGraceWindowStart(NOW, 0))).toBeNull();
+  });
+
+  test('ignores the asker talking on after a follow-up question', () => {
+    const followUp = { ts: FOLLOW_UP.slackMessageId, user: 'UASKER' };
+    expect(getLastThreadActivity(followUp, [{ ts: ts(5), user: 'UASKER' }], FOLLOW_UP, BOT, at(15))).toBeNull();
+    expect(getLastThreadActivity(followUp, [{ ts: ts(5), user: 'UHELPER' }], FOLLOW_UP, BOT, at(15))).toEqual(at(5));
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Tests for the Escalation Job Queue
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  capNextRunAt,
+  getRetryDelayMs,
+  getRetryRunAt,
+  runEscalationJobWork,
+} from '../src/services/escalationJobService.js';
+import { ESCALATION_ENGINE } from '../src/utils/constants.js';
+
+const NOW = new Date('2026-10-19T10:00:00Z');
+
+describe('getRetryDelayMs', () => {
+  test('doubles with each consecutive failure', () => {
+    expect(getRetryDelayMs(1)).toBe(ESCALATION_ENGINE.JOB_RETRY_DELAY_MS);
+    expect(getRetryDelayMs(2)).toBe(ESCALATION_ENGINE.JOB_RETRY_DELAY_MS * 2);
+    expect(getRetryDelayMs(3)).toBe(ESCALATION_ENGINE.JOB_RETRY_DELAY_MS * 4);
+  });
+
+  test('is capped', () => {
+    expect(getRetryDelayMs(50)).toBe(ESCALATION_ENGINE.MAX_JOB_RETRY_DELAY_MS);
+  });
+});
+
+describe('capNextRunAt', () => {
+  test('keeps times within the maximum delay', () => {
+    const soon = new Date(NOW.getTime() + 60000);
+    expect(capNextRunAt(soon, NOW)).toBe(soon);
+  });
+
+  test('pulls later times in so config changes are picked up', () => {
+    const tomorrow = new Date(NOW.getTime() + 24 * 60 * 60000);
+    expect(capNextRunAt(tomorrow, NOW)).toEqual(new Date(NOW.getTime() + ESCALATION_ENGINE.MAX_JOB_DELAY_MS));
+  });
+});
+
+describe('runEscalationJobWork', () => {
+  test('passes on the next run time, capped', async () => {
+    const tomorrow = new Date(NOW.getTime() + 24 * 60 * 60000);
+    expect(await runEscalationJobWork(async () => tomorrow, NOW)).toEqual({
+      ok: true,
+      nextRunAt: new Date(NOW.getTime() + ESCALATION_ENGINE.MAX_JOB_DELAY_MS),
+    });
+    expect(await runEscalationJobWork(async () => null, NOW)).toEqual({ ok: true, nextRunAt: null });
+  });
+
+  test('turns a throwing escalation into a failure that is backed off', async () => {
+    const error = new Error('Slack is down');
+    const outcome = await runEscalationJobWork(async () => {
+      throw error;
+    }, NOW);
+
+    expect(outcome).toEqual({ ok: false, error });
+    // The retry is pushed out, not due again on the next poll
+    expect(getRetryRunAt(1, NOW).getTime() - NOW.getTime()).toBe(ESCALATION_ENGINE.JOB_RETRY_DELAY_MS);
+    expect(getRetryRunAt(3, NOW).getTime()).toBeGreaterThan(getRetryRunAt(2, NOW).getTime());
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Tests for Escalation Ladders
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildLegacyLadder,
+  formatLadderDelay,
+  getDueLevel,
+  getWorkspaceLadder,
+  parseLadderText,
+} from '../src/services/escalationLadderService.js';
+
+const MINUTE = 60000;
+
+describe('parseLadderText', () => {
+  test('numbers levels in order', () => {
+    expect(parseLadderText('5, 30, 240, 1440').ladder).toEqual([
+      { level: 1, afterMinutes: 5 },
+      { level: 2, afterMinutes: 30 },
+      { level: 3, afterMinutes: 240 },
+      { level: 4, afterMinutes: 1440 },
+    ]);
+  });
+
+  test('rejects non-numbers, zero and out-of-order timings', () => {
+    expect(parseLadderText('5, soon').error).toBeDefined();
+    expect(parseLadderText('0, 10').error).toBeDefined();
+    expect(parseLadderText('30, 10').error).toBeDefined();
+    expect(parseLadderText('').error).toBeDefined();
+  });
+
+  test('caps the number of levels', () => {
+    const tooMany = Array.from({ length: 11 }, (_, i) => (i + 1) * 10).join(',');
+    expect(parseLadderText(tooMany).error).toBeDefined();
+  });
+});
+
+describe('getDueLevel', () => {
+  const ladder = parseLadderText('5, 30, 240, 1440').ladder!;
+
+  test('returns the next level once the question is old enough', () => {
+    expect(getDueLevel(ladder, 0, 4 * MINUTE)).toBeNull();
+    expect(getDueLevel(ladder, 0, 5 * MINUTE)?.level).toBe(1);
+    expect(getDueLevel(ladder, 3, 1440 * MINUTE)?.level).toBe(4);
+  });
+
+  test('only ever moves one level at a time', () => {
+    expect(getDueLevel(ladder, 1, 10000 * MINUTE)?.level).toBe(2);
+  });
+
+  test('stops at the top of the ladder', () => {
+    expect(getDueLevel(ladder, 4, 10000 * MINUTE)).toBeNull();
+  });
+});
+
+describe('getWorkspaceLadder', () => {
+  test('falls back to the legacy three timings', () => {
+    expect(getWorkspaceLadder({
+      firstEscalationMinutes: 2,
+      secondEscalationMinutes: 4,
+      finalEscalationMinutes: 1440,
+      settings: null,
+    })).toEqual(buildLegacyLadder(2, 4, 1440));
+  });
+
+  test('prefers an explicit ladder from settings', () => {
+    const ladder = [{ level: 1, afterMinutes: 10 }];
+    expect(getWorkspaceLadder({
+      firstEscalationMinutes: 2,
+      secondEscalationMinutes: 4,
+      finalEscalationMinutes: 1440,
+      settings: { escalationLadder: ladder },
+    })).toEqual(ladder);
+  });
+});
+
+describe('formatLadderDelay', () => {
+  test('uses minutes, hours and days', () => {
+    expect(formatLadderDelay(45)).toBe('45m');
+    expect(formatLadderDelay(90)).toBe('1h 30m');
+    expect(formatLadderDelay(240)).toBe('4h');
+    expect(formatLadderDelay(1500)).toBe('1d 1h');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for Edit-in-Place Escalation Messages
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildDeletedMessage,
+  buildResolvedMessage,
+  buildSupersededMessage,
+  formatResolutionStatus,
+  getTrackedMessages,
+} from '../src/services/escalationMessageService.js';
+
+const ASKED_AT = new Date('2026-10-19T10:00:00Z');
+
+function event(overrides: Partial<Parameters<typeof getTrackedMessages>[0][number]> = {}) {
+  return {
+    messageChannelId: null,
+    messageTs: null,
+    dmChannelId: null,
+    dmMessageTs: null,
+    ...overrides,
+  };
+}
+
+describe('getTrackedMessages', () => {
+  test('collects thread replies, DMs and channel alerts', () => {
+    const messages = getTrackedMessages(
+      [
+        event({ messageChannelId: 'C_QUESTION', messageTs: '1.1', dmChannelId: 'D_USER', dmMessageTs: '1.2' }),
+        event({ messageChannelId: 'C_ALERTS', messageTs: '2.1' }),
+      ],
+      'C_QUESTION'
+    );
+
+    expect(messages).toEqual([
+      { channel: 'C_QUESTION', ts: '1.1', inThread: true },
+      { channel: 'D_USER', ts: '1.2', inThread: false },
+      { channel: 'C_ALERTS', ts: '2.1', inThread: false },
+    ]);
+  });
+
+  test('skips events that posted nothing (failures, webhooks)', () => {
+    expect(getTrackedMessages([event(), event({ messageChannelId: 'C_QUESTION' })], 'C_QUESTION')).toEqual([]);
+  });
+});
+
+describe('formatResolutionStatus', () => {
+  test('credits the answerer with the time to answer', () => {
+    expect(
+      formatResolutionStatus({
+        status: 'answered',
+        askedAt: ASKED_AT,
+        answeredAt: new Date('2026-10-19T10:42:00Z'),
+        answerer: { slackUserId: 'U_ANSWER' },
+      })
+    ).toBe('✅ Answered by <@U_ANSWER> in 42m');
+  });
+
+  test('describes dismissals', () => {
+    expect(formatResolutionStatus({ status: 'dismissed', askedAt: ASKED_AT, answeredAt: null })).toBe(
+      '🚫 Dismissed - not a question'
+    );
+  });
+
+  test('is null while the question is open', () => {
+    expect(formatResolutionStatus({ status: 'unanswered', askedAt: ASKED_AT, answeredAt: null })).toBeNull();
+    expect(formatResolutionStatus({ status: 'snoozed', askedAt: ASKED_AT, answeredAt: null })).toBeNull();
+  });
+});
+
+describe('message layouts', () => {
+  test('superseded thread replies collapse to one line without buttons', () => {
+    const { text, blocks } = buildSupersededMessage(3);
+    expect(text).toBe('⬆️ Escalated to level 3 - see below');
+    expect(blocks).toHaveLength(1);
+  });
+
+  test('resolved thread replies show just the status', () => {
+    const { blocks } = buildResolvedMessage('✅ Answered', { messageText: 'How?' }, true);
+    expect(blocks).toEqual([{ type: 'context', elements: [{ type: 'mrkdwn', text: '✅ Answered' }] }]);
+  });
+
+  test('resolved DMs and alerts keep the question and thread link', () => {
+    const { blocks } = buildResolvedMessage('✅ Answered', { messageText: 'How?' }, false, 'https://example.com/t');
+    expect(blocks.map((b) => b.type)).toEqual(['section', 'section', 'context']);
+    expect(blocks[1].text.text).toBe('> How?');
+    expect(blocks.some((b) => b.type === 'actions')).toBe(false);
+  });
+
+  test('deleted questions are not quoted any more', () => {
+    const { text, blocks } = buildDeletedMessage();
+    expect(text).toBe('🗑️ This question was deleted');
+    expect(JSON.stringify(blocks)).not.toContain('>');
+  });
+});
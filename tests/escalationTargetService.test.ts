@@ -0,0 +1,46 @@
+/**
+ * Tests for Channel-Specific Escalation Targets
+ */
+import { describe, test, expect } from '@jest/globals';
+import { mergeChannelTargets, type EscalationTargetData } from '../src/services/escalationTargetService.js';
+
+function target(targetType: EscalationTargetData['targetType'], targetId: string, channelId?: string): EscalationTargetData {
+  return {
+    id: `${channelId || 'ws'}_${targetType}_${targetId}`,
+    targetType,
+    targetId,
+    escalationLevel: 1,
+    priority: 0,
+    isActive: true,
+    channelId,
+  };
+}
+
+const WORKSPACE = [target('user', 'U_LEAD'), target('channel', 'C_SUPPORT')];
+
+describe('mergeChannelTargets', () => {
+  test('override uses the channel targets when the level has any', () => {
+    const channel = [target('user_group', 'S_PLATFORM', 'ch1')];
+    expect(mergeChannelTargets(WORKSPACE, channel, 'override')).toEqual(channel);
+  });
+
+  test('override falls back to the workspace targets at levels the channel leaves empty', () => {
+    expect(mergeChannelTargets(WORKSPACE, [], 'override')).toEqual(WORKSPACE);
+  });
+
+  test('extend notifies the channel targets first, then the workspace targets', () => {
+    const channel = [target('user_group', 'S_PLATFORM', 'ch1')];
+    expect(mergeChannelTargets(WORKSPACE, channel, 'extend').map((t) => t.targetId)).toEqual([
+      'S_PLATFORM',
+      'U_LEAD',
+      'C_SUPPORT',
+    ]);
+  });
+
+  test('extend only notifies a target configured in both places once', () => {
+    const channel = [target('user', 'U_LEAD', 'ch1')];
+    const merged = mergeChannelTargets(WORKSPACE, channel, 'extend');
+    expect(merged.map((t) => t.targetId)).toEqual(['U_LEAD', 'C_SUPPORT']);
+    expect(merged[0].channelId).toBe('ch1');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for Expertise Matching Scoring
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  scoreResponders,
+  getRecencyWeight,
+  type ExpertiseRecord,
+} from '../src/services/expertiseMatcher.js';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * 86400000);
+}
+
+function record(overrides: Partial<ExpertiseRecord>): ExpertiseRecord {
+  return {
+    userId: 'user-1',
+    topic: 'deployment',
+    confidenceScore: 0.5,
+    answerCount: 0,
+    lastAnsweredAt: null,
+    ...overrides,
+  };
+}
+
+describe('getRecencyWeight', () => {
+  test('returns 1 for an answer just now', () => {
+    expect(getRecencyWeight(NOW, NOW)).toBe(1);
+  });
+
+  test('halves after the half-life', () => {
+    expect(getRecencyWeight(daysAgo(30), NOW)).toBeCloseTo(0.5);
+    expect(getRecencyWeight(daysAgo(60), NOW)).toBeCloseTo(0.25);
+  });
+
+  test('uses a fixed weight when never answered', () => {
+    expect(getRecencyWeight(null, NOW)).toBe(0.75);
+  });
+});
+
+describe('scoreResponders', () => {
+  test('returns empty list with no signals', () => {
+    expect(scoreResponders(['deployment'], [], new Map(), NOW)).toEqual([]);
+  });
+
+  test('ignores expertise for topics not in the question', () => {
+    const matches = scoreResponders(
+      ['database'],
+      [record({ topic: 'deployment', confidenceScore: 1, answerCount: 10 })],
+      new Map(),
+      NOW
+    );
+    expect(matches).toEqual([]);
+  });
+
+  test('ranks higher confidence and answer volume first', () => {
+    const matches = scoreResponders(
+      ['deployment'],
+      [
+        record({ userId: 'novice', confidenceScore: 0.4, answerCount: 1, lastAnsweredAt: daysAgo(20) }),
+        record({ userId: 'expert', confidenceScore: 0.9, answerCount: 12, lastAnsweredAt: daysAgo(20) }),
+      ],
+      new Map(),
+      NOW
+    );
+
+    expect(matches.map((m) => m.userId)).toEqual(['expert', 'novice']);
+  });
+
+  test('prefers recent answerers over stale ones', () => {
+    const matches = scoreResponders(
+      ['deployment'],
+      [
+        record({ userId: 'stale', confidenceScore: 0.8, answerCount: 5, lastAnsweredAt: daysAgo(180) }),
+        record({ userId: 'fresh', confidenceScore: 0.8, answerCount: 5, lastAnsweredAt: daysAgo(2) }),
+      ],
+      new Map(),
+      NOW
+    );
+
+    expect(matches[0].userId).toBe('fresh');
+    expect(matches[0].reasons).toContain('Active recently');
+  });
+
+  test('adds channel history with a reason', () => {
+    const matches = scoreResponders(['deployment'], [], new Map([['helper', 4]]), NOW);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].userId).toBe('helper');
+    expect(matches[0].reasons).toContain('4 answers in this channel');
+  });
+
+  test('combines topic and channel reasons for one user', () => {
+    const matches = scoreResponders(
+      ['deployment', 'database'],
+      [
+        record({ topic: 'deployment', confidenceScore: 0.7, answerCount: 3, lastAnsweredAt: daysAgo(1) }),
+        record({ topic: 'database', confidenceScore: 0.6, answerCount: 1, lastAnsweredAt: daysAgo(40) }),
+      ],
+      new Map([['user-1', 2]]),
+      NOW
+    );
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].reasons).toEqual([
+      'deployment expert (70%, 3 answers)',
+      'database expert (60%, 1 answer)',
+      '2 answers in this channel',
+      'Active recently',
+    ]);
+  });
+
+  test('matches topics case-insensitively', () => {
+    const matches = scoreResponders(
+      ['Deployment'],
+      [record({ confidenceScore: 0.9, answerCount: 2, lastAnsweredAt: daysAgo(1) })],
+      new Map(),
+      NOW
+    );
+    expect(matches).toHaveLength(1);
+  });
+});
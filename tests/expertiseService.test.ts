@@ -0,0 +1,85 @@
+/**
+ * Tests for Expertise Learning Math
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  decayConfidence,
+  computeUpdatedConfidence,
+  normalizeTopics,
+} from '../src/services/expertiseService.js';
+import { extractKeywords } from '../src/services/questionDetector.js';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * 86400000);
+}
+
+describe('decayConfidence', () => {
+  test('leaves fresh scores unchanged', () => {
+    expect(decayConfidence(0.8, NOW, NOW)).toBeCloseTo(0.8);
+  });
+
+  test('halves the distance above the floor every half-life', () => {
+    // floor 0.1, distance 0.8 -> 0.4 after 60 days
+    expect(decayConfidence(0.9, daysAgo(60), NOW)).toBeCloseTo(0.5);
+  });
+
+  test('never drops below the floor', () => {
+    expect(decayConfidence(0.9, daysAgo(3650), NOW)).toBeGreaterThanOrEqual(0.1);
+    expect(decayConfidence(0.05, daysAgo(60), NOW)).toBe(0.05);
+  });
+
+  test('does nothing without a timestamp', () => {
+    expect(decayConfidence(0.7, null, NOW)).toBe(0.7);
+  });
+});
+
+describe('computeUpdatedConfidence', () => {
+  test('starts new topics from the starting confidence', () => {
+    // 0.3 + 0.7 * 0.2
+    expect(computeUpdatedConfidence(null, null, NOW)).toBeCloseTo(0.44);
+  });
+
+  test('grows with each answer but stays below 1', () => {
+    let confidence: number | null = null;
+    for (let i = 0; i < 50; i++) {
+      const next = computeUpdatedConfidence(confidence, NOW, NOW);
+      if (confidence !== null) {
+        expect(next).toBeGreaterThanOrEqual(confidence);
+      }
+      confidence = next;
+    }
+    expect(confidence).toBeLessThan(1);
+  });
+
+  test('stale topics gain less than fresh ones', () => {
+    const fresh = computeUpdatedConfidence(0.8, daysAgo(1), NOW);
+    const stale = computeUpdatedConfidence(0.8, daysAgo(120), NOW);
+    expect(stale).toBeLessThan(fresh);
+  });
+});
+
+describe('normalizeTopics', () => {
+  test('splits on commas and whitespace and lowercases', () => {
+    expect(normalizeTopics('Kubernetes, billing  Terraform')).toEqual(['kubernetes', 'billing', 'terraform']);
+  });
+
+  test('drops punctuation, short words and duplicates', () => {
+    expect(normalizeTopics('ci/cd, SSO!, deploy, deploy!, api')).toEqual(['deploy']);
+  });
+
+  test('keeps accented and Japanese topics', () => {
+    expect(normalizeTopics('Facturación, Déploiement')).toEqual(['facturación', 'déploiement']);
+    expect(normalizeTopics('デプロイ, 認証')).toEqual(['デプロイ', '認証']);
+  });
+
+  test('matches the keywords extracted from questions', () => {
+    const topics = normalizeTopics('Déploiement');
+    expect(extractKeywords('Comment lancer le déploiement ?')).toEqual(expect.arrayContaining(topics));
+  });
+
+  test('handles empty input', () => {
+    expect(normalizeTopics('   ')).toEqual([]);
+  });
+});
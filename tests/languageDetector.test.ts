@@ -0,0 +1,69 @@
+/**
+ * Tests for the Language Detector
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  detectLanguage,
+  foldForMatching,
+  getStopWords,
+  LANGUAGE_PACKS,
+  opensWithPhrase,
+  tokenizeWords,
+} from '../src/services/languageDetector.js';
+
+describe('detectLanguage', () => {
+  test.each([
+    ['How do I configure the deploy pipeline?', 'en'],
+    ['¿Cómo configuro la autenticación del servidor?', 'es'],
+    ['Alguém sabe como configurar a autenticação no servidor?', 'pt'],
+    ["Quelqu'un sait comment configurer l'authentification ?", 'fr'],
+    ['Weiß jemand, wie ich die Authentifizierung einrichte?', 'de'],
+    ['パスワードの設定はどうすればいいですか', 'ja'],
+  ])('%s is %s', (text, language) => {
+    expect(detectLanguage(text)).toBe(language);
+  });
+
+  test('treats text it cannot place as English', () => {
+    expect(detectLanguage('k8s 503s again')).toBe('en');
+  });
+
+  test('only picks enabled languages', () => {
+    expect(detectLanguage('¿Cómo configuro la autenticación del servidor?', ['pt'])).toBe('en');
+    expect(detectLanguage('パスワードの設定はどうすればいいですか', [])).toBe('en');
+  });
+});
+
+describe('tokenizeWords', () => {
+  test('keeps accented words whole', () => {
+    expect(tokenizeWords('¿Cómo configuro la autenticación?')).toEqual(['Cómo', 'configuro', 'la', 'autenticación']);
+  });
+
+  test('splits Japanese, which has no spaces', () => {
+    expect(tokenizeWords('パスワードの設定')).toEqual(['パスワード', 'の', '設定']);
+  });
+});
+
+describe('opensWithPhrase', () => {
+  test('matches without accents and after an inverted question mark', () => {
+    const folded = foldForMatching('¿como configuro esto?', LANGUAGE_PACKS.es);
+    expect(opensWithPhrase(folded, 'cómo', LANGUAGE_PACKS.es)).toBe(true);
+  });
+
+  test('matches whole words only in spaced languages', () => {
+    const folded = foldForMatching('commentaire sur le déploiement', LANGUAGE_PACKS.fr);
+    expect(opensWithPhrase(folded, 'comment', LANGUAGE_PACKS.fr)).toBe(false);
+    expect(opensWithPhrase("est-ce qu'il marche", "est-ce qu'", LANGUAGE_PACKS.fr)).toBe(true);
+  });
+
+  test('matches anywhere in Japanese', () => {
+    expect(opensWithPhrase('この設定はどうすればいい', 'どうすれば', LANGUAGE_PACKS.ja)).toBe(true);
+  });
+});
+
+describe('getStopWords', () => {
+  test('always includes the English ones', () => {
+    const stopWords = getStopWords('es');
+    expect(stopWords.has('cómo')).toBe(true);
+    expect(stopWords.has('the')).toBe(true);
+  });
+});
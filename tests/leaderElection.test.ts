@@ -0,0 +1,24 @@
+/**
+ * Tests for Leader Election
+ */
+import { describe, test, expect } from '@jest/globals';
+import { shouldStepDown } from '../src/services/leaderElection.js';
+import { LEADER_ELECTION } from '../src/utils/constants.js';
+
+const NOW = new Date('2026-10-19T10:00:00Z');
+
+describe('shouldStepDown', () => {
+  test('keeps leading through a missed renewal', () => {
+    const renewed = new Date(NOW.getTime() - LEADER_ELECTION.RENEW_INTERVAL_MS);
+    expect(shouldStepDown(renewed, NOW)).toBe(false);
+  });
+
+  test('steps down before the lease can lapse and another instance take over', () => {
+    const renewed = new Date(NOW.getTime() - (LEADER_ELECTION.LEASE_TTL_MS - LEADER_ELECTION.RENEW_INTERVAL_MS));
+    expect(shouldStepDown(renewed, NOW)).toBe(true);
+  });
+
+  test('steps down if the lease was never renewed', () => {
+    expect(shouldStepDown(null, NOW)).toBe(true);
+  });
+});
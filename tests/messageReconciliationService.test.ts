@@ -0,0 +1,34 @@
+/**
+ * Tests for Question Edit / Delete Reconciliation
+ */
+import { describe, test, expect } from '@jest/globals';
+import { getEditAction } from '../src/services/messageReconciliationService.js';
+
+const open = {
+  status: 'unanswered',
+  messageText: 'How do I reset my password?',
+  isSideConversation: false,
+};
+
+describe('getEditAction', () => {
+  test('ignores edits that leave the text alone (thread metadata, attachments)', () => {
+    expect(getEditAction(open, 'How do I reset my password?')).toBe('unchanged');
+  });
+
+  test('updates questions that are still questions', () => {
+    expect(getEditAction(open, 'How do I reset my SSO password?')).toBe('update');
+  });
+
+  test('dismisses open questions edited into statements', () => {
+    expect(getEditAction(open, 'Never mind, figured it out')).toBe('dismiss');
+    expect(getEditAction({ ...open, status: 'snoozed' }, 'Never mind, figured it out')).toBe('dismiss');
+  });
+
+  test('only updates the text of resolved questions', () => {
+    expect(getEditAction({ ...open, status: 'answered' }, 'Never mind, figured it out')).toBe('update');
+  });
+
+  test('keeps Zendesk side conversations whatever their wording', () => {
+    expect(getEditAction({ ...open, isSideConversation: true }, 'Jane Doe in ticket #42: printer on fire')).toBe('update');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for Escalation Message Templates
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  DEFAULT_ESCALATION_TEMPLATES,
+  buildEscalationMessage,
+  buildTemplateVariables,
+  getEscalationTemplates,
+  renderTemplate,
+  validateTemplate,
+} from '../src/services/messageTemplateService.js';
+import { QUESTION_ACTIONS_BLOCK_ID } from '../src/services/questionActions.js';
+
+const question = {
+  id: 'q1',
+  messageText: 'How do I rotate the API keys?\nThe docs are out of date.',
+  asker: { slackUserId: 'U123' },
+  channel: { slackChannelId: 'C123' },
+};
+
+const LINK = 'https://acme.slack.com/archives/C123/p1';
+
+describe('renderTemplate', () => {
+  test('substitutes placeholders', () => {
+    const variables = buildTemplateVariables(question, 2, 125, LINK, '<@U999>');
+    expect(renderTemplate('{{target}}: {{asker}} asked in {{channel}} {{age}} ago (level {{level}})', variables)).toBe(
+      '<@U999>: <@U123> asked in <#C123> 2h 5m ago (level 2)'
+    );
+  });
+
+  test('tolerates spacing and case inside the braces', () => {
+    expect(renderTemplate('{{ Age }}', { age: '5m' })).toBe('5m');
+  });
+
+  test('leaves unknown placeholders as typed', () => {
+    expect(renderTemplate('Hi {{team}}', { age: '5m' })).toBe('Hi {{team}}');
+  });
+});
+
+describe('validateTemplate', () => {
+  test('accepts the defaults', () => {
+    for (const template of Object.values(DEFAULT_ESCALATION_TEMPLATES)) {
+      expect(validateTemplate(template)).toBeNull();
+    }
+  });
+
+  test('rejects unknown placeholders and overlong templates', () => {
+    expect(validateTemplate('Ping {{team}}')).toContain('{{team}}');
+    expect(validateTemplate('x'.repeat(1001))).not.toBeNull();
+  });
+});
+
+describe('getEscalationTemplates', () => {
+  test('fills in defaults for templates that are missing or blank', () => {
+    const templates = getEscalationTemplates({ user_dm: 'Help {{asker}}', channel_alert: '  ' });
+    expect(templates.user_dm).toBe('Help {{asker}}');
+    expect(templates.channel_alert).toBe(DEFAULT_ESCALATION_TEMPLATES.channel_alert);
+    expect(templates.thread_user).toBe(DEFAULT_ESCALATION_TEMPLATES.thread_user);
+  });
+});
+
+describe('buildEscalationMessage', () => {
+  const variables = buildTemplateVariables(question, 1, 42, LINK, '<@U999>');
+
+  test('lays out the wording, details, keywords and buttons', () => {
+    const { text, blocks } = buildEscalationMessage('{{target}} can you help?', variables, {
+      keywords: ['api', 'keys'],
+      questionId: 'q1',
+    });
+
+    expect(text).toBe('<@U999> can you help?');
+    expect(blocks[0].text.text).toBe('<@U999> can you help?');
+    expect(blocks[1].elements[0].text).toContain('<@U123>');
+    expect(blocks[1].elements[0].text).toContain('42m old');
+    expect(blocks[2].elements[0].text).toBe('🏷️ `api` `keys`');
+    expect(blocks[3].block_id).toBe(QUESTION_ACTIONS_BLOCK_ID);
+  });
+
+  test('quotes the question and links the thread outside the thread', () => {
+    const { text, blocks } = buildEscalationMessage('Alert', variables, { includeQuestion: true });
+
+    expect(blocks[1].text.text).toBe('> How do I rotate the API keys?\n> The docs are out of date.');
+    expect(blocks[2].elements[0].text).toContain(`<${LINK}|View thread →>`);
+    expect(text).toContain('> How do I rotate');
+  });
+
+  test('leaves out the buttons and keyword line when not given', () => {
+    const { blocks } = buildEscalationMessage('Alert', variables);
+    expect(blocks).toHaveLength(2);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for On-Call Rotations
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  describeRotationSchedule,
+  getNextHandoff,
+  getOnCallAt,
+  getScheduledOnCall,
+  validateRotation,
+} from '../src/services/onCallService.js';
+
+// 2026-10-19 is a Monday
+const WEEKLY = {
+  rotationType: 'weekly' as const,
+  memberIds: ['U_ALICE', 'U_BOB', 'U_CAROL'],
+  startDate: '2026-10-19',
+  handoffTime: '09:00',
+  timezone: 'UTC',
+};
+
+const DAILY = { ...WEEKLY, rotationType: 'daily' as const };
+
+function override(slackUserId: string, startsAt: string, endsAt: string, createdAt: string = '2026-10-01T00:00:00Z') {
+  return {
+    id: `o_${slackUserId}_${createdAt}`,
+    slackUserId,
+    startsAt: new Date(startsAt),
+    endsAt: new Date(endsAt),
+    createdAt: new Date(createdAt),
+  };
+}
+
+describe('getScheduledOnCall', () => {
+  test('rotates weekly at the handoff time', () => {
+    expect(getScheduledOnCall(WEEKLY, new Date('2026-10-19T09:00:00Z'))).toBe('U_ALICE');
+    expect(getScheduledOnCall(WEEKLY, new Date('2026-10-26T08:59:00Z'))).toBe('U_ALICE');
+    expect(getScheduledOnCall(WEEKLY, new Date('2026-10-26T09:00:00Z'))).toBe('U_BOB');
+    expect(getScheduledOnCall(WEEKLY, new Date('2026-11-02T12:00:00Z'))).toBe('U_CAROL');
+  });
+
+  test('wraps around to the first member', () => {
+    expect(getScheduledOnCall(WEEKLY, new Date('2026-11-09T12:00:00Z'))).toBe('U_ALICE');
+  });
+
+  test('rotates daily', () => {
+    expect(getScheduledOnCall(DAILY, new Date('2026-10-20T10:00:00Z'))).toBe('U_BOB');
+    expect(getScheduledOnCall(DAILY, new Date('2026-10-21T08:00:00Z'))).toBe('U_BOB');
+    expect(getScheduledOnCall(DAILY, new Date('2026-10-21T09:00:00Z'))).toBe('U_CAROL');
+  });
+
+  test('has the first member cover before the rotation starts', () => {
+    expect(getScheduledOnCall(WEEKLY, new Date('2026-10-01T12:00:00Z'))).toBe('U_ALICE');
+  });
+
+  test('returns null for an empty rotation', () => {
+    expect(getScheduledOnCall({ ...WEEKLY, memberIds: [] }, new Date('2026-10-20T12:00:00Z'))).toBeNull();
+  });
+
+  test('keeps the local handoff time across daylight saving changes', () => {
+    // New York falls back on 2026-11-01, so the 09:00 handoff moves from 13:00 to 14:00 UTC
+    const newYork = { ...DAILY, timezone: 'America/New_York', startDate: '2026-10-31' };
+    expect(getScheduledOnCall(newYork, new Date('2026-11-02T13:30:00Z'))).toBe('U_BOB');
+    expect(getScheduledOnCall(newYork, new Date('2026-11-02T14:00:00Z'))).toBe('U_CAROL');
+  });
+});
+
+describe('getNextHandoff', () => {
+  test('is the start of the next shift', () => {
+    expect(getNextHandoff(WEEKLY, new Date('2026-10-21T12:00:00Z'))).toEqual(new Date('2026-10-26T09:00:00Z'));
+    expect(getNextHandoff(DAILY, new Date('2026-10-21T08:00:00Z'))).toEqual(new Date('2026-10-21T09:00:00Z'));
+  });
+});
+
+describe('getOnCallAt', () => {
+  test('follows the schedule without overrides', () => {
+    expect(getOnCallAt(WEEKLY, [], new Date('2026-10-20T12:00:00Z'))).toEqual({ slackUserId: 'U_ALICE' });
+  });
+
+  test('prefers an override covering the instant', () => {
+    const overrides = [override('U_DAVE', '2026-10-20T00:00:00Z', '2026-10-21T00:00:00Z')];
+    expect(getOnCallAt(WEEKLY, overrides, new Date('2026-10-20T12:00:00Z'))?.slackUserId).toBe('U_DAVE');
+    expect(getOnCallAt(WEEKLY, overrides, new Date('2026-10-21T12:00:00Z'))?.slackUserId).toBe('U_ALICE');
+  });
+
+  test('uses the most recently added of overlapping overrides', () => {
+    const overrides = [
+      override('U_DAVE', '2026-10-20T00:00:00Z', '2026-10-22T00:00:00Z', '2026-10-01T00:00:00Z'),
+      override('U_ERIN', '2026-10-20T00:00:00Z', '2026-10-21T00:00:00Z', '2026-10-02T00:00:00Z'),
+    ];
+    const result = getOnCallAt(WEEKLY, overrides, new Date('2026-10-20T12:00:00Z'));
+    expect(result?.slackUserId).toBe('U_ERIN');
+    expect(result?.overrideId).toBe(overrides[1].id);
+  });
+});
+
+describe('validateRotation', () => {
+  const valid = { ...WEEKLY, name: 'Platform' };
+
+  test('accepts a complete rotation', () => {
+    expect(validateRotation(valid)).toBeNull();
+  });
+
+  test('rejects missing names, members, bad dates and timezones', () => {
+    expect(validateRotation({ ...valid, name: '  ' })).not.toBeNull();
+    expect(validateRotation({ ...valid, memberIds: [] })).not.toBeNull();
+    expect(validateRotation({ ...valid, startDate: 'next monday' })).not.toBeNull();
+    expect(validateRotation({ ...valid, timezone: 'Mars/Olympus' })).not.toBeNull();
+  });
+
+  test('rejects impossible dates and out-of-range handoff times', () => {
+    expect(validateRotation({ ...valid, startDate: '2026-02-30' })).not.toBeNull();
+    expect(validateRotation({ ...valid, startDate: '2026-13-01' })).not.toBeNull();
+    expect(validateRotation({ ...valid, handoffTime: '25:00' })).not.toBeNull();
+    expect(validateRotation({ ...valid, handoffTime: '99:99' })).not.toBeNull();
+    expect(validateRotation({ ...valid, startDate: '2028-02-29', handoffTime: '23:59' })).toBeNull();
+  });
+});
+
+describe('describeRotationSchedule', () => {
+  test('names the handoff day for weekly rotations', () => {
+    expect(describeRotationSchedule(WEEKLY)).toBe('Weekly, hands off Mon 09:00 UTC');
+    expect(describeRotationSchedule(DAILY)).toBe('Daily, hands off 09:00 UTC');
+  });
+});
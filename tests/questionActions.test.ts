@@ -0,0 +1,61 @@
+/**
+ * Tests for Question Action Blocks and Snooze Times
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  QUESTION_ACTIONS_BLOCK_ID,
+  applyStatusToBlocks,
+  buildActionableMessageBlocks,
+  findQuestionIdInBlocks,
+  getSnoozeUntil,
+  getTomorrowMorning,
+} from '../src/services/questionActions.js';
+
+const NOW = new Date('2025-06-01T22:30:00Z');
+
+describe('getTomorrowMorning', () => {
+  test('returns 9am the next day in UTC by default', () => {
+    expect(getTomorrowMorning(NOW).toISOString()).toBe('2025-06-02T09:00:00.000Z');
+  });
+
+  test('uses the local date for users ahead of UTC', () => {
+    // 22:30 UTC is already 07:30 on June 2nd in Tokyo (UTC+9)
+    expect(getTomorrowMorning(NOW, 9 * 3600).toISOString()).toBe('2025-06-03T00:00:00.000Z');
+  });
+
+  test('uses the local date for users behind UTC', () => {
+    // 22:30 UTC is 15:30 on June 1st in Los Angeles (UTC-7)
+    expect(getTomorrowMorning(NOW, -7 * 3600).toISOString()).toBe('2025-06-02T16:00:00.000Z');
+  });
+});
+
+describe('getSnoozeUntil', () => {
+  test('adds fixed durations', () => {
+    expect(getSnoozeUntil('1h', NOW).getTime() - NOW.getTime()).toBe(3600000);
+    expect(getSnoozeUntil('4h', NOW).getTime() - NOW.getTime()).toBe(4 * 3600000);
+  });
+});
+
+describe('action blocks', () => {
+  test('carry the question ID so the shortcut can find it', () => {
+    const blocks = buildActionableMessageBlocks('Help!', 'question-1');
+    expect(findQuestionIdInBlocks(blocks)).toBe('question-1');
+    expect(findQuestionIdInBlocks([{ type: 'section' }])).toBeNull();
+  });
+
+  test('keep buttons below the status while the question is open', () => {
+    const blocks = applyStatusToBlocks(buildActionableMessageBlocks('Help!', 'q'), 'Snoozed', false);
+    expect(blocks.map((b) => b.type)).toEqual(['section', 'context', 'actions']);
+
+    // A second action replaces the status line instead of stacking
+    const again = applyStatusToBlocks(blocks, 'Claimed', false);
+    expect(again).toHaveLength(3);
+    expect(again[1].elements[0].text).toBe('Claimed');
+  });
+
+  test('drop the buttons once the question is resolved', () => {
+    const blocks = applyStatusToBlocks(buildActionableMessageBlocks('Help!', 'q'), 'Answered', true);
+    expect(blocks.some((b) => b.block_id === QUESTION_ACTIONS_BLOCK_ID)).toBe(false);
+    expect(blocks[blocks.length - 1].elements[0].text).toBe('Answered');
+  });
+});
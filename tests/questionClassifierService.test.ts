@@ -0,0 +1,118 @@
+/**
+ * Tests for the Question Classifier Service
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  createQuestionDetector,
+  createStatisticalClassifier,
+  hasEnoughTrainingData,
+  normalizeDetectionThreshold,
+  tokenizeForModel,
+  trainQuestionModel,
+  type TrainingSample,
+} from '../src/services/questionClassifierService.js';
+import { ruleBasedClassifier } from '../src/services/questionDetector.js';
+import { DEFAULT_DETECTION_RULES } from '../src/services/detectionRulesService.js';
+
+function samples(label: TrainingSample['label'], texts: string[], times: number): TrainingSample[] {
+  return Array.from({ length: times }, () => texts.map((text) => ({ text, label }))).flat();
+}
+
+const history = [
+  ...samples('answered', ['How do I rotate the API keys?', 'Where is the staging deploy runbook?'], 10),
+  ...samples('dismissed', ['lol who broke the build again?', 'that was fun right?'], 10),
+];
+
+describe('tokenizeForModel', () => {
+  test('includes question signals and distinct words', () => {
+    expect(tokenizeForModel('How do I rotate the keys? The keys!')).toEqual([
+      'signal:question_mark',
+      'signal:interrogative_opener',
+      'how',
+      'do',
+      'rotate',
+      'the',
+      'keys',
+    ]);
+  });
+});
+
+describe('statistical classifier', () => {
+  const model = trainQuestionModel(history);
+  const classifier = createStatisticalClassifier(model);
+
+  test('counts samples of each outcome', () => {
+    expect(model.samples).toEqual({ answered: 20, dismissed: 20 });
+    expect(hasEnoughTrainingData(model)).toBe(true);
+    expect(hasEnoughTrainingData(trainQuestionModel(history.slice(0, 25)))).toBe(false);
+  });
+
+  test('scores messages like answered questions above ones like dismissed questions', () => {
+    const real = classifier.classify('How do I rotate the staging keys?');
+    const noise = classifier.classify('lol the build broke again?');
+    expect(real.score).toBeGreaterThan(0.5);
+    expect(noise.score).toBeLessThan(0.5);
+  });
+
+  test('explains the score with signals and the strongest learned words', () => {
+    const result = classifier.classify('lol the build broke again?');
+    expect(result.classifier).toBe('statistical');
+    expect(result.reasons.find((r) => r.feature === 'question_mark')).toBeDefined();
+    const lol = result.reasons.find((r) => r.detail === '"lol"');
+    expect(lol?.feature).toBe('learned_term');
+    expect(lol!.weight).toBeLessThan(0);
+  });
+
+  test('never scores messages without a question signal', () => {
+    expect(classifier.classify('I rotated the staging keys').score).toBe(0);
+  });
+});
+
+describe('createQuestionDetector', () => {
+  test('applies the threshold', () => {
+    const strict = createQuestionDetector(ruleBasedClassifier, 0.9);
+    const detection = strict.detect('How do I reset my password?');
+    expect(detection.isQuestion).toBe(false);
+    expect(detection.threshold).toBe(0.9);
+    expect(createQuestionDetector(ruleBasedClassifier, 0.5).detect('How do I reset my password?').isQuestion).toBe(true);
+  });
+
+  test('skips authors the user lists exclude', () => {
+    const detector = createQuestionDetector(ruleBasedClassifier, 0.5, { ...DEFAULT_DETECTION_RULES, denyUsers: ['U1'] });
+    const detection = detector.detect('How do I reset my password?', 'U1');
+    expect(detection.isQuestion).toBe(false);
+    expect(detection.reasons).toEqual([{ feature: 'user_rule', detail: 'author is on the deny list', weight: 0 }]);
+    expect(detector.detect('How do I reset my password?', 'U2').isQuestion).toBe(true);
+  });
+
+  test('lists the features a message was detected by', () => {
+    expect(createQuestionDetector(ruleBasedClassifier, 0.5).detect('How do I reset my password?').features).toEqual([
+      'signal:question_mark',
+      'signal:interrogative_opener',
+      'phrase:how do',
+      'ending:password?',
+    ]);
+  });
+
+  test('applies phrase penalties learned from dismissals', () => {
+    const detector = createQuestionDetector(ruleBasedClassifier, 0.5, DEFAULT_DETECTION_RULES, { 'ending:right?': 0.5 });
+    const detection = detector.detect('That deploy went well, right?');
+    expect(detection.score).toBeCloseTo(0.3);
+    expect(detection.isQuestion).toBe(false);
+    expect(detection.reasons).toContainEqual({
+      feature: 'feedback_penalty',
+      detail: 'often dismissed: ends with "right?"',
+      weight: -0.5,
+    });
+    expect(detector.detect('How do I reset my password?').isQuestion).toBe(true);
+  });
+});
+
+describe('normalizeDetectionThreshold', () => {
+  test('defaults and clamps', () => {
+    expect(normalizeDetectionThreshold(undefined)).toBe(0.5);
+    expect(normalizeDetectionThreshold(0)).toBe(0.05);
+    expect(normalizeDetectionThreshold(2)).toBe(0.95);
+    expect(normalizeDetectionThreshold(0.7)).toBe(0.7);
+  });
+});
@@ -2,7 +2,14 @@
  * Tests for Question Detector Service
  */
 import { describe, test, expect } from '@jest/globals';
-import { isQuestion, extractKeywords } from '../src/services/questionDetector.js';
+import {
+  isQuestion,
+  extractKeywords,
+  ruleBasedClassifier,
+  describeClassification,
+  createRuleBasedClassifier,
+  defaultConfig,
+} from '../src/services/questionDetector.js';
 
 describe('isQuestion', () => {
   describe('questions with question marks', () => {
@@ -74,6 +81,69 @@ describe('isQuestion', () => {
       expect(isQuestion('how do i reset my password?')).toBe(true);
     });
   });
+
+  describe('other languages', () => {
+    test('detects questions in each language pack', () => {
+      expect(isQuestion('¿Cómo configuro la autenticación')).toBe(true);
+      expect(isQuestion('como configuro la autenticacion del servidor')).toBe(true);
+      expect(isQuestion("Quelqu'un sait comment configurer l'authentification")).toBe(true);
+      expect(isQuestion('Weiß jemand wie das Deployment geht')).toBe(true);
+      expect(isQuestion('Alguém sabe onde fica a documentação')).toBe(true);
+      expect(isQuestion('パスワードの設定はどうすればいいですか')).toBe(true);
+    });
+
+    test('does not detect statements', () => {
+      expect(isQuestion('El despliegue salió bien hoy')).toBe(false);
+      expect(isQuestion('Commentaire sur le déploiement de demain')).toBe(false);
+      expect(isQuestion('デプロイは無事に完了しました')).toBe(false);
+    });
+
+    test('only reads messages with the enabled packs', () => {
+      expect(isQuestion('como configuro la autenticacion del servidor', { ...defaultConfig, languages: [] })).toBe(false);
+    });
+  });
+});
+
+describe('ruleBasedClassifier', () => {
+  test('explains the score with the signals it found', () => {
+    const result = ruleBasedClassifier.classify('How do I reset my password?');
+    expect(result.reasons.map((r) => r.feature)).toEqual(['question_mark', 'interrogative_opener']);
+    expect(result.score).toBeCloseTo(0.84);
+    expect(describeClassification(result)).toBe('84% (question mark, starts with "how do")');
+  });
+
+  test('more signals mean more confidence', () => {
+    const one = ruleBasedClassifier.classify('I broke the build again?').score;
+    const two = ruleBasedClassifier.classify('Can someone look at the build?').score;
+    expect(two).toBeGreaterThan(one);
+  });
+
+  test('a request alone falls short of the default threshold', () => {
+    const result = ruleBasedClassifier.classify('Please send me the deploy runbook');
+    expect(result.reasons.map((r) => r.feature)).toEqual(['imperative_request']);
+    expect(isQuestion('Please send me the deploy runbook')).toBe(false);
+    expect(isQuestion('Please send me the deploy runbook', undefined, 0.3)).toBe(true);
+  });
+
+  test('short messages score zero', () => {
+    const result = ruleBasedClassifier.classify('why?');
+    expect(result.score).toBe(0);
+    expect(result.reasons[0].feature).toBe('too_short');
+  });
+
+  test('ignore patterns are removed before scoring', () => {
+    const classifier = createRuleBasedClassifier({ ...defaultConfig, ignorePatterns: ['right?', 'lol?'] });
+    const rhetorical = classifier.classify('That release went great, right?');
+    expect(rhetorical.score).toBe(0);
+    expect(rhetorical.reasons).toEqual([{ feature: 'ignored_phrase', detail: 'ignored "right?"', weight: 0 }]);
+    expect(classifier.classify('lol? how do I roll back the release').score).toBeGreaterThanOrEqual(0.5);
+  });
+
+  test('names the language of non-English messages', () => {
+    const classification = ruleBasedClassifier.classify('¿Cómo configuro la autenticación');
+    expect(classification.language).toBe('es');
+    expect(describeClassification(classification)).toBe('84% in Spanish (question marker "¿", starts with "cómo")');
+  });
 });
 
 describe('extractKeywords', () => {
@@ -143,6 +213,24 @@ describe('extractKeywords', () => {
     });
   });
 
+  describe('other languages', () => {
+    test('keeps accented words and drops the language\'s stop words', () => {
+      const keywords = extractKeywords('¿Cómo configuro la autenticación del servidor de producción?');
+      expect(keywords).toEqual(expect.arrayContaining(['configuro', 'autenticación', 'servidor', 'producción']));
+      expect(keywords).not.toContain('cómo');
+    });
+
+    test('splits elisions', () => {
+      expect(extractKeywords("Comment configurer l'authentification ?")).toContain('authentification');
+    });
+
+    test('extracts Japanese words', () => {
+      const keywords = extractKeywords('パスワードの設定はどうすればいいですか');
+      expect(keywords).toEqual(expect.arrayContaining(['パスワード', '設定']));
+      expect(keywords).not.toContain('です');
+    });
+  });
+
   describe('real-world examples', () => {
     test('technical support question', () => {
       const keywords = extractKeywords(
@@ -0,0 +1,41 @@
+/**
+ * Tests for Slack Helpers
+ */
+import { describe, test, expect } from '@jest/globals';
+import { buildThreadLink, getReplyThreadTs, isThreadQuestion } from '../src/utils/slackHelpers.js';
+
+describe('buildThreadLink', () => {
+  test('links a top-level message by its ts', () => {
+    expect(buildThreadLink('acme', 'C123', '1700000000.123456')).toBe(
+      'https://acme.slack.com/archives/C123/p1700000000123456'
+    );
+  });
+
+  test('links a reply inside its thread', () => {
+    expect(buildThreadLink('acme', 'C123', '1700000500.000200', '1700000000.123456')).toBe(
+      'https://acme.slack.com/archives/C123/p1700000500000200?thread_ts=1700000000.123456&cid=C123'
+    );
+  });
+
+  test('ignores a thread ts that is the message itself', () => {
+    expect(buildThreadLink('acme', 'C123', '1700000000.123456', '1700000000.123456')).toBe(
+      'https://acme.slack.com/archives/C123/p1700000000123456'
+    );
+  });
+});
+
+describe('thread questions', () => {
+  const topLevel = { slackMessageId: '1700000000.123456', slackThreadId: null };
+  const followUp = { slackMessageId: '1700000500.000200', slackThreadId: '1700000000.123456' };
+
+  test('a question asked inside a thread is a thread question', () => {
+    expect(isThreadQuestion(followUp)).toBe(true);
+    expect(isThreadQuestion(topLevel)).toBe(false);
+    expect(isThreadQuestion({ slackMessageId: '1700000000.123456', slackThreadId: '1700000000.123456' })).toBe(false);
+  });
+
+  test('replies go in the parent thread for thread questions', () => {
+    expect(getReplyThreadTs(followUp)).toBe('1700000000.123456');
+    expect(getReplyThreadTs(topLevel)).toBe('1700000000.123456');
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Tests for Snooze Duration Parsing
+ */
+import { describe, test, expect } from '@jest/globals';
+import { parseSnoozeDuration, formatSnoozeDuration } from '../src/services/snoozeService.js';
+
+describe('parseSnoozeDuration', () => {
+  test('parses minutes, hours and days', () => {
+    expect(parseSnoozeDuration('30m')).toBe(30);
+    expect(parseSnoozeDuration('4h')).toBe(240);
+    expect(parseSnoozeDuration('2 days')).toBe(2880);
+  });
+
+  test('treats a bare number as minutes', () => {
+    expect(parseSnoozeDuration('45')).toBe(45);
+  });
+
+  test('rejects invalid and out-of-range durations', () => {
+    expect(parseSnoozeDuration('soon')).toBeNull();
+    expect(parseSnoozeDuration('0m')).toBeNull();
+    expect(parseSnoozeDuration('30d')).toBeNull();
+  });
+});
+
+describe('formatSnoozeDuration', () => {
+  test('uses the largest whole unit', () => {
+    expect(formatSnoozeDuration(45)).toBe('45 minutes');
+    expect(formatSnoozeDuration(60)).toBe('1 hour');
+    expect(formatSnoozeDuration(2880)).toBe('2 days');
+  });
+});
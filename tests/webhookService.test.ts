@@ -0,0 +1,216 @@
+/**
+ * Tests for Webhook Escalation Targets
+ * Delivery tests run against a local HTTP stand-in
+ */
+import { describe, test, expect, jest, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  buildWebhookPayload,
+  checkWebhookHost,
+  generateWebhookSecret,
+  isPrivateAddress,
+  sendWebhook,
+  signWebhookPayload,
+  validateWebhookUrl,
+  verifyWebhookSignature,
+} from '../src/services/webhookService.js';
+
+// Mock the logger to avoid console output during tests
+jest.mock('../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const SECRET = 'test-secret';
+const FAST_RETRY = { initialDelayMs: 5 };
+
+const question = {
+  id: 'q1',
+  messageText: 'How do I rotate the API keys?',
+  askedAt: new Date('2026-10-19T10:00:00Z'),
+  channel: { slackChannelId: 'C123', channelName: 'platform' },
+  asker: { slackUserId: 'U123', displayName: 'Sam', realName: 'Sam Lee' },
+};
+
+interface ReceivedRequest {
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+let server: Server;
+let url: string;
+let received: ReceivedRequest[];
+let responses: number[];
+
+beforeAll(async () => {
+  // The stand-in listens on localhost, which is only allowed in development
+  process.env.WEBHOOK_ALLOW_LOCAL_HTTP = 'true';
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = responses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  received = [];
+  responses = [];
+});
+
+describe('buildWebhookPayload', () => {
+  test('includes the question, channel, asker, level, age and thread link', () => {
+    const now = new Date('2026-10-19T10:45:00Z');
+    const payload = buildWebhookPayload(question, 'T123', 2, 45, 'https://acme.slack.com/archives/C123/p1', 'question.escalated', now);
+
+    expect(payload).toEqual({
+      event: 'question.escalated',
+      workspace: { teamId: 'T123' },
+      question: {
+        id: 'q1',
+        text: 'How do I rotate the API keys?',
+        askedAt: '2026-10-19T10:00:00.000Z',
+        threadLink: 'https://acme.slack.com/archives/C123/p1',
+      },
+      channel: { id: 'C123', name: 'platform' },
+      asker: { slackUserId: 'U123', name: 'Sam' },
+      escalation: { level: 2, ageMinutes: 45 },
+      sentAt: '2026-10-19T10:45:00.000Z',
+    });
+  });
+});
+
+describe('signatures', () => {
+  test('verify with the same secret and timestamp', () => {
+    const now = new Date('2026-10-19T10:00:00Z');
+    const timestamp = Math.floor(now.getTime() / 1000);
+    const signature = signWebhookPayload('{"a":1}', SECRET, timestamp);
+
+    expect(signature).toMatch(/^v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature('{"a":1}', SECRET, timestamp, signature, now)).toBe(true);
+  });
+
+  test('reject a changed body, wrong secret or stale timestamp', () => {
+    const now = new Date('2026-10-19T10:00:00Z');
+    const timestamp = Math.floor(now.getTime() / 1000);
+    const signature = signWebhookPayload('{"a":1}', SECRET, timestamp);
+
+    expect(verifyWebhookSignature('{"a":2}', SECRET, timestamp, signature, now)).toBe(false);
+    expect(verifyWebhookSignature('{"a":1}', 'other', timestamp, signature, now)).toBe(false);
+    expect(verifyWebhookSignature('{"a":1}', SECRET, timestamp, signature, new Date(now.getTime() + 3600000))).toBe(false);
+  });
+
+  test('secrets are random', () => {
+    expect(generateWebhookSecret()).toMatch(/^[0-9a-f]{64}$/);
+    expect(generateWebhookSecret()).not.toBe(generateWebhookSecret());
+  });
+});
+
+describe('validateWebhookUrl', () => {
+  test('requires https', () => {
+    expect(validateWebhookUrl('https://example.com/hook', false)).toBeNull();
+    expect(validateWebhookUrl('http://example.com/hook', false)).not.toBeNull();
+    expect(validateWebhookUrl('example.com/hook', false)).not.toBeNull();
+  });
+
+  test('rejects local and private hosts unless allowed for development', () => {
+    expect(validateWebhookUrl('http://localhost:8080/hook', false)).not.toBeNull();
+    expect(validateWebhookUrl('https://localhost/hook', false)).not.toBeNull();
+    expect(validateWebhookUrl('https://127.0.0.1/hook', false)).not.toBeNull();
+    expect(validateWebhookUrl('https://[::1]/hook', false)).not.toBeNull();
+    expect(validateWebhookUrl('https://169.254.169.254/latest/meta-data', false)).not.toBeNull();
+    expect(validateWebhookUrl('https://10.0.0.5/hook', false)).not.toBeNull();
+
+    expect(validateWebhookUrl('http://localhost:8080/hook', true)).toBeNull();
+  });
+});
+
+describe('isPrivateAddress', () => {
+  test('flags loopback, private, link-local and reserved addresses', () => {
+    const addresses = [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '172.31.255.255',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ];
+    for (const address of addresses) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  test('allows public addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '192.169.1.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('checkWebhookHost', () => {
+  test('rejects hosts that resolve to private addresses', async () => {
+    expect(await checkWebhookHost('https://127.0.0.1/hook', false)).not.toBeNull();
+    expect(await checkWebhookHost('https://8.8.8.8/hook', false)).toBeNull();
+  });
+});
+
+describe('sendWebhook', () => {
+  const payload = buildWebhookPayload(question, 'T123', 1, 5, 'https://acme.slack.com/archives/C123/p1');
+
+  test('POSTs a signed JSON payload', async () => {
+    const status = await sendWebhook(url, payload, SECRET, FAST_RETRY);
+
+    expect(status).toBe(200);
+    expect(received).toHaveLength(1);
+
+    const { headers, body } = received[0];
+    expect(headers['content-type']).toBe('application/json');
+    expect(JSON.parse(body)).toEqual(payload);
+
+    const timestamp = parseInt(headers['x-question-router-timestamp'] as string, 10);
+    const signature = headers['x-question-router-signature'] as string;
+    expect(verifyWebhookSignature(body, SECRET, timestamp, signature)).toBe(true);
+  });
+
+  test('retries server errors', async () => {
+    responses = [503, 500, 204];
+
+    const status = await sendWebhook(url, payload, SECRET, FAST_RETRY);
+
+    expect(status).toBe(204);
+    expect(received).toHaveLength(3);
+  });
+
+  test('does not retry client errors', async () => {
+    responses = [404];
+
+    await expect(sendWebhook(url, payload, SECRET, FAST_RETRY)).rejects.toThrow('HTTP 404');
+    expect(received).toHaveLength(1);
+  });
+
+  test('gives up after the last attempt', async () => {
+    responses = [500, 500, 500];
+
+    await expect(sendWebhook(url, payload, SECRET, FAST_RETRY)).rejects.toThrow('HTTP 500');
+    expect(received).toHaveLength(3);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for the Workspace Metadata Cache
+ */
+import { describe, test, expect, jest } from '@jest/globals';
+import type { WebClient } from '@slack/web-api';
+import { getWorkspaceMetadata, invalidateWorkspaceMetadata } from '../src/services/workspaceMetadataService.js';
+
+function fakeClient(botUserId: string = 'U_BOT') {
+  const authTest = jest.fn(async () => ({ ok: true, user_id: botUserId }));
+  const teamInfo = jest.fn(async () => ({ ok: true, team: { id: 'T1', name: 'Acme', domain: 'acme' } }));
+  const client = { auth: { test: authTest }, team: { info: teamInfo } } as unknown as WebClient;
+  return { client, authTest, teamInfo };
+}
+
+describe('getWorkspaceMetadata', () => {
+  test('fetches bot user, team name and domain once, then serves them from cache', async () => {
+    const { client, authTest, teamInfo } = fakeClient();
+
+    const first = await getWorkspaceMetadata(client, 'T_CACHE');
+    const second = await getWorkspaceMetadata(client, 'T_CACHE');
+
+    expect(first).toEqual({ teamId: 'T_CACHE', teamName: 'Acme', teamDomain: 'acme', botUserId: 'U_BOT' });
+    expect(second).toBe(first);
+    expect(authTest).toHaveBeenCalledTimes(1);
+    expect(teamInfo).toHaveBeenCalledTimes(1);
+  });
+
+  test('concurrent lookups share one set of API calls', async () => {
+    const { client, authTest } = fakeClient();
+
+    await Promise.all([getWorkspaceMetadata(client, 'T_CONCURRENT'), getWorkspaceMetadata(client, 'T_CONCURRENT')]);
+
+    expect(authTest).toHaveBeenCalledTimes(1);
+  });
+
+  test('refetches after a reinstall invalidates the workspace', async () => {
+    await getWorkspaceMetadata(fakeClient('U_OLD').client, 'T_REINSTALL');
+    invalidateWorkspaceMetadata('T_REINSTALL');
+
+    const metadata = await getWorkspaceMetadata(fakeClient('U_NEW').client, 'T_REINSTALL');
+    expect(metadata.botUserId).toBe('U_NEW');
+  });
+
+  test('does not cache failed lookups', async () => {
+    const failing = {
+      auth: { test: async () => { throw new Error('ratelimited'); } },
+      team: { info: async () => ({ ok: true, team: {} }) },
+    } as unknown as WebClient;
+
+    await expect(getWorkspaceMetadata(failing, 'T_FAIL')).rejects.toThrow('ratelimited');
+    expect((await getWorkspaceMetadata(fakeClient().client, 'T_FAIL')).botUserId).toBe('U_BOT');
+  });
+});